@@ -0,0 +1,82 @@
+// SPDX-License-Identifier: BUSL-1.1
+pragma solidity 0.8.18;
+
+import "../interfaces/IOrderBook.sol";
+import "../interfaces/ILighterV2TransferCallback.sol";
+
+/**
+ * @title TestExpensiveCallbackWallet
+ * @dev A wallet used for measuring how many fills fit in a transaction when the taker pays in an expensive callback.
+ * The transfer callback writes `callbackWrites` new storage slots before paying the order book.
+ * The callback does not check its caller, the contract is only meant for tests.
+ */
+contract TestExpensiveCallbackWallet is ILighterV2TransferCallback {
+    /// @notice storage slots written by every callback
+    uint256 public callbackWrites;
+
+    /// @notice first slot of `slots` which was not written yet
+    uint256 public nextSlot;
+
+    mapping(uint256 => uint256) private slots;
+
+    /**
+     * @param _callbackWrites The number of storage slots written by every callback.
+     */
+    constructor(uint256 _callbackWrites) {
+        callbackWrites = _callbackWrites;
+    }
+
+    /**
+     * @dev Writes `callbackWrites` new storage slots & pays the order book.
+     * @param debitTokenAmount The amount of debit tokens to be transferred.
+     * @param debitToken The ERC20 token used for the transfer.
+     */
+    function lighterV2TransferCallback(
+        uint256 debitTokenAmount,
+        IERC20Minimal debitToken,
+        bytes memory
+    ) external override {
+        uint256 slot = nextSlot;
+        for (uint256 i; i < callbackWrites; ++i) {
+            slots[slot + i] = 1;
+        }
+        nextSlot = slot + callbackWrites;
+
+        if (!debitToken.transfer(msg.sender, debitTokenAmount)) {
+            revert();
+        }
+    }
+
+    /**
+     * @dev Creates an order of any type in the order book, without hint.
+     */
+    function createOrder(
+        IOrderBook orderBook,
+        uint64 amount0Base,
+        uint64 priceBase,
+        bool isAsk,
+        IOrderBook.OrderType orderType
+    ) external returns (uint32) {
+        return orderBook.createOrder(amount0Base, priceBase, isAsk, address(this), 0, orderType, "");
+    }
+
+    /**
+     * @dev Swaps in the order book, the swapped tokens are sent to this wallet.
+     */
+    function swapExactSingle(
+        IOrderBook orderBook,
+        bool isAsk,
+        bool isExactInput,
+        uint256 exactAmount,
+        uint256 expectedAmount
+    ) external returns (uint256, uint256) {
+        return orderBook.swapExactSingle(isAsk, isExactInput, exactAmount, expectedAmount, address(this), "");
+    }
+
+    /**
+     * @dev Deposits tokens of this wallet in the order book, for performance limit orders.
+     */
+    function depositToken(IOrderBook orderBook, uint256 amountToDeposit, bool isToken0) external {
+        orderBook.depositToken(amountToDeposit, isToken0, "");
+    }
+}
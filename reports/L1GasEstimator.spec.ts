@@ -1,4 +1,14 @@
-import {getDataGasCost} from './L1GasEstimator'
+import {expect} from 'chai'
+import {ContractTransaction, utils, Wallet} from 'ethers'
+import {
+  getBrotliCompressedSize,
+  getBrotliDataGasCost,
+  getDataGasCost,
+  getHeuristicDataGasCost,
+  l1GasEstimators,
+  parseL1GasEstimator,
+  serializeSignedTransaction,
+} from './L1GasEstimator'
 
 it('getDataGasCost helper', () => {
   {
@@ -6,3 +16,54 @@ it('getDataGasCost helper', () => {
     console.log(`gas: ${gas} zeroBytes:${zeroBytes} nonZeroBytes:${nonZeroBytes}`)
   }
 })
+
+describe('brotli L1 gas estimation', () => {
+  const wallet = new Wallet(utils.id('L1GasEstimator'))
+  const fields = {chainId: 42161, nonce: 7, gasLimit: 1_000_000, to: wallet.address, value: 0}
+
+  it('serializes signed transactions like ArbOS', async () => {
+    for (const tx of [
+      {...fields, type: 2, maxFeePerGas: 100_000_000, maxPriorityFeePerGas: 0, data: '0x0102'},
+      {...fields, type: 0, gasPrice: 100_000_000, data: '0x'},
+    ]) {
+      const signed = await wallet.signTransaction(tx)
+      const parsed = utils.parseTransaction(signed)
+      expect(serializeSignedTransaction(parsed)).to.equal(signed)
+      expect(utils.keccak256(serializeSignedTransaction(parsed))).to.equal(parsed.hash)
+    }
+    const unsigned = utils.parseTransaction(await wallet.signTransaction(fields))
+    expect(() => serializeSignedTransaction({...unsigned, v: undefined})).to.throw('is not signed')
+  })
+
+  it('prices the compressed transaction', async () => {
+    const zeros = await wallet.signTransaction({...fields, type: 2, data: '0x' + '00'.repeat(1000)})
+    const random = await wallet.signTransaction({...fields, type: 2, data: utils.hexlify(utils.randomBytes(1000))})
+
+    const compressed = getBrotliDataGasCost(zeros)
+    expect(compressed.bytes).to.equal(utils.hexDataLength(zeros))
+    expect(compressed.compressedBytes).to.be.lessThan(compressed.bytes / 2)
+    expect(compressed.gas).to.equal(16 * compressed.compressedBytes)
+    expect(compressed.gas).to.equal(16 * getBrotliCompressedSize(zeros))
+    // 1000 zero bytes cost 4000 gas for the heuristic
+    expect(compressed.gas).to.be.lessThan(getHeuristicDataGasCost('0x' + '00'.repeat(1000)))
+
+    const incompressible = getBrotliDataGasCost(random)
+    expect(incompressible.compressedBytes).to.be.greaterThan(incompressible.bytes)
+
+    // 16 bytes & 1% of padding
+    const padded = getBrotliDataGasCost(random, true)
+    expect(padded.gas).to.equal(Math.floor(((incompressible.gas + 256) * 101) / 100))
+
+    // the brotli estimator reports the padded gas
+    const tx = utils.parseTransaction(random) as ContractTransaction
+    expect((await l1GasEstimators.brotli(tx)).l1GasUsed).to.equal(padded.gas)
+  })
+
+  it('selects the estimator', () => {
+    expect(parseL1GasEstimator(undefined)).to.equal('heuristic')
+    expect(parseL1GasEstimator('brotli')).to.equal('brotli')
+    expect(() => parseL1GasEstimator('zstd')).to.throw(
+      'unknown L1 gas estimator zstd, expected one of heuristic, brotli'
+    )
+  })
+})
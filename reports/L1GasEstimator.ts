@@ -42,19 +42,19 @@
 	return l1Bytes * params.TxDataNonZeroGasEIP2028
 */
 
-import {BigNumber, ContractTransaction, providers, utils} from 'ethers'
+import zlib from 'zlib'
+import {BigNumber, ContractTransaction, providers, Transaction, utils} from 'ethers'
 import {addDefaultLocalNetwork} from '@arbitrum/sdk'
 import {NodeInterface__factory} from '@arbitrum/sdk/dist/lib/abi/factories/NodeInterface__factory'
 import {NODE_INTERFACE_ADDRESS} from '@arbitrum/sdk/dist/lib/dataEntities/constants'
+import {gasPricesConfig} from './gas-price-config'
 
 // Add the default local network configuration to the SDK
 // to allow this script to run on a local node
 addDefaultLocalNetwork()
 
-// configs
-let useFixedGasPrices = true
-let fixedL1GasPrice = utils.parseUnits('10', 9)
-let fixedL2GasPrice = utils.parseUnits('0.1', 9)
+// configs, see gas-prices.json
+const {useFixedGasPrices, l1GasPrice: fixedL1GasPrice, l2GasPrice: fixedL2GasPrice} = gasPricesConfig
 
 let cachedL1GasCost: BigNumber | null = null
 
@@ -71,7 +71,7 @@ export async function getL1GasPrice(): Promise<BigNumber> {
     cachedL1GasCost = await provider.getGasPrice()
   } catch (e) {
     console.error(`failed to get L1 gas cost ${e}; using default`)
-    cachedL1GasCost = utils.parseUnits('30.0', 9) // gWEI
+    cachedL1GasCost = fixedL1GasPrice
   }
   return cachedL1GasCost
 }
@@ -91,7 +91,7 @@ export async function getL2GasPrice(): Promise<BigNumber> {
     cachedL2GasCost = await provider.getGasPrice()
   } catch (e) {
     console.error(`failed to get L2 gas cost ${e}; using default`)
-    cachedL2GasCost = utils.parseUnits('0.1', 9) // gWEI
+    cachedL2GasCost = fixedL2GasPrice
   }
   return cachedL2GasCost
 }
@@ -144,9 +144,13 @@ export function getDataGasCost(data: string) {
   return {gas, zeroBytes, nonZeroBytes}
 }
 
+// 140 bytes for the transaction metadata (recipient, nonce, gas price, ...) & the uncompressed calldata
+export function getHeuristicDataGasCost(data: string): number {
+  return 140 * 16 + getDataGasCost(data).gas
+}
+
 const estimateGasOffline = async (tx: ContractTransaction) => {
-  const {gas: dataGas} = getDataGasCost(tx.data)
-  let l1GasUsed = BigNumber.from(140).mul(16).add(dataGas)
+  let l1GasUsed = BigNumber.from(getHeuristicDataGasCost(tx.data))
   const l1GasPrice = await getL1GasPrice()
   const l2GasPrice = await getL2GasPrice()
   const totalCost = tx.gasLimit.mul(l2GasPrice).add(BigNumber.from(l1GasUsed).mul(l1GasPrice))
@@ -157,4 +161,98 @@ const estimateGasOffline = async (tx: ContractTransaction) => {
   }
 }
 
-export const estimateL1Gas = estimateGasOffline
+// the signed transaction as ArbOS receives it, tx.MarshalBinary: the type byte followed by the RLP of the fields
+export function serializeSignedTransaction(tx: Transaction): string {
+  const {r, s, v} = tx
+  if (r == undefined || s == undefined || v == undefined) {
+    throw `transaction ${tx.hash} is not signed`
+  }
+  const unsigned: utils.UnsignedTransaction = {
+    type: tx.type ?? 0,
+    chainId: tx.chainId,
+    nonce: tx.nonce,
+    gasLimit: tx.gasLimit,
+    to: tx.to,
+    value: tx.value,
+    data: tx.data,
+  }
+  if (tx.type == 2) {
+    unsigned.maxFeePerGas = tx.maxFeePerGas
+    unsigned.maxPriorityFeePerGas = tx.maxPriorityFeePerGas
+  } else {
+    unsigned.gasPrice = tx.gasPrice
+  }
+  if (tx.type == 1 || tx.type == 2) {
+    unsigned.accessList = tx.accessList ?? []
+  }
+  // v is the EIP-155 v of legacy transactions & the y parity of typed ones, both are normalized by ethers
+  const serialized = utils.serializeTransaction(unsigned, {r, s, v})
+  if (tx.hash != undefined && utils.keccak256(serialized) != tx.hash) {
+    throw `serialized transaction does not match ${tx.hash}`
+  }
+  return serialized
+}
+
+// byteCountAfterBrotli0 of ArbOS, the size of the data compressed by brotli at quality 0
+export function getBrotliCompressedSize(data: utils.BytesLike): number {
+  return zlib.brotliCompressSync(utils.arrayify(data), {
+    params: {
+      [zlib.constants.BROTLI_PARAM_QUALITY]: 0,
+      [zlib.constants.BROTLI_PARAM_LGWIN]: 22,
+    },
+  }).length
+}
+
+// https://github.com/OffchainLabs/nitro/blob/master/arbos/l1pricing/l1pricing.go
+// estimations pad the poster units by 16 non-zero bytes & 1%, as they do not have the full tx
+const txDataNonZeroGas = 16
+const estimationPaddingUnits = 16 * txDataNonZeroGas
+const estimationPaddingBasisPoints = 100
+
+export function getBrotliDataGasCost(serializedTx: string, withEstimationPadding: boolean = false) {
+  const compressedBytes = getBrotliCompressedSize(serializedTx)
+  let gas = compressedBytes * txDataNonZeroGas
+  if (withEstimationPadding) {
+    gas = Math.floor(((gas + estimationPaddingUnits) * (10000 + estimationPaddingBasisPoints)) / 10000)
+  }
+  return {gas, bytes: utils.hexDataLength(serializedTx), compressedBytes}
+}
+
+// padded like the estimates of ArbOS, the poster of the transaction is charged without padding
+const estimateGasBrotli = async (tx: ContractTransaction) => {
+  const {gas} = getBrotliDataGasCost(serializeSignedTransaction(tx), true)
+  const l1GasUsed = BigNumber.from(gas)
+  const l1GasPrice = await getL1GasPrice()
+  const l2GasPrice = await getL2GasPrice()
+  const totalCost = tx.gasLimit.mul(l2GasPrice).add(l1GasUsed.mul(l1GasPrice))
+  return {
+    totalCost,
+    l1GasUsed,
+    l1GasPrice,
+  }
+}
+
+// heuristic: getHeuristicDataGasCost
+// brotli: the compressed signed transaction, as ArbOS prices it, plus the padding of its estimates
+export const l1GasEstimators = {
+  heuristic: estimateGasOffline,
+  brotli: estimateGasBrotli,
+}
+
+export type L1GasEstimatorName = keyof typeof l1GasEstimators
+
+// the estimator of the reported l1GasUsed, e.g. L1_GAS_ESTIMATOR=brotli npx hardhat test
+// reports the padded brotli estimate, like the gas estimation of an Arbitrum node
+export const l1GasEstimator: L1GasEstimatorName = parseL1GasEstimator(process.env.L1_GAS_ESTIMATOR)
+
+export function parseL1GasEstimator(name: string | undefined): L1GasEstimatorName {
+  if (name == undefined || name == '') {
+    return 'heuristic'
+  }
+  if (!(name in l1GasEstimators)) {
+    throw `unknown L1 gas estimator ${name}, expected one of ${Object.keys(l1GasEstimators).join(', ')}`
+  }
+  return name as L1GasEstimatorName
+}
+
+export const estimateL1Gas = (tx: ContractTransaction) => l1GasEstimators[l1GasEstimator](tx)
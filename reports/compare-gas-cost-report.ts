@@ -1,16 +1,25 @@
 import fs from 'fs'
-
-interface GasReport {
-  scenarioName: string
-  l1GasUsed: number
-  l2GasUsed: number
-  totalCostETH: number
-  totalCostKGWEI: number
-  l1CostKGWEI: number
-  l2CostKGWEI: number
-}
-
-function readJsonFile(filePath: string): Promise<GasReport[]> {
+import {
+  compareGasReports,
+  defaultGasThresholds,
+  formatGasComparison,
+  GasThresholds,
+  parseGasThresholds,
+} from './gas-regression'
+import {gasReportScenarios} from './gas-report-collector'
+
+const usage = `usage ts-node ./reports/compare-gas-cost-report.ts <main report> <current report> [options]
+  e.g. ts-node ./reports/compare-gas-cost-report.ts ./reports/gas-cost-report-main.json ./reports/gas-cost-report.json
+
+  --thresholds <path>   JSON file of the gas budgets, e.g.
+                        {"default": {"l2GasUsed": {"absolute": 100, "percentage": 0.5}},
+                         "scenarios": {"SWAP_EXACT_INPUT": {"totalCost": {"percentage": 1}}},
+                         "failOnRemovedScenarios": true}
+                        metrics are l2GasUsed, l1GasUsed & totalCost; by default any increase is a regression
+  --json <path>         write the comparison as JSON, for CI
+`
+
+function readJsonFile(filePath: string): Promise<any> {
   return new Promise((resolve, reject) => {
     fs.readFile(filePath, 'utf8', (err, data) => {
       if (err) {
@@ -28,107 +37,64 @@ function readJsonFile(filePath: string): Promise<GasReport[]> {
   })
 }
 
-function arrayAsDict(list: GasReport[]): Map<String, GasReport> {
-  const m = new Map<String, GasReport>()
-
-  for (const report of list) {
-    m.set(report.scenarioName, report)
-  }
-
-  return m
-}
-
-interface CompareResult {
-  scenarioName: String
-  initialL2: number | undefined
-  currentL2: number | undefined
-  increase: number | undefined
-  increasePercentage: string | undefined
-}
-
-function compare(a: Map<String, GasReport>, b: Map<String, GasReport>) {
-  const allKeys = new Set<String>()
-  for (const key of a.keys()) {
-    allKeys.add(key)
-  }
-  for (const key of b.keys()) {
-    allKeys.add(key)
-  }
-
-  let results: CompareResult[] = []
-
-  for (const key of allKeys.keys()) {
-    let initialL2 = undefined
-    let currentL2 = undefined
+async function main(): Promise<boolean> {
+  const paths: string[] = []
+  let thresholdsPath: string | null = null
+  let jsonPath: string | null = null
 
-    if (a.has(key)) {
-      initialL2 = a.get(key)!.l2GasUsed
-    }
-    if (b.has(key)) {
-      currentL2 = b.get(key)!.l2GasUsed
-    }
-
-    if (initialL2 == undefined || currentL2 == undefined) {
-      results.push({
-        scenarioName: key,
-        initialL2: initialL2,
-        currentL2: currentL2,
-        increase: undefined,
-        increasePercentage: undefined,
-      })
-    } else {
-      results.push({
-        scenarioName: key,
-        initialL2: initialL2,
-        currentL2: currentL2,
-        increase: currentL2 - initialL2,
-        increasePercentage: ((100 * (currentL2 - initialL2)) / initialL2).toFixed(2),
-      })
-    }
-  }
-
-  results.sort((a, b) => {
-    if (a.increase == undefined) {
-      return +1
-    } else if (b.increase == undefined) {
-      return -1
+  const args = process.argv.slice(2)
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index]
+    if (arg == '--thresholds' || arg == '--json') {
+      const value = args[++index]
+      if (value == undefined) {
+        throw `missing path of ${arg}`
+      }
+      if (arg == '--thresholds') {
+        thresholdsPath = value
+      } else {
+        jsonPath = value
+      }
+    } else if (arg.startsWith('--')) {
+      throw `unknown option ${arg}`
     } else {
-      return b.increase - a.increase
+      paths.push(arg)
     }
-  })
-
-  console.log(`|FUNCTION|MAIN|REFACTORED|INCREASE|% INCREASE|`)
-  console.log(`|-----|-----|-----|-----|-----|`)
-  for (const result of results) {
-    console.log(
-      `| ${result.scenarioName} | ${result.initialL2 || '-'} | ${result.currentL2 || '-'} | ${
-        result.increase || '-'
-      } | ${result.increasePercentage || '-'} |`
-    )
   }
-}
 
-async function main() {
-  const args = process.argv.slice(2)
-
-  if (args.length !== 2) {
+  if (paths.length !== 2) {
     console.error('Please provide two JSON file paths as arguments.')
-    console.error(
-      'usage ts-node ./reports/compare-gas-cost-report.ts ./reports/gas-cost-report-main.json ./reports/gas-cost-report.json'
-    )
-    return
+    console.error(usage)
+    return false
   }
 
-  const [filePath1, filePath2] = args
+  const [filePath1, filePath2] = paths
+  const initial = gasReportScenarios(await readJsonFile(filePath1))
+  const current = gasReportScenarios(await readJsonFile(filePath2))
+  const thresholds: GasThresholds =
+    thresholdsPath != null ? parseGasThresholds(await readJsonFile(thresholdsPath)) : defaultGasThresholds
 
-  try {
-    const initial = arrayAsDict(await readJsonFile(filePath1))
-    const current = arrayAsDict(await readJsonFile(filePath2))
+  const summary = compareGasReports(initial, current, thresholds)
+  console.log(formatGasComparison(summary))
+  if (jsonPath != null) {
+    fs.writeFileSync(jsonPath, JSON.stringify(summary, null, 2))
+  }
 
-    compare(initial, current)
-  } catch (error) {
-    console.error('Error reading or parsing JSON files:', error)
+  if (summary.regressions.length != 0) {
+    console.error(`\ngas regressions over budget: ${summary.regressions.join(', ')}`)
   }
+  if (summary.removedScenarios.length != 0) {
+    console.error(`removed scenarios: ${summary.removedScenarios.join(', ')}`)
+  }
+  return summary.passed
 }
 
 main()
+  .then((passed) => {
+    // non zero exit code, so CI fails when the gas cost exceeds the budget
+    process.exitCode = passed ? 0 : 1
+  })
+  .catch((error) => {
+    console.error('Error reading or parsing JSON files:', error)
+    process.exitCode = 1
+  })
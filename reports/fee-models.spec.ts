@@ -0,0 +1,79 @@
+import {expect} from 'chai'
+import {BigNumber, ContractTransaction, utils, Wallet} from 'ethers'
+import {getFeeModel, getFeeModels} from './fee-models'
+import {gasPricesConfigPath, parseGasPricesConfig, readGasPricesConfig} from './gas-price-config'
+import {getDataGasCost, getHeuristicDataGasCost} from './L1GasEstimator'
+
+describe('fee models', () => {
+  const config = parseGasPricesConfig({
+    l1GasPrice: 10,
+    l2GasPrice: '0.1',
+    l1BlobBaseFee: '1',
+    feeModels: ['arbitrum'],
+    opStack: {l1FeeOverhead: 188, l1FeeScalar: 684000, baseFeeScalar: 1368, blobBaseFeeScalar: 810949},
+  })
+  const prices = {l1GasPrice: config.l1GasPrice, l2GasPrice: config.l2GasPrice, l1BlobBaseFee: config.l1BlobBaseFee}
+  const l2GasUsed = BigNumber.from(100_000)
+
+  async function signedTransaction() {
+    const wallet = new Wallet(utils.id('fee models'))
+    const signed = await wallet.signTransaction({
+      type: 2,
+      chainId: 10,
+      nonce: 1,
+      gasLimit: 200_000,
+      maxFeePerGas: 1_000_000,
+      to: wallet.address,
+      data: '0x00000001ffff',
+    })
+    return {signed, tx: utils.parseTransaction(signed) as ContractTransaction}
+  }
+
+  it('prices the execution & the data of every chain', async () => {
+    const {signed, tx} = await signedTransaction()
+    const calldataGas = getDataGasCost(signed).gas
+    const l2Cost = l2GasUsed.mul(utils.parseUnits('0.1', 9))
+
+    const arbitrum = await getFeeModel('arbitrum', config).estimate(tx, l2GasUsed, prices)
+    expect(arbitrum.l1GasUsed).to.equal(getHeuristicDataGasCost(tx.data))
+    expect(arbitrum.l1Cost).to.equal(arbitrum.l1GasUsed.mul(utils.parseUnits('10', 9)))
+    expect(arbitrum.l2Cost).to.equal(l2Cost)
+
+    const bedrock = await getFeeModel('opStackBedrock', config).estimate(tx, l2GasUsed, prices)
+    expect(bedrock.l1GasUsed).to.equal(calldataGas + 188)
+    expect(bedrock.l1Cost).to.equal(
+      utils
+        .parseUnits('10', 9)
+        .mul(calldataGas + 188)
+        .mul(684)
+        .div(1000)
+    )
+    expect(bedrock.totalCost).to.equal(bedrock.l1Cost.add(l2Cost))
+
+    const ecotone = await getFeeModel('opStackEcotone', config).estimate(tx, l2GasUsed, prices)
+    expect(ecotone.l1GasUsed).to.equal(calldataGas)
+    // 16 * 1368 * 10 gwei + 810949 * 1 gwei, per compressed byte
+    const weightedGasPrice = utils.parseUnits(`${16 * 1368 * 10 + 810949}`, 9)
+    expect(ecotone.l1Cost).to.equal(weightedGasPrice.mul(calldataGas).div(16 * 1e6))
+
+    const l1 = await getFeeModel('l1', config).estimate(tx, l2GasUsed, prices)
+    expect(l1.l1GasUsed).to.equal(0)
+    expect(l1.totalCost).to.equal(l2GasUsed.mul(utils.parseUnits('10', 9)))
+  })
+
+  it('reads the models & prices of the config', () => {
+    const defaultConfig = readGasPricesConfig(gasPricesConfigPath)
+    expect(getFeeModels(defaultConfig).map((model) => model.name)).to.eql(defaultConfig.feeModels)
+    expect(config.l1GasPrice).to.equal(utils.parseUnits('10', 9))
+    expect(config.useFixedGasPrices).to.equal(true)
+
+    expect(() => getFeeModel('zksync', config)).to.throw('unknown fee model zksync')
+    expect(() => parseGasPricesConfig({...config, feeModels: []})).to.throw('feeModels must list at least one')
+    expect(() => parseGasPricesConfig({l1GasPrice: null, feeModels: ['l1']})).to.throw(
+      'l1GasPrice must be a price in gwei'
+    )
+    expect(() =>
+      parseGasPricesConfig({l1GasPrice: 1, l2GasPrice: 1, l1BlobBaseFee: 1, feeModels: ['l1'], opStack: {}})
+    ).to.throw('opStack.l1FeeOverhead must be a non negative integer')
+  })
+})
@@ -0,0 +1,91 @@
+import {BigNumber, ContractTransaction} from 'ethers'
+import {estimateL1Gas, getDataGasCost, serializeSignedTransaction} from './L1GasEstimator'
+import {GasPricesConfig, OpStackFeeParams} from './gas-price-config'
+
+export interface FeePrices {
+  l1GasPrice: BigNumber
+  l2GasPrice: BigNumber
+  l1BlobBaseFee: BigNumber
+}
+
+// costs are in wei; l1GasUsed is the L1 gas the chain charges the data of the transaction for
+export interface FeeEstimate {
+  l1GasUsed: BigNumber
+  l1Cost: BigNumber
+  l2Cost: BigNumber
+  totalCost: BigNumber
+}
+
+// a fee model prices a transaction which used l2GasUsed for its execution on a given chain
+export interface FeeModel {
+  name: string
+  estimate(tx: ContractTransaction, l2GasUsed: BigNumber, prices: FeePrices): Promise<FeeEstimate>
+}
+
+function feeEstimate(l1GasUsed: BigNumber, l1Cost: BigNumber, l2Cost: BigNumber): FeeEstimate {
+  return {l1GasUsed, l1Cost, l2Cost, totalCost: l1Cost.add(l2Cost)}
+}
+
+// the L1 gas of the data is estimated by estimateL1Gas, the heuristic or the brotli estimator of L1_GAS_ESTIMATOR
+export const arbitrumFeeModel: FeeModel = {
+  name: 'arbitrum',
+  async estimate(tx, l2GasUsed, prices) {
+    const {l1GasUsed, l1GasPrice} = await estimateL1Gas(tx)
+    return feeEstimate(l1GasUsed, l1GasUsed.mul(l1GasPrice), l2GasUsed.mul(prices.l2GasPrice))
+  },
+}
+
+// bedrock: (calldata gas of the signed transaction + overhead) * l1 base fee * scalar
+export function opStackBedrockFeeModel(params: OpStackFeeParams): FeeModel {
+  return {
+    name: 'opStackBedrock',
+    async estimate(tx, l2GasUsed, prices) {
+      const l1GasUsed = BigNumber.from(getDataGasCost(serializeSignedTransaction(tx)).gas + params.l1FeeOverhead)
+      const l1Cost = l1GasUsed.mul(prices.l1GasPrice).mul(params.l1FeeScalar).div(1e6)
+      return feeEstimate(l1GasUsed, l1Cost, l2GasUsed.mul(prices.l2GasPrice))
+    },
+  }
+}
+
+// ecotone: compressed size * (16 * base fee scalar * l1 base fee + blob base fee scalar * blob base fee)
+// the compressed size is the calldata gas / 16, as the GasPriceOracle of ecotone estimates it
+export function opStackEcotoneFeeModel(params: OpStackFeeParams): FeeModel {
+  return {
+    name: 'opStackEcotone',
+    async estimate(tx, l2GasUsed, prices) {
+      const l1GasUsed = BigNumber.from(getDataGasCost(serializeSignedTransaction(tx)).gas)
+      const weightedGasPrice = prices.l1GasPrice
+        .mul(16 * params.baseFeeScalar)
+        .add(prices.l1BlobBaseFee.mul(params.blobBaseFeeScalar))
+      const l1Cost = l1GasUsed.mul(weightedGasPrice).div(16 * 1e6)
+      return feeEstimate(l1GasUsed, l1Cost, l2GasUsed.mul(prices.l2GasPrice))
+    },
+  }
+}
+
+// the transaction executed on L1, its calldata is already part of the gas used
+export const l1FeeModel: FeeModel = {
+  name: 'l1',
+  async estimate(tx, l2GasUsed, prices) {
+    return feeEstimate(BigNumber.from(0), BigNumber.from(0), l2GasUsed.mul(prices.l1GasPrice))
+  },
+}
+
+export function getFeeModel(name: string, config: GasPricesConfig): FeeModel {
+  switch (name) {
+    case 'arbitrum':
+      return arbitrumFeeModel
+    case 'opStackBedrock':
+      return opStackBedrockFeeModel(config.opStack)
+    case 'opStackEcotone':
+      return opStackEcotoneFeeModel(config.opStack)
+    case 'l1':
+      return l1FeeModel
+    default:
+      throw `unknown fee model ${name}, expected one of arbitrum, opStackBedrock, opStackEcotone, l1`
+  }
+}
+
+export function getFeeModels(config: GasPricesConfig): FeeModel[] {
+  return config.feeModels.map((name) => getFeeModel(name, config))
+}
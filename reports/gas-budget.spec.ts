@@ -0,0 +1,42 @@
+import {expect} from 'chai'
+import {gasBaselineFromReports, parseGasBaseline} from './gas-budget'
+import {GasReport} from './gas-regression'
+
+describe('gas budget', () => {
+  function report(scenarioName: string, l2GasUsed: number, l1GasUsed: number): GasReport {
+    return {
+      scenarioName,
+      l1GasUsed: `${l1GasUsed}`,
+      l2GasUsed: `${l2GasUsed}`,
+      totalCostETH: '0',
+      totalCostKGWEI: '0',
+      l1CostKGWEI: '0',
+      l2CostKGWEI: '0',
+    }
+  }
+
+  it('creates the baseline of a report, sorted by scenario', () => {
+    const baseline = gasBaselineFromReports(
+      [report('CANCEL_4_LIMIT_ORDERS', 150970, 3412), report('CANCEL_1_LIMIT_ORDER', 73493, 2992)],
+      'heuristic'
+    )
+    expect(baseline).to.eql({
+      l1Estimator: 'heuristic',
+      scenarios: {
+        CANCEL_1_LIMIT_ORDER: {l2GasUsed: 73493, l1GasUsed: 2992},
+        CANCEL_4_LIMIT_ORDERS: {l2GasUsed: 150970, l1GasUsed: 3412},
+      },
+    })
+    expect(Object.keys(baseline.scenarios)).to.eql(['CANCEL_1_LIMIT_ORDER', 'CANCEL_4_LIMIT_ORDERS'])
+  })
+
+  it('rejects invalid baselines', () => {
+    expect(() => parseGasBaseline({scenarios: {}})).to.throw('l1Estimator of the gas baseline must be a string')
+    expect(() => parseGasBaseline({l1Estimator: 'brotli', scenarios: []})).to.throw(
+      'scenarios of the gas baseline must map scenario names to their gas'
+    )
+    expect(() =>
+      parseGasBaseline({l1Estimator: 'brotli', scenarios: {FLASH_LOAN: {l2GasUsed: '93148', l1GasUsed: 3000}}})
+    ).to.throw('l2GasUsed of scenario FLASH_LOAN must be a non negative integer')
+  })
+})
@@ -0,0 +1,66 @@
+import fs from 'fs'
+import path from 'path'
+import {GasReport} from './gas-regression'
+
+// baseline of the gas budget assertions of the tests, e.g. expect(tx).to.useGasWithin('CANCEL_4_LIMIT_ORDERS', 1)
+// checked in as reports/gas-baseline.json & updated from a report with ./reports/update-gas-baseline.ts
+// another file can be used with GAS_BASELINE=path/to/gas-baseline.json npx hardhat test
+export const gasBaselinePath = process.env.GAS_BASELINE || path.join(__dirname, 'gas-baseline.json')
+
+export interface BaselineGas {
+  l2GasUsed: number
+  l1GasUsed: number
+}
+
+export interface GasBaseline {
+  l1Estimator: string // estimator of l1GasUsed, see L1GasEstimator
+  scenarios: {[scenarioName: string]: BaselineGas}
+}
+
+export function parseGasBaseline(json: any): GasBaseline {
+  if (typeof json?.l1Estimator != 'string') {
+    throw 'l1Estimator of the gas baseline must be a string'
+  }
+  if (typeof json.scenarios != 'object' || json.scenarios == null || Array.isArray(json.scenarios)) {
+    throw 'scenarios of the gas baseline must map scenario names to their gas'
+  }
+
+  const scenarios: {[scenarioName: string]: BaselineGas} = {}
+  for (const [scenarioName, gas] of Object.entries<any>(json.scenarios)) {
+    for (const metric of ['l2GasUsed', 'l1GasUsed']) {
+      if (!Number.isInteger(gas?.[metric]) || gas[metric] < 0) {
+        throw `${metric} of scenario ${scenarioName} must be a non negative integer`
+      }
+    }
+    scenarios[scenarioName] = {l2GasUsed: gas.l2GasUsed, l1GasUsed: gas.l1GasUsed}
+  }
+  return {l1Estimator: json.l1Estimator, scenarios}
+}
+
+export function readGasBaseline(filePath: string = gasBaselinePath): GasBaseline {
+  return parseGasBaseline(JSON.parse(fs.readFileSync(filePath, 'utf8')))
+}
+
+// the baseline is only read by the first assertion, tests without budgets do not need it
+let gasBaseline: GasBaseline | null = null
+
+export function baselineGas(scenarioName: string): BaselineGas & {l1Estimator: string} {
+  gasBaseline = gasBaseline ?? readGasBaseline()
+  const gas = gasBaseline.scenarios[scenarioName]
+  if (gas == undefined) {
+    throw `scenario ${scenarioName} is not in the gas baseline ${gasBaselinePath}, add it with ./reports/update-gas-baseline.ts`
+  }
+  return {...gas, l1Estimator: gasBaseline.l1Estimator}
+}
+
+// the baseline of the scenarios of a report, sorted by name so updates diff well
+export function gasBaselineFromReports(scenarios: GasReport[], l1Estimator: string): GasBaseline {
+  const baseline: GasBaseline = {l1Estimator, scenarios: {}}
+  for (const report of [...scenarios].sort((a, b) => a.scenarioName.localeCompare(b.scenarioName))) {
+    baseline.scenarios[report.scenarioName] = {
+      l2GasUsed: Number(report.l2GasUsed),
+      l1GasUsed: Number(report.l1GasUsed),
+    }
+  }
+  return parseGasBaseline(baseline)
+}
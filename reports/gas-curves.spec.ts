@@ -0,0 +1,45 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {expect} from 'chai'
+import {GasCurve, gasCurveCsv, gasCurveSvg, marginalGas, writeGasCurve} from './gas-curves'
+
+describe('gas curves', () => {
+  function curve() {
+    const curve = new GasCurve('fills', 'fills <& gas>', 'makers consumed')
+    curve.add('limit, maker', 4, 160000)
+    curve.add('limit, maker', 1, 110000)
+    curve.add('performance', 1, 100000)
+    curve.add('limit, maker', 2, 126000)
+    return curve
+  }
+
+  it('computes the marginal gas of every point', () => {
+    expect(marginalGas(curve().series().get('limit, maker')!)).to.eql([null, 16000, 17000])
+  })
+
+  it('writes a csv row per point', () => {
+    expect(gasCurveCsv(curve()).split('\n')).to.eql([
+      'series,makers consumed,gasUsed,marginalGas',
+      '"limit, maker",1,110000,',
+      '"limit, maker",2,126000,16000',
+      '"limit, maker",4,160000,17000',
+      'performance,1,100000,',
+      '',
+    ])
+  })
+
+  it('draws a line per series', () => {
+    const svg = gasCurveSvg(curve())
+    expect(svg.match(/<polyline /g)).to.have.length(2)
+    expect(svg.match(/<circle /g)).to.have.length(4)
+    expect(svg).to.contain('fills &lt;&amp; gas&gt;')
+    // the gas axis starts at 0 & ends at the first tick above the most gas used
+    expect(svg).to.contain('>200000</text>')
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gas-curves-'))
+    writeGasCurve(curve(), dir)
+    expect(fs.readdirSync(dir).sort()).to.eql(['fills.csv', 'fills.svg'])
+    fs.rmSync(dir, {recursive: true})
+  })
+})
@@ -0,0 +1,158 @@
+import fs from 'fs'
+import path from 'path'
+
+export const gasCurvesDirectory = './reports/gas-curves'
+
+export interface GasCurvePoint {
+  series: string
+  x: number
+  gasUsed: number
+}
+
+// GasCurve holds the gas used for every value of a benchmark parameter, one series per variant (e.g. hint quality)
+export class GasCurve {
+  name: string // file name of the csv & svg
+  title: string
+  parameter: string // label of the x axis
+  points: GasCurvePoint[] = []
+
+  constructor(name: string, title: string, parameter: string) {
+    this.name = name
+    this.title = title
+    this.parameter = parameter
+  }
+
+  add(series: string, x: number, gasUsed: number) {
+    this.points.push({series, x, gasUsed})
+  }
+
+  // points of every series, sorted by x, in the order the series were added
+  series(): Map<string, GasCurvePoint[]> {
+    const series = new Map<string, GasCurvePoint[]>()
+    for (const point of this.points) {
+      series.set(point.series, [...(series.get(point.series) ?? []), point])
+    }
+    for (const points of series.values()) {
+      points.sort((a, b) => a.x - b.x)
+    }
+    return series
+  }
+}
+
+// gas of every additional unit of the parameter since the previous point, e.g. gas per fill; null for the first point
+export function marginalGas(points: GasCurvePoint[]): (number | null)[] {
+  return points.map((point, index) => {
+    if (index == 0) {
+      return null
+    }
+    const previous = points[index - 1]
+    return (point.gasUsed - previous.gasUsed) / (point.x - previous.x)
+  })
+}
+
+function csvCell(value: string | number | null): string {
+  const text = value == null ? '' : `${value}`
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function gasCurveCsv(curve: GasCurve): string {
+  const rows = [['series', curve.parameter, 'gasUsed', 'marginalGas']]
+  for (const [series, points] of curve.series()) {
+    const marginal = marginalGas(points)
+    points.forEach((point, index) => {
+      const gas = marginal[index]
+      rows.push([series, `${point.x}`, `${point.gasUsed}`, gas == null ? '' : `${Math.round(gas)}`])
+    })
+  }
+  return rows.map((row) => row.map(csvCell).join(',')).join('\n') + '\n'
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+// values of the axis ticks, rounded to 1, 2 or 5 times a power of 10
+function ticks(max: number, count: number): number[] {
+  if (max <= 0) {
+    return [0]
+  }
+  const rough = max / count
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)))
+  const step = [1, 2, 5, 10].map((factor) => factor * magnitude).find((step) => step >= rough)!
+  // the last tick is at or above max, so every point is inside the chart
+  const values = [0]
+  while (values[values.length - 1] < max) {
+    values.push(values[values.length - 1] + step)
+  }
+  return values
+}
+
+const colors = ['#1f77b4', '#ff7f0e', '#2ca02c', '#d62728', '#9467bd', '#8c564b']
+
+// a line chart of the gas used over the parameter, one line per series, starting both axes at 0
+export function gasCurveSvg(curve: GasCurve, width: number = 720, height: number = 420): string {
+  const margin = {top: 40, right: 200, bottom: 50, left: 80}
+  const plotWidth = width - margin.left - margin.right
+  const plotHeight = height - margin.top - margin.bottom
+
+  const xTicks = ticks(Math.max(...curve.points.map((point) => point.x), 1), 8)
+  const yTicks = ticks(Math.max(...curve.points.map((point) => point.gasUsed), 1), 6)
+  const xMax = xTicks[xTicks.length - 1] || 1
+  const yMax = yTicks[yTicks.length - 1] || 1
+  const x = (value: number) => (margin.left + (value / xMax) * plotWidth).toFixed(1)
+  const y = (value: number) => (margin.top + plotHeight - (value / yMax) * plotHeight).toFixed(1)
+
+  const lines = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" font-family="sans-serif" font-size="12">`,
+    `<rect width="${width}" height="${height}" fill="white"/>`,
+    `<text x="${width / 2}" y="20" text-anchor="middle" font-size="14">${escapeXml(curve.title)}</text>`,
+  ]
+  for (const value of xTicks) {
+    lines.push(
+      `<line x1="${x(value)}" y1="${y(0)}" x2="${x(value)}" y2="${margin.top}" stroke="#eee"/>`,
+      `<text x="${x(value)}" y="${margin.top + plotHeight + 16}" text-anchor="middle">${value}</text>`
+    )
+  }
+  for (const value of yTicks) {
+    lines.push(
+      `<line x1="${margin.left}" y1="${y(value)}" x2="${margin.left + plotWidth}" y2="${y(value)}" stroke="#eee"/>`,
+      `<text x="${margin.left - 6}" y="${y(value)}" text-anchor="end" dominant-baseline="middle">${value}</text>`
+    )
+  }
+  lines.push(
+    `<line x1="${margin.left}" y1="${y(0)}" x2="${margin.left + plotWidth}" y2="${y(0)}" stroke="black"/>`,
+    `<line x1="${margin.left}" y1="${y(0)}" x2="${margin.left}" y2="${margin.top}" stroke="black"/>`,
+    `<text x="${margin.left + plotWidth / 2}" y="${height - 12}" text-anchor="middle">${escapeXml(
+      curve.parameter
+    )}</text>`,
+    `<text x="16" y="${margin.top + plotHeight / 2}" text-anchor="middle" transform="rotate(-90 16 ${
+      margin.top + plotHeight / 2
+    })">gas used</text>`
+  )
+
+  let index = 0
+  for (const [series, points] of curve.series()) {
+    const color = colors[index % colors.length]
+    const coordinates = points.map((point) => `${x(point.x)},${y(point.gasUsed)}`)
+    lines.push(`<polyline fill="none" stroke="${color}" stroke-width="2" points="${coordinates.join(' ')}"/>`)
+    for (const point of points) {
+      lines.push(`<circle cx="${x(point.x)}" cy="${y(point.gasUsed)}" r="3" fill="${color}"/>`)
+    }
+    const legendY = margin.top + 10 + index * 18
+    lines.push(
+      `<line x1="${width - margin.right + 16}" y1="${legendY}" x2="${
+        width - margin.right + 36
+      }" y2="${legendY}" stroke="${color}" stroke-width="2"/>`,
+      `<text x="${width - margin.right + 42}" y="${legendY}" dominant-baseline="middle">${escapeXml(series)}</text>`
+    )
+    index += 1
+  }
+  lines.push('</svg>')
+  return lines.join('\n') + '\n'
+}
+
+export function writeGasCurve(curve: GasCurve, directory: string = gasCurvesDirectory) {
+  fs.mkdirSync(directory, {recursive: true})
+  fs.writeFileSync(path.join(directory, `${curve.name}.csv`), gasCurveCsv(curve))
+  fs.writeFileSync(path.join(directory, `${curve.name}.svg`), gasCurveSvg(curve))
+}
@@ -0,0 +1,68 @@
+import fs from 'fs'
+import path from 'path'
+import {BigNumber, utils} from 'ethers'
+
+// gas prices & fee parameters of the gas reports, read from reports/gas-prices.json
+// another file can be used with GAS_PRICES_CONFIG=path/to/gas-prices.json npx hardhat test
+export const gasPricesConfigPath = process.env.GAS_PRICES_CONFIG || path.join(__dirname, 'gas-prices.json')
+
+// parameters of the GasPriceOracle predeploy of OP-stack chains, scalars are multiplied by 1e6
+// https://docs.optimism.io/stack/transactions/fees#l1-data-fee
+export interface OpStackFeeParams {
+  l1FeeOverhead: number // bedrock
+  l1FeeScalar: number // bedrock
+  baseFeeScalar: number // ecotone
+  blobBaseFeeScalar: number // ecotone
+}
+
+export interface GasPricesConfig {
+  // false fetches the L1 & L2 gas prices from public RPCs, falling back to the prices of the config
+  useFixedGasPrices: boolean
+  l1GasPrice: BigNumber
+  l2GasPrice: BigNumber
+  l1BlobBaseFee: BigNumber
+  // fee models of the report, the first one is the reported cost; see fee-models.ts
+  feeModels: string[]
+  opStack: OpStackFeeParams
+}
+
+// prices are written in gwei
+export function parseGasPricesConfig(json: any): GasPricesConfig {
+  const gwei = (name: string): BigNumber => {
+    const value = json[name]
+    if (typeof value != 'string' && typeof value != 'number') {
+      throw `${name} must be a price in gwei`
+    }
+    return utils.parseUnits(`${value}`, 9)
+  }
+  const integer = (name: keyof OpStackFeeParams): number => {
+    const value = json.opStack?.[name]
+    if (!Number.isInteger(value) || value < 0) {
+      throw `opStack.${name} must be a non negative integer`
+    }
+    return value
+  }
+
+  if (!Array.isArray(json.feeModels) || json.feeModels.length == 0) {
+    throw 'feeModels must list at least one fee model'
+  }
+  return {
+    useFixedGasPrices: json.useFixedGasPrices ?? true,
+    l1GasPrice: gwei('l1GasPrice'),
+    l2GasPrice: gwei('l2GasPrice'),
+    l1BlobBaseFee: gwei('l1BlobBaseFee'),
+    feeModels: json.feeModels,
+    opStack: {
+      l1FeeOverhead: integer('l1FeeOverhead'),
+      l1FeeScalar: integer('l1FeeScalar'),
+      baseFeeScalar: integer('baseFeeScalar'),
+      blobBaseFeeScalar: integer('blobBaseFeeScalar'),
+    },
+  }
+}
+
+export function readGasPricesConfig(filePath: string = gasPricesConfigPath): GasPricesConfig {
+  return parseGasPricesConfig(JSON.parse(fs.readFileSync(filePath, 'utf8')))
+}
+
+export const gasPricesConfig = readGasPricesConfig()
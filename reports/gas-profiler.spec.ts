@@ -0,0 +1,66 @@
+import {expect} from 'chai'
+import {utils} from 'ethers'
+import {formatGasProfiles, profileTrace, StructLog} from './gas-profiler'
+
+describe('gas profiler', () => {
+  const orderBook = '0x00000000000000000000000000000000000000b0'
+  const token = '0x00000000000000000000000000000000000000c0'
+  const transferSelector = utils.id('transfer(address,uint256)').slice(2, 10)
+  const swapTopic = utils.id('Swap(uint32,uint32,address,address,uint256,uint256)').slice(2)
+  const transferTopic = utils.id('Transfer(address,address,uint256)').slice(2)
+
+  function word(value: string | number): string {
+    return (typeof value == 'number' ? value.toString(16) : value.replace(/^0x/, '')).padStart(64, '0')
+  }
+
+  // steps of the order book, consuming 2 makers & paying the taker with a token transfer
+  function steps(): StructLog[] {
+    // stacks are listed from the top
+    const logs: [number, number, string, (string | number)[]][] = [
+      [1, 100000, 'SLOAD', [1]],
+      [1, 97900, 'SLOAD', [1]],
+      [1, 97800, 'SSTORE', [5, 1]],
+      [1, 75700, 'LOG3', [0xa0, 0, swapTopic, 0, 0]],
+      [1, 73000, 'SLOAD', [1]],
+      [1, 72900, 'LOG3', [0xa0, 0, swapTopic, 0, 0]],
+      [1, 70000, 'CALL', [60000, token, 0, 0, 0, 0, 0]],
+      [2, 60000, 'SHR', [0xe0, 0x44]],
+      [2, 59997, 'PUSH4', [transferSelector]],
+      [2, 59994, 'SLOAD', [1]],
+      [2, 57894, 'LOG3', [0, 0x20, transferTopic, 0, 0]],
+      [2, 56000, 'RETURN', [0, 0]],
+      [1, 55000, 'SSTORE', [1, 2]],
+      [1, 54900, 'STOP', []],
+    ]
+    return logs.map(([depth, gas, op, stack], pc) => ({
+      depth,
+      gas,
+      gasCost: 3,
+      op,
+      pc,
+      stack: stack.map(word).reverse(),
+    }))
+  }
+
+  it('counts cold & warm storage accesses per contract', () => {
+    const profile = profileTrace(steps(), orderBook)
+    // the slot of the token is cold, even though the order book accessed the same slot before
+    expect(profile.sload).to.eql({cold: 2, warm: 2, gas: 2100 + 100 + 100 + 2100})
+    expect(profile.sstore).to.eql({cold: 1, warm: 1, gas: 22100 + 100})
+  })
+
+  it('measures calls by selector, logs & fills', () => {
+    const profile = profileTrace(steps(), orderBook)
+    expect(profile.calls.tokenTransfer).to.eql({count: 1, gas: 15000})
+    expect(profile.calls.transferCallback).to.eql({count: 0, gas: 0})
+    expect(profile.logs).to.eql({count: 3, gas: 2700 + 2900 + 1894})
+    expect(profile.fills).to.eql({count: 2, iterationGas: [2800]})
+  })
+
+  it('formats the profiles as a table', () => {
+    const profile = profileTrace(steps(), orderBook)
+    expect(formatGasProfiles([{scenarioName: 'IOC_2_FILLS', l2GasUsed: 45100, profile}]).split('\n')[2]).to.equal(
+      '| IOC_2_FILLS | 45100 | 2 / 2 (4400) | 1 / 1 (22200) | 0 (0) | 1 (15000) | 0 (0) | 0 (0) | 0 (0) | 3 (7494) | 2 | 2800 |'
+    )
+  })
+})
@@ -0,0 +1,253 @@
+import {utils} from 'ethers'
+import {IOrderBook__factory} from 'typechain-types'
+
+// breaks the gas of a transaction into storage accesses, external calls, logs & fills, from the opcodes of
+// debug_traceTransaction; only the hardhat network traces transactions
+
+// a step of debug_traceTransaction, stack items are 32 bytes hex strings, the top of the stack is last
+export interface StructLog {
+  depth: number
+  gas: number
+  gasCost: number
+  op: string
+  pc: number
+  stack?: string[]
+}
+
+export interface GasCounter {
+  count: number
+  gas: number
+}
+
+// an access is cold if the slot of the contract was not accessed before in the transaction (EIP-2929)
+export interface StorageProfile {
+  cold: number
+  warm: number
+  gas: number
+}
+
+// external calls, by the selector of the called function
+export type CallKind = 'orderBook' | 'tokenTransfer' | 'balanceOf' | 'transferCallback' | 'flashCallback' | 'other'
+
+export const CALL_KINDS: CallKind[] = [
+  'orderBook',
+  'tokenTransfer',
+  'balanceOf',
+  'transferCallback',
+  'flashCallback',
+  'other',
+]
+
+// the gas of a call includes the storage accesses & logs of the callee, the categories overlap
+export interface GasProfile {
+  sload: StorageProfile
+  sstore: StorageProfile
+  calls: Record<CallKind, GasCounter>
+  logs: GasCounter
+  // gas between two consecutive Swap events, one iteration of the matching loop
+  fills: {count: number; iterationGas: number[]}
+}
+
+// something able to send JSON-RPC requests, e.g. network.provider of hardhat
+export interface TraceProvider {
+  send(method: string, params?: any[]): Promise<any>
+}
+
+function selector(signature: string): string {
+  return utils.id(signature).slice(2, 10)
+}
+
+const orderBookInterface = IOrderBook__factory.createInterface()
+
+const callKinds: {[selector: string]: CallKind} = {
+  ...Object.fromEntries(
+    Object.keys(orderBookInterface.functions).map((signature) => [
+      orderBookInterface.getSighash(signature).slice(2),
+      'orderBook',
+    ])
+  ),
+  [selector('transfer(address,uint256)')]: 'tokenTransfer',
+  [selector('transferFrom(address,address,uint256)')]: 'tokenTransfer',
+  [selector('balanceOf(address)')]: 'balanceOf',
+  [selector('lighterV2TransferCallback(uint256,address,bytes)')]: 'transferCallback',
+  [selector('flashLoanCallback(bytes)')]: 'flashCallback',
+}
+
+const swapTopic = utils.id('Swap(uint32,uint32,address,address,uint256,uint256)').slice(2)
+
+function stackItem(log: StructLog, fromTop: number): string {
+  const stack = log.stack ?? []
+  if (stack.length <= fromTop) {
+    throw `missing stack of ${log.op} at pc ${log.pc}`
+  }
+  return stack[stack.length - 1 - fromTop].replace(/^0x/, '').padStart(64, '0').toLowerCase()
+}
+
+function emptyProfile(): GasProfile {
+  const calls = {} as Record<CallKind, GasCounter>
+  for (const kind of CALL_KINDS) {
+    calls[kind] = {count: 0, gas: 0}
+  }
+  return {
+    sload: {cold: 0, warm: 0, gas: 0},
+    sstore: {cold: 0, warm: 0, gas: 0},
+    calls,
+    logs: {count: 0, gas: 0},
+    fills: {count: 0, iterationGas: []},
+  }
+}
+
+interface PendingCall {
+  depth: number
+  gas: number
+  kind: CallKind
+  // the callee dispatches on the selector shifted out of the calldata, the next step has it on the stack
+  selectorShifted: boolean
+  resolved: boolean
+}
+
+// profileTrace profiles the steps of a transaction sent to `to`
+// slots accessed by frames which revert stay warm, unlike on chain, which only matters for failing calls
+export function profileTrace(structLogs: StructLog[], to: string): GasProfile {
+  const profile = emptyProfile()
+  // storage context of every depth, delegate calls keep the context of their caller
+  const contexts: string[] = [to.toLowerCase()]
+  const accessed = new Set<string>()
+  const pending: PendingCall[] = []
+  let lastSwapGas: number | null = null
+
+  for (let index = 0; index < structLogs.length; index += 1) {
+    const log = structLogs[index]
+    const next: StructLog | undefined = structLogs[index + 1]
+    const context = contexts[log.depth - 1]
+    // gasCost of hardhat misses the cold surcharge of SSTORE, the remaining gas of the next step does not
+    const cost = next != undefined && next.depth == log.depth ? log.gas - next.gas : log.gasCost
+
+    // calls return to the step after them, at their own depth
+    while (pending.length != 0 && log.depth <= pending[pending.length - 1].depth) {
+      const call = pending.pop()!
+      profile.calls[call.kind].count += 1
+      profile.calls[call.kind].gas += call.gas - log.gas
+    }
+
+    const caller = pending[pending.length - 1]
+    if (caller != undefined && !caller.resolved && log.depth == caller.depth + 1) {
+      if (caller.selectorShifted) {
+        caller.kind = callKinds[stackItem(log, 0).slice(-8)] ?? 'other'
+        caller.resolved = true
+      } else if (log.op == 'SHR' && parseInt(stackItem(log, 0), 16) == 0xe0) {
+        caller.selectorShifted = true
+      }
+    }
+
+    switch (log.op) {
+      case 'SLOAD':
+      case 'SSTORE': {
+        const slot = `${context}:${stackItem(log, 0)}`
+        const storage = log.op == 'SLOAD' ? profile.sload : profile.sstore
+        if (accessed.has(slot)) {
+          storage.warm += 1
+        } else {
+          storage.cold += 1
+          accessed.add(slot)
+        }
+        storage.gas += cost
+        break
+      }
+      case 'CALL':
+      case 'CALLCODE':
+      case 'STATICCALL':
+      case 'DELEGATECALL':
+        contexts[log.depth] = log.op == 'CALL' || log.op == 'STATICCALL' ? `0x${stackItem(log, 1).slice(-40)}` : context
+        pending.push({depth: log.depth, gas: log.gas, kind: 'other', selectorShifted: false, resolved: false})
+        break
+      case 'CREATE':
+      case 'CREATE2':
+        // the address is only known once created, the storage of a new contract starts empty anyway
+        contexts[log.depth] = `create:${index}`
+        break
+      case 'LOG0':
+      case 'LOG1':
+      case 'LOG2':
+      case 'LOG3':
+      case 'LOG4':
+        profile.logs.count += 1
+        profile.logs.gas += cost
+        if (log.op == 'LOG3' && stackItem(log, 2) == swapTopic) {
+          profile.fills.count += 1
+          if (lastSwapGas != null) {
+            profile.fills.iterationGas.push(lastSwapGas - log.gas)
+          }
+          lastSwapGas = log.gas
+        }
+        break
+    }
+  }
+
+  // calls still running when the trace ends, e.g. the transaction ran out of gas
+  for (const call of pending) {
+    profile.calls[call.kind].count += 1
+    profile.calls[call.kind].gas += call.gas
+  }
+  return profile
+}
+
+export async function traceTransaction(provider: TraceProvider, hash: string): Promise<StructLog[]> {
+  const trace = await provider.send('debug_traceTransaction', [hash, {disableMemory: true, disableStorage: true}])
+  if (!Array.isArray(trace?.structLogs)) {
+    throw `debug_traceTransaction returned no steps for ${hash}`
+  }
+  return trace.structLogs
+}
+
+export async function profileTransaction(
+  provider: TraceProvider,
+  tx: {hash: string; to?: string}
+): Promise<GasProfile> {
+  if (tx.to == undefined) {
+    throw `transaction ${tx.hash} deploys a contract, only calls are profiled`
+  }
+  return profileTrace(await traceTransaction(provider, tx.hash), tx.to)
+}
+
+function formatStorage({cold, warm, gas}: StorageProfile): string {
+  return `${cold} / ${warm} (${gas})`
+}
+
+function formatCalls(profile: GasProfile, kinds: CallKind[]): string {
+  const count = kinds.reduce((sum, kind) => sum + profile.calls[kind].count, 0)
+  const gas = kinds.reduce((sum, kind) => sum + profile.calls[kind].gas, 0)
+  return `${count} (${gas})`
+}
+
+// formats the profiles of the scenarios as a markdown table, the gas of every category in parentheses
+export function formatGasProfiles(
+  scenarios: {scenarioName: string; l2GasUsed: number | string; profile?: GasProfile}[]
+) {
+  const lines = [
+    '|FUNCTION|L2 GAS|SLOAD COLD / WARM|SSTORE COLD / WARM|ORDER BOOK CALLS|TOKEN TRANSFERS|BALANCE READS|CALLBACKS|OTHER CALLS|LOGS|FILLS|GAS PER FILL|',
+    '|-----|-----|-----|-----|-----|-----|-----|-----|-----|-----|-----|-----|',
+  ]
+  for (const {scenarioName, l2GasUsed, profile} of scenarios) {
+    if (profile == undefined) {
+      continue
+    }
+    const {iterationGas} = profile.fills
+    const cells = [
+      scenarioName,
+      l2GasUsed,
+      formatStorage(profile.sload),
+      formatStorage(profile.sstore),
+      formatCalls(profile, ['orderBook']),
+      formatCalls(profile, ['tokenTransfer']),
+      formatCalls(profile, ['balanceOf']),
+      formatCalls(profile, ['transferCallback', 'flashCallback']),
+      formatCalls(profile, ['other']),
+      `${profile.logs.count} (${profile.logs.gas})`,
+      profile.fills.count,
+      iterationGas.length == 0 ? '-' : Math.round(iterationGas.reduce((a, b) => a + b, 0) / iterationGas.length),
+    ]
+    lines.push(`| ${cells.join(' | ')} |`)
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,96 @@
+import {expect} from 'chai'
+import {compareGasReports, formatGasComparison, GasReport, parseGasThresholds} from './gas-regression'
+
+function report(scenarioName: string, l2GasUsed: number, l1GasUsed: number, totalCostKGWEI: number): GasReport {
+  return {
+    scenarioName,
+    l1GasUsed: `${l1GasUsed}`,
+    l2GasUsed: `${l2GasUsed}`,
+    totalCostETH: `${totalCostKGWEI / 1e6}`,
+    totalCostKGWEI: `${totalCostKGWEI}`,
+    l1CostKGWEI: `${l1GasUsed / 100}`,
+    l2CostKGWEI: `${l2GasUsed / 1e4}`,
+  }
+}
+
+describe('gas regression', () => {
+  const main = [report('CANCEL', 76085, 2992, 37.5), report('SWAP', 150000, 3000, 45), report('OLD', 1000, 100, 1)]
+
+  it('compares l2, l1 & total cost against the budgets', () => {
+    const current = [report('CANCEL', 76185, 2992, 38), report('SWAP', 149000, 3016, 45.06)]
+    const thresholds = parseGasThresholds({
+      default: {l2GasUsed: {absolute: 100}, l1GasUsed: {percentage: 1}},
+      scenarios: {SWAP: {l1GasUsed: {absolute: 10}}},
+      failOnRemovedScenarios: false,
+    })
+
+    const summary = compareGasReports(main, current, thresholds)
+    expect(summary.passed).to.equal(false)
+    expect(summary.regressions).to.eql(['SWAP'])
+    expect(summary.removedScenarios).to.eql(['OLD'])
+    expect(summary.scenarios.map((scenario) => scenario.scenarioName)).to.eql(['CANCEL', 'SWAP', 'OLD'])
+
+    const [cancel, swap] = summary.scenarios
+    // exactly at the budget is not a regression
+    expect(cancel.metrics.map((metric) => [metric.metric, metric.increase, metric.exceeded])).to.eql([
+      ['l2GasUsed', 100, false],
+      ['l1GasUsed', 0, false],
+      ['totalCost', 0.5, false],
+    ])
+    // 16 is below the default 1% of l1GasUsed, but above the 10 of the scenario
+    expect(swap.metrics.map((metric) => metric.exceeded)).to.eql([false, true, false])
+    expect(swap.metrics[1].increasePercentage).to.be.closeTo(0.533, 0.001)
+  })
+
+  it('fails on any increase & removed scenarios by default', () => {
+    const current = [
+      report('CANCEL', 76085, 2992, 37.5),
+      report('SWAP', 150000, 3000, 45.000001),
+      report('NEW', 1, 1, 1),
+    ]
+
+    const summary = compareGasReports(main, current)
+    expect(summary).to.deep.include({
+      passed: false,
+      regressions: ['SWAP'],
+      newScenarios: ['NEW'],
+      removedScenarios: ['OLD'],
+    })
+
+    const passing = compareGasReports(
+      main.slice(0, 2),
+      current,
+      parseGasThresholds({default: {totalCost: {percentage: 0.1}}})
+    )
+    expect(passing.passed).to.equal(true)
+    expect(passing.newScenarios).to.eql(['NEW'])
+  })
+
+  it('formats the comparison as markdown', () => {
+    const current = [report('CANCEL', 76185, 2992, 37.5), report('NEW', 1, 1, 1)]
+    const lines = formatGasComparison(compareGasReports(main.slice(0, 1), current)).split('\n')
+    expect(lines).to.eql([
+      '|FUNCTION|L2 GAS|L1 GAS|TOTAL COST (kGWEI)|STATUS|',
+      '|-----|-----|-----|-----|-----|',
+      '| CANCEL | 76085 → 76185 (+100, +0.13%) | 2992 → 2992 | 37.5 → 37.5 | REGRESSION |',
+      '| NEW | - | - | - | NEW |',
+    ])
+  })
+
+  it('rejects invalid thresholds', () => {
+    expect(() => parseGasThresholds({default: {gasUsed: {absolute: 1}}})).to.throw(
+      'unknown metric default.gasUsed, expected one of l2GasUsed, l1GasUsed, totalCost'
+    )
+    expect(() => parseGasThresholds({scenarios: {SWAP: {l2GasUsed: {relative: 1}}}})).to.throw(
+      'unknown limit scenarios.SWAP.l2GasUsed.relative, expected absolute or percentage'
+    )
+    expect(() => parseGasThresholds({default: {l1GasUsed: {percentage: -1}}})).to.throw(
+      'default.l1GasUsed.percentage must be a non negative number'
+    )
+    for (const threshold of [null, 5, '5%', [1]]) {
+      expect(() => parseGasThresholds({scenarios: {SWAP: {totalCost: threshold}}})).to.throw(
+        'scenarios.SWAP.totalCost must be an object with absolute and/or percentage'
+      )
+    }
+  })
+})
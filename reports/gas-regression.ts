@@ -0,0 +1,221 @@
+import {GasProfile} from './gas-profiler'
+
+// compares two gas cost reports written by reportGasCost against gas budgets, so regressions can fail the build
+
+// an entry of gas-cost-report.json; numbers are written as strings
+export interface GasReport {
+  scenarioName: string
+  l1GasUsed: number | string
+  l2GasUsed: number | string
+  totalCostETH: number | string
+  totalCostKGWEI: number | string
+  l1CostKGWEI: number | string
+  l2CostKGWEI: number | string
+  // opcode profile of the transaction, see gas-profiler
+  profile?: GasProfile
+}
+
+// totalCost is compared in kGWEI
+export type GasMetric = 'l2GasUsed' | 'l1GasUsed' | 'totalCost'
+
+export const GAS_METRICS: GasMetric[] = ['l2GasUsed', 'l1GasUsed', 'totalCost']
+
+// the largest allowed increase of a metric; exceeding any of the limits which are set is a regression
+export interface Threshold {
+  absolute?: number
+  percentage?: number
+}
+
+// metrics without a threshold are reported but never fail
+export type GasBudget = Partial<Record<GasMetric, Threshold>>
+
+export interface GasThresholds {
+  default: GasBudget
+  // thresholds of a scenario replace the default ones of the same metric
+  scenarios: {[scenarioName: string]: GasBudget}
+  // scenarios missing from the current report hide their regressions, so they fail unless allowed
+  failOnRemovedScenarios: boolean
+}
+
+export const defaultGasThresholds: GasThresholds = {
+  default: {
+    l2GasUsed: {absolute: 0},
+    l1GasUsed: {absolute: 0},
+    totalCost: {absolute: 0},
+  },
+  scenarios: {},
+  failOnRemovedScenarios: true,
+}
+
+export interface MetricComparison {
+  metric: GasMetric
+  initial: number
+  current: number
+  increase: number
+  increasePercentage: number | null // null if the initial value is 0
+  threshold: Threshold | null
+  exceeded: boolean
+}
+
+export interface ScenarioComparison {
+  scenarioName: string
+  status: 'compared' | 'new' | 'removed'
+  metrics: MetricComparison[] // empty for new & removed scenarios
+  exceeded: boolean
+}
+
+export interface GasComparisonSummary {
+  passed: boolean
+  regressions: string[] // scenarios exceeding their budget
+  newScenarios: string[]
+  removedScenarios: string[]
+  scenarios: ScenarioComparison[]
+}
+
+export function metricValue(report: GasReport, metric: GasMetric): number {
+  const value = Number(metric == 'totalCost' ? report.totalCostKGWEI : report[metric])
+  if (isNaN(value)) {
+    throw `invalid ${metric} of scenario ${report.scenarioName}`
+  }
+  return value
+}
+
+export function parseGasThresholds(json: any): GasThresholds {
+  const parseBudget = (budget: any, path: string): GasBudget => {
+    const parsed: GasBudget = {}
+    for (const [metric, threshold] of Object.entries(budget ?? {})) {
+      if (!GAS_METRICS.includes(metric as GasMetric)) {
+        throw `unknown metric ${path}.${metric}, expected one of ${GAS_METRICS.join(', ')}`
+      }
+      if (typeof threshold != 'object' || threshold == null || Array.isArray(threshold)) {
+        throw `${path}.${metric} must be an object with absolute and/or percentage`
+      }
+      const {absolute, percentage, ...rest} = threshold as Threshold
+      if (Object.keys(rest).length != 0) {
+        throw `unknown limit ${path}.${metric}.${Object.keys(rest)[0]}, expected absolute or percentage`
+      }
+      for (const [name, limit] of [
+        ['absolute', absolute],
+        ['percentage', percentage],
+      ] as const) {
+        if (limit != undefined && (typeof limit != 'number' || limit < 0)) {
+          throw `${path}.${metric}.${name} must be a non negative number`
+        }
+      }
+      parsed[metric as GasMetric] = {absolute, percentage}
+    }
+    return parsed
+  }
+
+  const scenarios: GasThresholds['scenarios'] = {}
+  for (const [scenarioName, budget] of Object.entries(json.scenarios ?? {})) {
+    scenarios[scenarioName] = parseBudget(budget, `scenarios.${scenarioName}`)
+  }
+  return {
+    default: json.default != undefined ? parseBudget(json.default, 'default') : defaultGasThresholds.default,
+    scenarios,
+    failOnRemovedScenarios: json.failOnRemovedScenarios ?? defaultGasThresholds.failOnRemovedScenarios,
+  }
+}
+
+export function thresholdFor(thresholds: GasThresholds, scenarioName: string, metric: GasMetric): Threshold | null {
+  return thresholds.scenarios[scenarioName]?.[metric] ?? thresholds.default[metric] ?? null
+}
+
+export function compareMetric(
+  metric: GasMetric,
+  initial: number,
+  current: number,
+  threshold: Threshold | null
+): MetricComparison {
+  const increase = current - initial
+  const increasePercentage = initial != 0 ? (100 * increase) / initial : null
+  let exceeded = false
+  if (threshold != null && increase > 0) {
+    // costs are decimals, so tiny floating point differences are ignored
+    const epsilon = metric == 'totalCost' ? 1e-9 : 0
+    if (threshold.absolute != undefined && increase > threshold.absolute + epsilon) {
+      exceeded = true
+    }
+    if (
+      threshold.percentage != undefined &&
+      (increasePercentage == null || increasePercentage > threshold.percentage)
+    ) {
+      exceeded = true
+    }
+  }
+  return {metric, initial, current, increase, increasePercentage, threshold, exceeded}
+}
+
+export function compareGasReports(
+  initial: GasReport[],
+  current: GasReport[],
+  thresholds: GasThresholds = defaultGasThresholds
+): GasComparisonSummary {
+  const initialByName = new Map(initial.map((report) => [report.scenarioName, report]))
+  const currentByName = new Map(current.map((report) => [report.scenarioName, report]))
+  const names = new Set([...initialByName.keys(), ...currentByName.keys()])
+
+  const scenarios: ScenarioComparison[] = []
+  for (const scenarioName of names) {
+    const a = initialByName.get(scenarioName)
+    const b = currentByName.get(scenarioName)
+    if (a == undefined) {
+      scenarios.push({scenarioName, status: 'new', metrics: [], exceeded: false})
+    } else if (b == undefined) {
+      scenarios.push({scenarioName, status: 'removed', metrics: [], exceeded: thresholds.failOnRemovedScenarios})
+    } else {
+      const metrics = GAS_METRICS.map((metric) =>
+        compareMetric(
+          metric,
+          metricValue(a, metric),
+          metricValue(b, metric),
+          thresholdFor(thresholds, scenarioName, metric)
+        )
+      )
+      scenarios.push({scenarioName, status: 'compared', metrics, exceeded: metrics.some((metric) => metric.exceeded)})
+    }
+  }
+
+  // largest L2 increase first, new & removed scenarios last
+  scenarios.sort((a, b) => {
+    if (a.metrics.length == 0 || b.metrics.length == 0) {
+      return b.metrics.length - a.metrics.length
+    }
+    return b.metrics[0].increase - a.metrics[0].increase
+  })
+
+  const withStatus = (status: ScenarioComparison['status']) =>
+    scenarios.filter((scenario) => scenario.status == status).map((scenario) => scenario.scenarioName)
+  const regressions = scenarios
+    .filter((scenario) => scenario.status == 'compared' && scenario.exceeded)
+    .map((scenario) => scenario.scenarioName)
+
+  return {
+    passed: scenarios.every((scenario) => !scenario.exceeded),
+    regressions,
+    newScenarios: withStatus('new'),
+    removedScenarios: withStatus('removed'),
+    scenarios,
+  }
+}
+
+function formatMetric(comparison: MetricComparison): string {
+  const sign = comparison.increase > 0 ? '+' : ''
+  const format = (value: number) => (comparison.metric == 'totalCost' ? Number(value.toFixed(6)) : value)
+  const percentage =
+    comparison.increasePercentage != null ? `, ${sign}${comparison.increasePercentage.toFixed(2)}%` : ''
+  const change = comparison.increase != 0 ? ` (${sign}${format(comparison.increase)}${percentage})` : ''
+  return `${format(comparison.initial)} → ${format(comparison.current)}${change}`
+}
+
+export function formatGasComparison(summary: GasComparisonSummary): string {
+  const lines = [`|FUNCTION|L2 GAS|L1 GAS|TOTAL COST (kGWEI)|STATUS|`, `|-----|-----|-----|-----|-----|`]
+  for (const scenario of summary.scenarios) {
+    const cells = scenario.metrics.length != 0 ? scenario.metrics.map(formatMetric) : GAS_METRICS.map(() => '-')
+    const status =
+      scenario.status == 'compared' ? (scenario.exceeded ? 'REGRESSION' : 'OK') : scenario.status.toUpperCase()
+    lines.push(`| ${scenario.scenarioName} | ${cells.join(' | ')} | ${status} |`)
+  }
+  return lines.join('\n')
+}
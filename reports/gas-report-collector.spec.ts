@@ -0,0 +1,84 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {expect} from 'chai'
+import {GasReportCollector, GasReportMetadata, gasReportScenarios, readGitCommit} from './gas-report-collector'
+import {GasReport} from './gas-regression'
+
+describe('gas report collector', () => {
+  const metadata: GasReportMetadata = {
+    startedAt: '2024-01-01T00:00:00.000Z',
+    finishedAt: null,
+    gitCommit: 'f00d',
+    gitDirty: false,
+    compilerVersion: '0.8.18',
+    optimizer: {enabled: true, runs: 4150},
+    gasPrices: {l1GasPrice: '10.0', l2GasPrice: '0.1', l1BlobBaseFee: '1.0'},
+    feeModels: ['arbitrum'],
+    l1Estimator: 'heuristic',
+  }
+
+  function report(scenarioName: string, l2GasUsed: number): GasReport {
+    return {
+      scenarioName,
+      l1GasUsed: '2992',
+      l2GasUsed: `${l2GasUsed}`,
+      totalCostETH: '0',
+      totalCostKGWEI: '0',
+      l1CostKGWEI: '0',
+      l2CostKGWEI: '0',
+    }
+  }
+
+  let dir: string
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gas-report-'))
+  })
+  afterEach(() => {
+    fs.rmSync(dir, {recursive: true})
+  })
+
+  it('rejects scenarios reported twice in a run', () => {
+    const collector = new GasReportCollector({...metadata})
+    collector.add(report('CANCEL_1_LIMIT_ORDER', 73493))
+    expect(() => collector.add(report('CANCEL_1_LIMIT_ORDER', 76085))).to.throw(
+      'gas cost of scenario CANCEL_1_LIMIT_ORDER is already reported in this run'
+    )
+    expect(collector.run().scenarios).to.eql([report('CANCEL_1_LIMIT_ORDER', 73493)])
+  })
+
+  it('writes the latest run & appends every run to the history', () => {
+    const reportPath = path.join(dir, 'gas-cost-report.json')
+    const historyPath = path.join(dir, 'gas-cost-report-history.jsonl')
+
+    const first = new GasReportCollector({...metadata})
+    expect(first.flush(reportPath, historyPath)).to.equal(null)
+    expect(fs.existsSync(reportPath)).to.equal(false)
+
+    first.add(report('A', 1))
+    first.add(report('B', 2))
+    first.flush(reportPath, historyPath, new Date('2024-01-01T00:01:00.000Z'))
+
+    const second = new GasReportCollector({...metadata, gitCommit: 'beef'})
+    second.add(report('A', 3))
+    second.flush(reportPath, historyPath)
+
+    const latest = JSON.parse(fs.readFileSync(reportPath, 'utf8'))
+    expect(latest.metadata.gitCommit).to.equal('beef')
+    expect(gasReportScenarios(latest)).to.eql([report('A', 3)])
+
+    const history = fs
+      .readFileSync(historyPath, 'utf8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line))
+    expect(history.map((run) => run.metadata.gitCommit)).to.eql(['f00d', 'beef'])
+    expect(history[0].metadata.finishedAt).to.equal('2024-01-01T00:01:00.000Z')
+    expect(history[0].scenarios.map((scenario: GasReport) => scenario.scenarioName)).to.eql(['A', 'B'])
+  })
+
+  it('reads reports written before runs had metadata', () => {
+    expect(gasReportScenarios([report('A', 1)])).to.eql([report('A', 1)])
+    expect(readGitCommit().gitCommit).to.match(/^[0-9a-f]{40}$/)
+  })
+})
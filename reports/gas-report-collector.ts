@@ -0,0 +1,74 @@
+import fs from 'fs'
+import {execSync} from 'child_process'
+import {GasReport} from './gas-regression'
+
+export interface GasReportMetadata {
+  startedAt: string
+  finishedAt: string | null // set when the run is flushed
+  gitCommit: string | null // null outside of a git checkout
+  gitDirty: boolean | null // uncommitted changes, the commit alone does not describe the measured code
+  compilerVersion: string
+  optimizer: {enabled: boolean; runs: number}
+  gasPrices: {l1GasPrice: string; l2GasPrice: string; l1BlobBaseFee: string} // gwei
+  feeModels: string[] // the first one is the reported cost
+  l1Estimator: string
+}
+
+// the reports of a single run of the tests; gas-cost-report.json holds the latest run & every run is appended to the
+// history, one run per line
+export interface GasReportRun {
+  metadata: GasReportMetadata
+  scenarios: GasReport[]
+}
+
+export function readGitCommit(): {gitCommit: string | null; gitDirty: boolean | null} {
+  try {
+    const gitCommit = execSync('git rev-parse HEAD', {stdio: ['ignore', 'pipe', 'ignore']})
+      .toString()
+      .trim()
+    const status = execSync('git status --porcelain --untracked-files=no', {stdio: ['ignore', 'pipe', 'ignore']})
+    return {gitCommit, gitDirty: status.toString().trim() != ''}
+  } catch (e) {
+    return {gitCommit: null, gitDirty: null}
+  }
+}
+
+// gas-cost-report.json is either a run, or the list of scenarios written before runs had metadata
+export function gasReportScenarios(json: GasReportRun | GasReport[]): GasReport[] {
+  return Array.isArray(json) ? json : json.scenarios
+}
+
+// GasReportCollector keeps the reports of a run in memory, as reading & rewriting the report for every scenario makes
+// the last writer win silently; scenario names are unique within a run
+export class GasReportCollector {
+  metadata: GasReportMetadata
+  scenarios = new Map<string, GasReport>()
+
+  constructor(metadata: GasReportMetadata) {
+    this.metadata = metadata
+  }
+
+  add(report: GasReport) {
+    if (this.scenarios.has(report.scenarioName)) {
+      throw `gas cost of scenario ${report.scenarioName} is already reported in this run`
+    }
+    this.scenarios.set(report.scenarioName, report)
+  }
+
+  run(): GasReportRun {
+    return {metadata: this.metadata, scenarios: [...this.scenarios.values()]}
+  }
+
+  // writes the run as the latest report & appends it to the history; runs without reports are not written
+  flush(reportPath: string, historyPath: string, finishedAt: Date = new Date()): GasReportRun | null {
+    if (this.scenarios.size == 0) {
+      return null
+    }
+    this.metadata.finishedAt = finishedAt.toISOString()
+    const run = this.run()
+    fs.writeFileSync(reportPath, JSON.stringify(run, null, 2))
+    fs.appendFileSync(historyPath, JSON.stringify(run) + '\n')
+    this.scenarios.clear()
+    return run
+  }
+}
@@ -1,62 +1,102 @@
-import fs from 'fs'
+import {config, network} from 'hardhat'
+import {SolcConfig} from 'hardhat/types'
 import {ContractTransaction, utils} from 'ethers'
-import {estimateL1Gas, getL2GasPrice, getL1GasPrice} from './L1GasEstimator'
+import {
+  getBrotliDataGasCost,
+  getHeuristicDataGasCost,
+  getL2GasPrice,
+  getL1GasPrice,
+  l1GasEstimator,
+  serializeSignedTransaction,
+} from './L1GasEstimator'
+import {FeeEstimate, FeePrices, getFeeModels} from './fee-models'
+import {gasPricesConfig} from './gas-price-config'
+import {GasReportCollector, readGitCommit} from './gas-report-collector'
+import {profileTransaction} from './gas-profiler'
 
 export const jsonFilePath = './reports/gas-cost-report.json'
+export const historyFilePath = './reports/gas-cost-report-history.jsonl'
 
-interface JSONData {
-  [key: string]: any
-}
+const feeModels = getFeeModels(gasPricesConfig)
 
-export const reportGasCost = async (scenarioName: string, tx: ContractTransaction) => {
-  const l2GasUsed = (await tx.wait()).gasUsed
-  const l2GasPrice = await getL2GasPrice()
-  const l2Cost = l2GasUsed.mul(l2GasPrice)
+// the opcodes of every reported transaction are profiled, unless GAS_PROFILE=false; only hardhat traces transactions
+export const gasProfileEnabled = process.env.GAS_PROFILE != 'false' && network.name == 'hardhat'
 
-  const {totalCost: estimatedTotalCost, l1GasUsed, l1GasPrice} = await estimateL1Gas(tx)
-  const _l1GasPrice = await getL1GasPrice()
-  const l1Cost = l1GasUsed.mul(l1GasPrice)
+// created by the first report of the run, with the gas prices it used
+let collector: GasReportCollector | null = null
 
-  const totalCost = l2Cost.add(l1Cost)
+function createCollector(prices: FeePrices): GasReportCollector {
+  const compiler: SolcConfig = config.solidity.compilers[0]
+  return new GasReportCollector({
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    ...readGitCommit(),
+    compilerVersion: compiler.version,
+    optimizer: {enabled: compiler.settings?.optimizer?.enabled ?? false, runs: compiler.settings?.optimizer?.runs ?? 0},
+    gasPrices: {
+      l1GasPrice: utils.formatUnits(prices.l1GasPrice, 9),
+      l2GasPrice: utils.formatUnits(prices.l2GasPrice, 9),
+      l1BlobBaseFee: utils.formatUnits(prices.l1BlobBaseFee, 9),
+    },
+    feeModels: feeModels.map((feeModel) => feeModel.name),
+    l1Estimator: l1GasEstimator,
+  })
+}
 
-  // console.log(`l1GasUsed:${l1GasUsed}\tl1GasPrice:${utils.formatUnits(l1GasPrice, 9)}`)
-  // console.log(`l2GasUsed:${l2GasUsed}\tl2GasPrice:${utils.formatUnits(l2GasPrice, 9)}`)
-  // console.log(`l1Cost:${utils.formatUnits(l1Cost, 12)}\tl2Cost:${utils.formatUnits(l2Cost, 12)}`)
-  // console.log(`totalCost:${utils.formatUnits(totalCost, 12)}\ttotalCostETH:${utils.formatUnits(totalCost, 18)}`)
-  // console.log(`totalEstimate:${utils.formatUnits(estimatedTotalCost, 12)}\ttotalEstimateETH:${utils.formatUnits(estimatedTotalCost, 18)}`)
+// writes the reports of the run once all the tests ran; mocha runs root hooks registered outside of a describe after
+// every test file, the hook is not registered when the reports are used outside of mocha
+if (typeof after == 'function') {
+  after(() => {
+    collector?.flush(jsonFilePath, historyFilePath)
+  })
+}
 
-  const gasCostData = {
-    scenarioName: scenarioName,
+function formatFeeEstimate({l1GasUsed, l1Cost, l2Cost, totalCost}: FeeEstimate) {
+  return {
     l1GasUsed: l1GasUsed.toString(),
-    l2GasUsed: l2GasUsed.toString(),
     totalCostETH: utils.formatEther(totalCost),
     totalCostKGWEI: utils.formatUnits(totalCost, 12),
     l1CostKGWEI: utils.formatUnits(l1Cost, 12),
     l2CostKGWEI: utils.formatUnits(l2Cost, 12),
   }
-  insertDataIntoJSON(gasCostData)
 }
 
-export const insertDataIntoJSON = (newData: JSONData): void => {
-  let jsonData: JSONData[] = []
+export const reportGasCost = async (scenarioName: string, tx: ContractTransaction) => {
+  const l2GasUsed = (await tx.wait()).gasUsed
+  const prices = {
+    l1GasPrice: await getL1GasPrice(),
+    l2GasPrice: await getL2GasPrice(),
+    l1BlobBaseFee: gasPricesConfig.l1BlobBaseFee,
+  }
 
-  // Check if the file exists
-  if (fs.existsSync(jsonFilePath)) {
-    // Read the existing JSON data
-    const existingData = fs.readFileSync(jsonFilePath, 'utf8')
-    jsonData = JSON.parse(existingData)
+  // the first fee model is the reported cost, the cost of every model is recorded as well
+  const costs: {[feeModel: string]: ReturnType<typeof formatFeeEstimate>} = {}
+  for (const feeModel of feeModels) {
+    costs[feeModel.name] = formatFeeEstimate(await feeModel.estimate(tx, l2GasUsed, prices))
   }
+  const {l1GasUsed, ...cost} = costs[feeModels[0].name]
 
-  // Find the index of the object to be overwritten (if it exists)
-  const index = jsonData.findIndex((data) => data.scenarioName === newData.scenarioName)
+  // both estimates are recorded, whichever estimator l1GasUsed comes from
+  const serializedTx = serializeSignedTransaction(tx)
+  const brotli = getBrotliDataGasCost(serializedTx)
+  const paddedBrotli = getBrotliDataGasCost(serializedTx, true)
 
-  // If the object exists, replace it; otherwise, push the new object
-  if (index !== -1) {
-    jsonData[index] = newData
-  } else {
-    jsonData.push(newData)
+  const gasCostData = {
+    scenarioName: scenarioName,
+    l1GasUsed,
+    l2GasUsed: l2GasUsed.toString(),
+    ...cost,
+    l1Estimator: l1GasEstimator,
+    l1GasUsedHeuristic: getHeuristicDataGasCost(tx.data).toString(),
+    // padded, as L1_GAS_ESTIMATOR=brotli reports it
+    l1GasUsedBrotli: paddedBrotli.gas.toString(),
+    l1GasUsedBrotliUnpadded: brotli.gas.toString(),
+    txBytes: brotli.bytes.toString(),
+    txBrotliBytes: brotli.compressedBytes.toString(),
+    feeModel: feeModels[0].name,
+    costs,
+    ...(gasProfileEnabled ? {profile: await profileTransaction(network.provider, tx)} : {}),
   }
-
-  // Write the JSON data to the file
-  fs.writeFileSync(jsonFilePath, JSON.stringify(jsonData, null, 2))
+  collector = collector ?? createCollector(prices)
+  collector.add(gasCostData)
 }
@@ -1 +1,2 @@
 export {reportGasCost} from './generate-gas-cost-report'
+export {GasCurve, writeGasCurve} from './gas-curves'
@@ -0,0 +1,44 @@
+import fs from 'fs'
+import {formatGasProfiles} from './gas-profiler'
+import {gasReportScenarios} from './gas-report-collector'
+
+const usage = `usage ts-node ./reports/profile-gas-cost-report.ts <report> [scenario ...]
+  e.g. ts-node ./reports/profile-gas-cost-report.ts ./reports/gas-cost-report.json CREATE_1_ASK_LIMIT_ORDER CREATE_1_ASK_LIMIT_ORDER_PERFORMANCE
+
+  prints the opcode profiles of the scenarios, or of every scenario if none is given
+  cells are counts, with their gas in parentheses; calls include the storage accesses & logs of the callee
+`
+
+function main(): boolean {
+  const [reportPath, ...scenarioNames] = process.argv.slice(2)
+  if (reportPath == undefined || reportPath.startsWith('--')) {
+    console.error(usage)
+    return false
+  }
+
+  const scenarios = gasReportScenarios(JSON.parse(fs.readFileSync(reportPath, 'utf8')))
+  const selected =
+    scenarioNames.length == 0
+      ? scenarios
+      : scenarioNames.map((name) => {
+          const scenario = scenarios.find((scenario) => scenario.scenarioName == name)
+          if (scenario == undefined) {
+            throw `scenario ${name} is not in ${reportPath}`
+          }
+          return scenario
+        })
+
+  const missing = selected.filter((scenario) => scenario.profile == undefined).map((scenario) => scenario.scenarioName)
+  if (missing.length != 0) {
+    console.error(`scenarios without profile, reported with GAS_PROFILE=false: ${missing.join(', ')}`)
+  }
+  console.log(formatGasProfiles(selected))
+  return missing.length == 0
+}
+
+try {
+  process.exitCode = main() ? 0 : 1
+} catch (error) {
+  console.error('Error reading the gas cost report:', error)
+  process.exitCode = 1
+}
@@ -0,0 +1,35 @@
+import fs from 'fs'
+import {gasBaselineFromReports, gasBaselinePath} from './gas-budget'
+import {GasReportRun} from './gas-report-collector'
+
+const usage = `usage ts-node ./reports/update-gas-baseline.ts <report> [baseline]
+  e.g. npx hardhat test && ts-node ./reports/update-gas-baseline.ts ./reports/gas-cost-report.json
+
+  replaces the baseline of the gas budget assertions (default ${gasBaselinePath}) with the gas of the report
+`
+
+function main(): boolean {
+  const [reportPath, baselinePath = gasBaselinePath] = process.argv.slice(2)
+  if (reportPath == undefined || reportPath.startsWith('--')) {
+    console.error(usage)
+    return false
+  }
+
+  // the estimator of l1GasUsed is only recorded by runs, not by the reports of older versions
+  const run: GasReportRun = JSON.parse(fs.readFileSync(reportPath, 'utf8'))
+  if (Array.isArray(run) || run.metadata == undefined) {
+    throw `${reportPath} is not a report of a run, regenerate it with npx hardhat test`
+  }
+
+  const baseline = gasBaselineFromReports(run.scenarios, run.metadata.l1Estimator)
+  fs.writeFileSync(baselinePath, JSON.stringify(baseline, null, 2) + '\n')
+  console.log(`wrote the gas of ${Object.keys(baseline.scenarios).length} scenarios to ${baselinePath}`)
+  return true
+}
+
+try {
+  process.exitCode = main() ? 0 : 1
+} catch (error) {
+  console.error('Error updating the gas baseline:', error)
+  process.exitCode = 1
+}
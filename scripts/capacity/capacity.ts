@@ -0,0 +1,249 @@
+import {ethers, network} from 'hardhat'
+import {SnapshotRestorer, takeSnapshot} from '@nomicfoundation/hardhat-network-helpers'
+import {BigNumber, constants, ContractTransaction} from 'ethers'
+import {Factory, OrderBook, SmartWallet, TestERC20Token, TestExpensiveCallbackWallet} from 'typechain-types'
+import {deployFactory, deploySmartWallet, deployToken, setupOrderBook} from 'test/default-fixture'
+import {
+  CreateLimitOrder,
+  CreatePerformanceLimitOrder,
+  OrderBookAmounts,
+  OrderType,
+  paginatedOrders,
+  revertData,
+  USDC,
+  WETH,
+} from 'test/shared'
+import {BookShape, CapacityConfig, findCapacity, TakerMode} from './config'
+
+// every maker order is the smallest order of the book, 100 size ticks
+const MAKER_AMOUNT0 = WETH.parse('0.001')
+const MAKER_PRICE = USDC.parse(1500)
+const PRICE_STEP = USDC.parse('0.01')
+// maker orders created per transaction & orders per group of the mixed-performance book
+const BATCH_SIZE = 100
+const MIXED_GROUP_SIZE = 8
+
+export interface CapacityResult {
+  shape: BookShape
+  taker: string
+  mode: TakerMode
+  maxFills: number
+  capped: boolean // every searched fill fits, the capacity is at least maxFills
+  gasUsed: number | null // gas of the taker consuming maxFills makers
+  gasPerFill: number | null // marginal gas of a fill between 1 & maxFills fills
+}
+
+interface Taker {
+  name: string
+  wallet: TestExpensiveCallbackWallet
+}
+
+interface Deployment {
+  factory: Factory
+  token0: TestERC20Token
+  token1: TestERC20Token
+  orderBook: OrderBook
+  amounts: OrderBookAmounts
+  maker: SmartWallet
+  takers: Taker[]
+}
+
+async function deploy(config: CapacityConfig): Promise<Deployment> {
+  // a block has to fit the taker transaction & the batches building the book
+  const blockGasLimit = Math.max(config.gasLimit, 30_000_000)
+  await network.provider.send('evm_setBlockGasLimit', [`0x${blockGasLimit.toString(16)}`])
+
+  const [owner] = await ethers.getSigners()
+  const token0 = await deployToken('WETH', 'WETH', 18)
+  const token1 = await deployToken('USD Coin', 'USDC', 6)
+  const {factory} = await deployFactory(owner)
+
+  // like the WETH - USDC book of the fixture
+  const {orderBookInstance} = await setupOrderBook(factory, 0, 13, 4, 100, 1, token0, token1)
+  const orderBook = orderBookInstance as OrderBook
+
+  const maker = await deploySmartWallet(factory)
+  await token0.mint(maker.address, WETH.parse(10000))
+  await maker.depositToken0(0, WETH.parse(5000))
+
+  const takers: Taker[] = []
+  const callbackWrites = config.callbackWrites == 0 ? [0] : [0, config.callbackWrites]
+  for (const writes of callbackWrites) {
+    const wallet = (await (
+      await ethers.getContractFactory('TestExpensiveCallbackWallet')
+    ).deploy(writes)) as TestExpensiveCallbackWallet
+    await token1.mint(wallet.address, USDC.parse(100_000_000))
+    await wallet.depositToken(orderBook.address, USDC.parse(10_000_000), false)
+    takers.push({name: writes == 0 ? 'plain callback' : `callback writing ${writes} slots`, wallet})
+  }
+
+  // the book holds some of both tokens, so the takers do not pay for the first balance of the book
+  await token0.mint(orderBook.address, 1)
+  await token1.mint(orderBook.address, 1)
+
+  return {factory, token0, token1, orderBook, amounts: await OrderBookAmounts.fromOrderBook(orderBook), maker, takers}
+}
+
+// CapacityBook grows an adversarial book of asks, the makers are consumed by bids of the takers
+class CapacityBook {
+  shape: BookShape
+  deployment: Deployment
+  makerIds: number[] = []
+
+  constructor(shape: BookShape, deployment: Deployment) {
+    this.shape = shape
+    this.deployment = deployment
+  }
+
+  price(index: number): BigNumber {
+    return this.shape == 'many-levels' ? MAKER_PRICE.add(PRICE_STEP.mul(index)) : MAKER_PRICE
+  }
+
+  // asks are inserted behind the last maker, which is the exact hint as no maker has a worse price
+  async grow(count: number) {
+    const {orderBook, token0, factory, maker} = this.deployment
+    while (this.makerIds.length < count) {
+      const first = this.makerIds.length
+      const size =
+        this.shape == 'distinct-makers'
+          ? 1
+          : Math.min(this.shape == 'mixed-performance' ? MIXED_GROUP_SIZE : BATCH_SIZE, count - first)
+      const firstId = await orderBook.orderIdCounter()
+      const orders = [...Array(size).keys()].map((index) => ({
+        amount0: MAKER_AMOUNT0,
+        price: this.price(first + index),
+        isAsk: true,
+        hintId: index == 0 ? this.makerIds[first - 1] ?? 0 : firstId + index - 1,
+      }))
+
+      if (this.shape == 'distinct-makers') {
+        const wallet = await deploySmartWallet(factory)
+        await token0.mint(wallet.address, MAKER_AMOUNT0)
+        await CreateLimitOrder(wallet, orderBook, orders)
+      } else if (this.shape == 'mixed-performance' && (first / MIXED_GROUP_SIZE) % 2 == 1) {
+        await CreatePerformanceLimitOrder(maker, orderBook, orders)
+      } else {
+        await CreateLimitOrder(maker, orderBook, orders)
+      }
+      this.makerIds.push(...orders.map((_, index) => firstId + index))
+    }
+  }
+
+  // sends the taker order or swap consuming exactly `fills` makers
+  async take(taker: Taker, mode: TakerMode, fills: number, gasLimit: number): Promise<ContractTransaction> {
+    const {orderBook, amounts} = this.deployment
+    const amount0 = MAKER_AMOUNT0.mul(fills)
+    const overrides = {gasLimit}
+
+    switch (mode) {
+      case 'swapExactInput': {
+        let amount1 = BigNumber.from(0)
+        for (let index = 0; index < fills; index += 1) {
+          amount1 = amount1.add(
+            amounts.amount1(amounts.toAmount0Base(MAKER_AMOUNT0), amounts.toPriceBase(this.price(index)))
+          )
+        }
+        return taker.wallet.swapExactSingle(orderBook.address, false, true, amount1, 0, overrides)
+      }
+      case 'swapExactOutput':
+        return taker.wallet.swapExactSingle(orderBook.address, false, false, amount0, constants.MaxUint256, overrides)
+      default:
+        return taker.wallet.createOrder(
+          orderBook.address,
+          amounts.toAmount0Base(amount0),
+          amounts.toPriceBase(this.price(fills - 1)),
+          false,
+          OrderType[mode],
+          overrides
+        )
+    }
+  }
+
+  // the best ask left by the taker has to be the first maker it did not consume
+  async expectFilled(fills: number) {
+    const {value: bestAsk} = await paginatedOrders(this.deployment.orderBook, true, 1).next()
+    const expected = this.makerIds[fills]
+    if ((bestAsk?.id ?? undefined) !== expected) {
+      throw `expected ${fills} fills, the best ask is ${bestAsk?.id} instead of ${expected}`
+    }
+  }
+}
+
+// the gas used by the transaction, or null if it ran out of gas; any revert is unexpected
+async function gasUsed(tx: Promise<ContractTransaction>): Promise<number | null> {
+  try {
+    return (await (await tx).wait()).gasUsed.toNumber()
+  } catch (e) {
+    if (revertData(e) == null && /out of gas/i.test(`${e}`)) {
+      return null
+    }
+    throw e
+  }
+}
+
+export async function measureCapacity(config: CapacityConfig): Promise<CapacityResult[]> {
+  const deployment = await deploy(config)
+  const deployed = await takeSnapshot()
+  const results: CapacityResult[] = []
+
+  for (const shape of config.shapes) {
+    await deployed.restore()
+    const book = new CapacityBook(shape, deployment)
+    let built: SnapshotRestorer = await takeSnapshot()
+
+    for (const mode of config.modes) {
+      for (const taker of deployment.takers) {
+        // performance orders pay from the claimable balance, without callback
+        if (mode == 'PerformanceLimitOrder' && taker != deployment.takers[0]) {
+          continue
+        }
+
+        const gas = new Map<number, number | null>()
+        const fits = async (fills: number) => {
+          if (book.makerIds.length < fills) {
+            await book.grow(fills)
+            built = await takeSnapshot()
+          }
+          const used = await gasUsed(book.take(taker, mode, fills, config.gasLimit))
+          if (used != null) {
+            await book.expectFilled(fills)
+          }
+          await built.restore()
+          gas.set(fills, used)
+          return used != null
+        }
+
+        const maxFills = await findCapacity(fits, config.maxFills)
+        if (maxFills > 1 && !gas.has(1)) {
+          await fits(1)
+        }
+        const maxGas = gas.get(maxFills) ?? null
+        const oneGas = gas.get(1) ?? null
+        const result = {
+          shape,
+          taker: taker.name,
+          mode,
+          maxFills,
+          capped: maxFills == config.maxFills,
+          gasUsed: maxGas,
+          gasPerFill: maxFills > 1 && maxGas != null && oneGas != null ? (maxGas - oneGas) / (maxFills - 1) : null,
+        }
+        console.debug(formatCapacityTable([result]).split('\n')[2])
+        results.push(result)
+      }
+    }
+  }
+  return results
+}
+
+export function formatCapacityTable(results: CapacityResult[]): string {
+  const lines = ['|BOOK|TAKER|MODE|MAX FILLS|GAS USED|GAS PER FILL|', '|-----|-----|-----|-----|-----|-----|']
+  for (const result of results) {
+    lines.push(
+      `| ${result.shape} | ${result.taker} | ${result.mode} | ${result.capped ? '≥ ' : ''}${result.maxFills} | ${
+        result.gasUsed ?? '-'
+      } | ${result.gasPerFill != null ? Math.round(result.gasPerFill) : '-'} |`
+    )
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,49 @@
+import {expect} from 'test/shared'
+import {defaultConfig, findCapacity, parseArgs} from './config'
+
+describe('capacity config', () => {
+  it('parses the arguments', () => {
+    expect(parseArgs([])).to.deep.equal(defaultConfig)
+    expect(
+      parseArgs('--gas-limit 5000000 --max-fills 64 --shapes one-level --modes IoCOrder,swapExactInput'.split(' '))
+    ).to.deep.equal({
+      ...defaultConfig,
+      gasLimit: 5_000_000,
+      maxFills: 64,
+      shapes: ['one-level'],
+      modes: ['IoCOrder', 'swapExactInput'],
+    })
+    expect(parseArgs(['--help'])).to.equal(null)
+  })
+
+  it('rejects invalid arguments', () => {
+    expect(() => parseArgs(['--shapes', 'one-level,deep'])).to.throw(
+      'unknown shape deep, expected one of one-level, many-levels, mixed-performance, distinct-makers'
+    )
+    expect(() => parseArgs(['--modes', 'MarketOrder'])).to.throw('unknown mode MarketOrder')
+    expect(() => parseArgs(['--gas-limit', '100'])).to.throw('--gas-limit must be at least 21000')
+    expect(() => parseArgs(['--verbose'])).to.throw('unknown option --verbose')
+  })
+
+  it('searches the largest number of fills which fits', async () => {
+    for (const [capacity, max] of [
+      [0, 100],
+      [1, 100],
+      [37, 100],
+      [64, 100],
+      [99, 100],
+      [100, 100],
+      [250, 100],
+    ]) {
+      const probes: number[] = []
+      const fits = async (n: number) => {
+        probes.push(n)
+        return n <= capacity
+      }
+      expect(await findCapacity(fits, max)).to.equal(Math.min(capacity, max))
+      // doubling & bisecting needs about 2 log2(max) probes
+      expect(probes.length).to.be.at.most(2 * Math.ceil(Math.log2(max)) + 1)
+      expect(new Set(probes).size).to.equal(probes.length)
+    }
+  })
+})
@@ -0,0 +1,132 @@
+// adversarial books the takers consume
+// one-level: tiny orders of a single maker at one price
+// many-levels: tiny orders of a single maker, every order at its own price
+// mixed-performance: tiny orders at one price, alternating groups of limit & performance orders
+// distinct-makers: tiny orders at one price, every order of its own maker wallet, so every fill pays a new balance
+export const BOOK_SHAPES = ['one-level', 'many-levels', 'mixed-performance', 'distinct-makers'] as const
+
+// the order types of IOrderBook.OrderType & both modes of swapExactSingle
+export const TAKER_MODES = [
+  'LimitOrder',
+  'PerformanceLimitOrder',
+  'FoKOrder',
+  'IoCOrder',
+  'swapExactInput',
+  'swapExactOutput',
+] as const
+
+export type BookShape = (typeof BOOK_SHAPES)[number]
+export type TakerMode = (typeof TAKER_MODES)[number]
+
+export interface CapacityConfig {
+  gasLimit: number // gas limit of the taker transaction
+  maxFills: number // upper bound of the search
+  shapes: BookShape[]
+  modes: TakerMode[]
+  callbackWrites: number // storage slots written by the callback of the expensive taker; 0 skips it
+}
+
+export const defaultConfig: CapacityConfig = {
+  gasLimit: 30_000_000,
+  maxFills: 4096,
+  shapes: [...BOOK_SHAPES],
+  modes: [...TAKER_MODES],
+  callbackWrites: 100,
+}
+
+export const usage = `usage: ts-node ./scripts/capacity [options]
+
+  --gas-limit <n>            gas limit of the taker transaction (default ${defaultConfig.gasLimit})
+  --max-fills <n>            largest number of fills searched for (default ${defaultConfig.maxFills})
+  --shapes <shape,...>       books to consume, any of ${BOOK_SHAPES.join(', ')}
+                             (default all of them)
+  --modes <mode,...>         taker orders & swaps, any of ${TAKER_MODES.join(', ')}
+                             (default all of them)
+  --callback-writes <n>      storage slots written by the callback of the expensive taker, 0 skips it
+                             (default ${defaultConfig.callbackWrites})
+  --help                     print this message
+`
+
+function parseInteger(flag: string, value: string | undefined, min: number): number {
+  if (value == undefined || !/^\d+$/.test(value)) {
+    throw `${flag} expects a number but got ${value}`
+  }
+  const n = parseInt(value)
+  if (n < min) {
+    throw `${flag} must be at least ${min}`
+  }
+  return n
+}
+
+function parseList<T extends string>(flag: string, value: string | undefined, values: readonly T[]): T[] {
+  if (value == undefined) {
+    throw `${flag} expects a list of ${values.join(', ')}`
+  }
+  return value.split(',').map((entry) => {
+    if (!values.includes(entry as T)) {
+      throw `unknown ${flag.slice(2, -1)} ${entry}, expected one of ${values.join(', ')}`
+    }
+    return entry as T
+  })
+}
+
+// parseArgs parses the command line arguments, without the node & script path
+// returns null when the usage was requested
+export function parseArgs(args: string[]): CapacityConfig | null {
+  const config: CapacityConfig = {...defaultConfig}
+
+  for (let index = 0; index < args.length; index += 1) {
+    const flag = args[index]
+    const next = () => args[++index]
+
+    switch (flag) {
+      case '--gas-limit':
+        config.gasLimit = parseInteger(flag, next(), 21000)
+        break
+      case '--max-fills':
+        config.maxFills = parseInteger(flag, next(), 1)
+        break
+      case '--shapes':
+        config.shapes = parseList(flag, next(), BOOK_SHAPES)
+        break
+      case '--modes':
+        config.modes = parseList(flag, next(), TAKER_MODES)
+        break
+      case '--callback-writes':
+        config.callbackWrites = parseInteger(flag, next(), 0)
+        break
+      case '--help':
+        return null
+      default:
+        throw `unknown option ${flag}`
+    }
+  }
+
+  return config
+}
+
+// findCapacity returns the largest n in [0, max] for which fits(n) is true, assuming fits is monotonic:
+// it doubles n until a transaction does not fit, then binary searches between the last two values
+export async function findCapacity(fits: (n: number) => Promise<boolean>, max: number): Promise<number> {
+  let fitting = 0
+  let failing: number | null = null
+  for (let n = 1; failing == null; n = Math.min(2 * n, max)) {
+    if (!(await fits(n))) {
+      failing = n
+    } else if (n == max) {
+      return max
+    } else {
+      fitting = n
+    }
+  }
+
+  while (failing - fitting > 1) {
+    const n = Math.floor((fitting + failing) / 2)
+    if (await fits(n)) {
+      fitting = n
+    } else {
+      failing = n
+    }
+  }
+  return fitting
+}
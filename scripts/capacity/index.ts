@@ -0,0 +1,22 @@
+import 'tsconfig-paths/register'
+import {parseArgs, usage} from './config'
+
+async function run() {
+  const config = parseArgs(process.argv.slice(2))
+  if (config == null) {
+    console.log(usage)
+    return
+  }
+
+  // the contracts are loaded only after parsing the arguments, like the stress test
+  const {formatCapacityTable, measureCapacity} = await import('./capacity')
+
+  console.log(`max fills of a taker transaction with a gas limit of ${config.gasLimit}`)
+  const results = await measureCapacity(config)
+  console.log(formatCapacityTable(results))
+}
+
+run().catch((err) => {
+  console.error(`failed with error ${err}`)
+  process.exitCode = 1
+})
@@ -0,0 +1,281 @@
+import {BigNumber} from 'ethers'
+import {Log} from '@ethersproject/abstract-provider'
+import {OrderBook} from 'typechain-types'
+import {OrderBookAmounts, OrderType} from 'test/shared'
+
+// IndexedOrder is a limit order resting in the book, amounts are in token units like getPaginatedOrders returns them
+export interface IndexedOrder {
+  id: number
+  owner: string
+  isAsk: boolean
+  amount0: BigNumber
+  price: BigNumber
+  isPerformance: boolean
+}
+
+// the order created by the transaction being indexed; it's matched by the Swap events which follow its CreateOrder
+// and inserted in the book (or discarded for FoK & IoC orders) once all of them were applied
+interface TakerOrder {
+  order: IndexedOrder
+  orderType: OrderType
+  transactionHash: string
+  filledAmount0: BigNumber
+  filledAmount1: BigNumber
+}
+
+// OrderBookIndexer rebuilds the state of an OrderBook from its events, without calling any of its views
+// the book is kept sorted like the OrderBook keeps it: best price first, then by creation (FIFO)
+// payments of performance orders do not emit ClaimableBalance events, so they are inferred from the CreateOrder, Swap
+// and CancelLimitOrder events; performance orders are assumed to be paid from the claimable balance of their owner
+export class OrderBookIndexer {
+  orderBook: OrderBook
+  amounts: OrderBookAmounts
+
+  asks: IndexedOrder[] = []
+  bids: IndexedOrder[] = []
+  orders = new Map<number, IndexedOrder>()
+  ordersByOwner = new Map<string, Set<number>>()
+  claimable_token0 = new Map<string, BigNumber>()
+  claimable_token1 = new Map<string, BigNumber>()
+
+  // last block whose events were applied
+  lastBlock: number
+  taker: TakerOrder | null = null
+
+  constructor(orderBook: OrderBook, amounts: OrderBookAmounts, fromBlock: number) {
+    this.orderBook = orderBook
+    this.amounts = amounts
+    this.lastBlock = fromBlock - 1
+  }
+
+  // create reads the parameters of the order book and indexes its events starting with fromBlock
+  // the order book has to be empty at fromBlock, e.g. the block it was created in
+  static async create(orderBook: OrderBook, fromBlock = 0): Promise<OrderBookIndexer> {
+    return new OrderBookIndexer(orderBook, await OrderBookAmounts.fromOrderBook(orderBook), fromBlock)
+  }
+
+  // sync applies the events of every block mined since the last sync, up to toBlock
+  async sync(toBlock?: number) {
+    // getBlockNumber is cached by the provider, which is wrong after reverting to a snapshot
+    const latest = toBlock ?? (await this.orderBook.provider.getBlock('latest')).number
+    for (let block = this.lastBlock + 1; block <= latest; block += 1) {
+      const logs = await this.orderBook.provider.getLogs({
+        address: this.orderBook.address,
+        fromBlock: block,
+        toBlock: block,
+      })
+      this.applyBlock(block, logs)
+    }
+  }
+
+  applyBlock(block: number, logs: Log[]) {
+    if (block != this.lastBlock + 1) {
+      throw `expected block ${this.lastBlock + 1} but got ${block}`
+    }
+
+    for (const log of [...logs].sort((a, b) => a.logIndex - b.logIndex)) {
+      this.applyLog(log)
+    }
+    this.settleTaker()
+    this.lastBlock = block
+  }
+
+  applyLog(log: Log) {
+    if (this.taker != null && this.taker.transactionHash != log.transactionHash) {
+      this.settleTaker()
+    }
+
+    const event = this.orderBook.interface.parseLog(log)
+    switch (event.name) {
+      case 'CreateOrder': {
+        this.settleTaker()
+        const {owner, id, amount0Base, priceBase, isAsk, orderType} = event.args
+        this.taker = {
+          order: {
+            id,
+            owner,
+            isAsk,
+            amount0: this.amounts.fromAmount0Base(amount0Base),
+            price: this.amounts.fromPriceBase(priceBase),
+            isPerformance: orderType == OrderType.PerformanceLimitOrder,
+          },
+          orderType,
+          transactionHash: log.transactionHash,
+          filledAmount0: BigNumber.from(0),
+          filledAmount1: BigNumber.from(0),
+        }
+        break
+      }
+      case 'Swap': {
+        const {askId, bidId, amount0, amount1} = event.args
+        // swaps of other takers (e.g. swapExactSingle called after createOrder) can match the order of the taker
+        if (this.taker != null && this.taker.order.id != askId && this.taker.order.id != bidId) {
+          this.settleTaker()
+        }
+
+        const taker = this.taker
+        const takerID = taker != null ? taker.order.id : 0
+        this.fillMaker(askId == takerID ? bidId : askId, amount0, amount1)
+
+        if (taker != null) {
+          taker.order.amount0 = taker.order.amount0.sub(amount0)
+          taker.filledAmount0 = taker.filledAmount0.add(amount0)
+          taker.filledAmount1 = taker.filledAmount1.add(amount1)
+        }
+        break
+      }
+      case 'SwapExactAmount': {
+        // the makers were already filled by the Swap events emitted for the swap, which is never a performance taker
+        this.settleTaker()
+        break
+      }
+      case 'CancelLimitOrder': {
+        const order = this.remove(event.args.id)
+        // canceling a performance order refunds it to the claimable balance without emitting an event
+        if (order.isPerformance) {
+          const amount = order.isAsk ? order.amount0 : this.amount1(order.amount0, order.price)
+          this.updateClaimable(order.owner, order.isAsk, amount)
+        }
+        break
+      }
+      case 'ClaimableBalanceIncrease': {
+        const {owner, amountDelta, isToken0} = event.args
+        this.updateClaimable(owner, isToken0, amountDelta)
+        break
+      }
+      case 'ClaimableBalanceDecrease': {
+        const {owner, amountDelta, isToken0} = event.args
+        this.updateClaimable(owner, isToken0, BigNumber.from(amountDelta).mul(-1))
+        break
+      }
+    }
+  }
+
+  // amount of token1 locked by a bid, rounded down like the OrderBook does
+  amount1(amount0: BigNumber, price: BigNumber): BigNumber {
+    return this.amounts.amount1(this.amounts.toAmount0Base(amount0), this.amounts.toPriceBase(price))
+  }
+
+  fillMaker(id: number, amount0: BigNumber, amount1: BigNumber) {
+    const maker = this.orders.get(id)
+    if (maker == undefined) {
+      throw `swap with unknown maker order ${id}`
+    }
+
+    maker.amount0 = maker.amount0.sub(amount0)
+    if (maker.amount0.eq(0)) {
+      this.remove(id)
+    }
+    // performance makers are paid into the claimable balance without emitting an event
+    if (maker.isPerformance) {
+      this.updateClaimable(maker.owner, !maker.isAsk, maker.isAsk ? amount1 : amount0)
+    }
+  }
+
+  // settles the payments of the taker order and inserts what is left of limit orders in the book
+  settleTaker() {
+    const taker = this.taker
+    if (taker == null) {
+      return
+    }
+    this.taker = null
+
+    const {order, orderType} = taker
+    const isLimitOrder = orderType == OrderType.LimitOrder || orderType == OrderType.PerformanceLimitOrder
+    const remaining = isLimitOrder ? order.amount0 : BigNumber.from(0)
+
+    if (order.isPerformance) {
+      const debit = order.isAsk
+        ? taker.filledAmount0.add(remaining)
+        : taker.filledAmount1.add(this.amount1(remaining, order.price))
+      const credit = order.isAsk ? taker.filledAmount1 : taker.filledAmount0
+      this.updateClaimable(order.owner, order.isAsk, debit.mul(-1))
+      this.updateClaimable(order.owner, !order.isAsk, credit)
+    }
+
+    if (remaining.gt(0)) {
+      this.insert(order)
+    }
+  }
+
+  insert(order: IndexedOrder) {
+    const side = order.isAsk ? this.asks : this.bids
+    // orders with the same price are kept in creation order, so the new order goes after them
+    let index = side.findIndex((other) => (order.isAsk ? other.price.gt(order.price) : other.price.lt(order.price)))
+    if (index == -1) {
+      index = side.length
+    }
+    side.splice(index, 0, order)
+
+    this.orders.set(order.id, order)
+    if (!this.ordersByOwner.has(order.owner)) {
+      this.ordersByOwner.set(order.owner, new Set<number>())
+    }
+    this.ordersByOwner.get(order.owner)!.add(order.id)
+  }
+
+  remove(id: number): IndexedOrder {
+    const order = this.orders.get(id)
+    if (order == undefined) {
+      throw `unknown order ${id}`
+    }
+
+    const side = order.isAsk ? this.asks : this.bids
+    side.splice(side.indexOf(order), 1)
+    this.orders.delete(id)
+    this.ordersByOwner.get(order.owner)!.delete(id)
+    return order
+  }
+
+  updateClaimable(owner: string, isToken0: boolean, delta: BigNumber) {
+    const balances = isToken0 ? this.claimable_token0 : this.claimable_token1
+    balances.set(owner, this.claimableBalance(owner, isToken0).add(delta))
+  }
+
+  claimableBalance(owner: string, isToken0: boolean): BigNumber {
+    return (isToken0 ? this.claimable_token0 : this.claimable_token1).get(owner) ?? BigNumber.from(0)
+  }
+
+  // open orders of the owner, in the order they were created
+  openOrders(owner: string): IndexedOrder[] {
+    const ids = [...(this.ordersByOwner.get(owner) ?? [])].sort((a, b) => a - b)
+    return ids.map((id) => this.orders.get(id)!)
+  }
+
+  // check compares the indexed state with the views of the OrderBook, at the last indexed block
+  async check() {
+    const blockTag = this.lastBlock
+    for (const side of [this.asks, this.bids]) {
+      const isAsk = side == this.asks
+      const onChain = await this.orderBook.getPaginatedOrders(0, isAsk, side.length + 1, {blockTag})
+
+      const expected = [...side.map((order) => order.id), 0]
+      const ids = [...onChain.ids]
+      if (JSON.stringify(ids) != JSON.stringify(expected)) {
+        throw `${isAsk ? 'asks' : 'bids'} not equal -- indexer:${expected} onChain:${ids}`
+      }
+
+      side.forEach((order, index) => {
+        if (
+          order.owner != onChain.owners[index] ||
+          !order.amount0.eq(onChain.amount0s[index]) ||
+          !order.price.eq(onChain.prices[index])
+        ) {
+          throw `order ${order.id} not equal -- indexer:${order.owner},${order.amount0},${order.price} onChain:${onChain.owners[index]},${onChain.amount0s[index]},${onChain.prices[index]}`
+        }
+      })
+    }
+
+    const owners = new Set([...this.claimable_token0.keys(), ...this.claimable_token1.keys()])
+    for (const owner of owners) {
+      const claimable0 = await this.orderBook.claimableToken0Balance(owner, {blockTag})
+      const claimable1 = await this.orderBook.claimableToken1Balance(owner, {blockTag})
+      if (!claimable0.eq(this.claimableBalance(owner, true)) || !claimable1.eq(this.claimableBalance(owner, false))) {
+        throw `claimable balance of ${owner} not equal -- indexer:${this.claimableBalance(
+          owner,
+          true
+        )},${this.claimableBalance(owner, false)} onChain:${claimable0},${claimable1}`
+      }
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import {BigNumber} from 'ethers'
+import {expect, OrderBookAmounts, USDC, WETH} from 'test/shared'
+import {quoteSwap} from './book-quoter'
+
+describe('book quoter', () => {
+  // multiples of 0.00001 WETH at multiples of 0.01 USDC, like the WETH - USDC book of the fixture
+  const amounts = new OrderBookAmounts(WETH, USDC, {sizeTick: WETH.parse('0.00001'), priceTick: USDC.parse('0.01')})
+  const asks = [
+    {id: 2, amount0: WETH.parse(1), price: USDC.parse(1500)},
+    {id: 3, amount0: WETH.parse(2), price: USDC.parse(1600)},
+  ]
+  const bids = [{id: 4, amount0: WETH.parse(1), price: USDC.parse(1400)}]
+
+  function quote(isAsk: boolean, isExactInput: boolean, amount: BigNumber) {
+    const {filledAmount0, filledAmount1, fullTakerFill} = quoteSwap(
+      amounts,
+      isAsk ? bids : asks,
+      isAsk,
+      isExactInput,
+      amount
+    )
+    return [filledAmount0.toString(), filledAmount1.toString(), fullTakerFill]
+  }
+
+  it('matches the makers best price first', async () => {
+    // 1 WETH at 1500 & 0.5 WETH at 1600
+    expect(quote(false, false, WETH.parse(1.5))).to.eql([WETH.parse(1.5).toString(), USDC.parse(2300).toString(), true])
+    expect(quote(false, true, USDC.parse(2300))).to.eql([WETH.parse(1.5).toString(), USDC.parse(2300).toString(), true])
+    expect(quote(true, true, WETH.parse(0.5))).to.eql([WETH.parse(0.5).toString(), USDC.parse(700).toString(), true])
+  })
+
+  it('rounds like getSwapAmountsForToken0', async () => {
+    // bids receive at least the requested amount0, asks sell at most the given amount0
+    expect(quote(false, false, BigNumber.from(1))).to.eql([WETH.parse('0.00001').toString(), '15000', true])
+    expect(quote(true, true, WETH.parse('0.000019'))).to.eql([WETH.parse('0.00001').toString(), '14000', true])
+    // less than a size tick does not swap anything
+    expect(quote(true, true, BigNumber.from(1))).to.eql(['0', '0', true])
+  })
+
+  it('rounds like getSwapAmountsForToken1', async () => {
+    // asks sell enough amount0 to receive at least the requested amount1
+    expect(quote(true, false, BigNumber.from(1))).to.eql([WETH.parse('0.00001').toString(), '14000', true])
+    // bids pay at most the given amount1
+    expect(quote(false, true, BigNumber.from(29999))).to.eql([WETH.parse('0.00001').toString(), '15000', true])
+    expect(quote(false, true, BigNumber.from(1))).to.eql(['0', '0', true])
+  })
+
+  it('does not fill swaps larger than the book', async () => {
+    expect(quote(false, false, WETH.parse(3.5))).to.eql([WETH.parse(3).toString(), USDC.parse(4700).toString(), false])
+    expect(quote(true, false, USDC.parse(1401))[2]).to.equal(false)
+    expect(quote(true, true, BigNumber.from(0))).to.eql(['0', '0', true])
+  })
+})
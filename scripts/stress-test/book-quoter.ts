@@ -0,0 +1,154 @@
+import {BigNumber, BigNumberish} from 'ethers'
+import {OrderBook} from 'typechain-types'
+import {BookOrder, lighterErrorData, OrderBookAmounts, readBookSnapshot, Rounding} from 'test/shared'
+import {Quoter} from './on-chain-matching'
+
+export interface SwapAmounts {
+  swapAmount0: BigNumber
+  swapAmount1: BigNumber
+  amount0BaseDelta: BigNumber
+  fullTakerFill: boolean
+}
+
+export interface SwapQuote {
+  filledAmount0: BigNumber
+  filledAmount1: BigNumber
+  // false if the book does not have enough liquidity, the swap reverts with LighterV2Swap_NotEnoughLiquidity
+  fullTakerFill: boolean
+}
+
+// mirrors OrderBook.getSwapAmountsForToken0: bids take the amount rounded up to the size tick, asks rounded down
+export function getSwapAmountsForToken0(
+  amounts: OrderBookAmounts,
+  amount0: BigNumber,
+  isAsk: boolean,
+  makerAmount0Base: BigNumber,
+  makerPriceBase: BigNumber
+): SwapAmounts {
+  let amount0BaseToTake = amounts.toAmount0Base(amount0, isAsk ? Rounding.Down : Rounding.Up)
+  const fullTakerFill = amount0BaseToTake.lte(makerAmount0Base)
+  if (!fullTakerFill) {
+    amount0BaseToTake = makerAmount0Base
+  }
+  return {
+    swapAmount0: amounts.fromAmount0Base(amount0BaseToTake),
+    swapAmount1: amounts.amount1(amount0BaseToTake, makerPriceBase),
+    amount0BaseDelta: amount0BaseToTake,
+    fullTakerFill,
+  }
+}
+
+// mirrors OrderBook.getSwapAmountsForToken1: asks take one more size tick if the rounded down amount pays less than amount1
+export function getSwapAmountsForToken1(
+  amounts: OrderBookAmounts,
+  amount1: BigNumber,
+  isAsk: boolean,
+  makerAmount0Base: BigNumber,
+  makerPriceBase: BigNumber
+): SwapAmounts {
+  let amount0BaseToTake = amount1.mul(amounts.priceDivider).div(makerPriceBase.mul(amounts.priceMultiplier))
+  if (isAsk && amounts.amount1(amount0BaseToTake, makerPriceBase).lt(amount1)) {
+    amount0BaseToTake = amount0BaseToTake.add(1)
+  }
+  const fullTakerFill = amount0BaseToTake.lte(makerAmount0Base)
+  if (!fullTakerFill) {
+    amount0BaseToTake = makerAmount0Base
+  }
+  return {
+    swapAmount0: amounts.fromAmount0Base(amount0BaseToTake),
+    swapAmount1: amounts.amount1(amount0BaseToTake, makerPriceBase),
+    amount0BaseDelta: amount0BaseToTake,
+    fullTakerFill,
+  }
+}
+
+// quoteSwap computes the amounts swapExactSingle fills, matching the makers (the opposite side of the book, best price
+// first) the same way OrderBook._matchSwapOrder does; the threshold amount of the swap is not checked
+export function quoteSwap(
+  amounts: OrderBookAmounts,
+  makers: BookOrder[],
+  isAsk: boolean,
+  isExactInput: boolean,
+  exactAmount: BigNumberish
+): SwapQuote {
+  const isExactToken0 = isExactInput == isAsk
+  let amount = BigNumber.from(exactAmount)
+  let filledAmount0 = BigNumber.from(0)
+  let filledAmount1 = BigNumber.from(0)
+  let fullTakerFill = amount.eq(0)
+
+  for (const maker of makers) {
+    if (fullTakerFill) {
+      break
+    }
+    const makerAmount0Base = amounts.toAmount0Base(maker.amount0)
+    const makerPriceBase = amounts.toPriceBase(maker.price)
+    const swap = isExactToken0
+      ? getSwapAmountsForToken0(amounts, amount, isAsk, makerAmount0Base, makerPriceBase)
+      : getSwapAmountsForToken1(amounts, amount, isAsk, makerAmount0Base, makerPriceBase)
+    fullTakerFill = swap.fullTakerFill
+
+    // the next makers would swap 0 as well
+    if (swap.swapAmount0.eq(0) || swap.swapAmount1.eq(0)) {
+      break
+    }
+    filledAmount0 = filledAmount0.add(swap.swapAmount0)
+    filledAmount1 = filledAmount1.add(swap.swapAmount1)
+
+    // the maker is partially filled, which only happens when the taker is fully filled
+    if (swap.amount0BaseDelta.lt(makerAmount0Base) || fullTakerFill) {
+      break
+    }
+    amount = amount.sub(isExactToken0 ? swap.swapAmount0 : swap.swapAmount1)
+  }
+
+  return {filledAmount0, filledAmount1, fullTakerFill}
+}
+
+// BookQuoter implements the Quoter of the periphery Router off-chain, from a snapshot of the book read before every
+// quote, so swaps can be checked against a quote which does not depend on the periphery contracts
+// quotes which can not be filled throw the revert data of LighterV2Swap_NotEnoughLiquidity, like a reverted call
+export class BookQuoter implements Quoter {
+  orderBooks: OrderBook[]
+  amounts = new Map<number, OrderBookAmounts>()
+
+  constructor(orderBooks: OrderBook[]) {
+    this.orderBooks = orderBooks
+  }
+
+  async orderBook(orderBookId: BigNumberish): Promise<OrderBook> {
+    for (const orderBook of this.orderBooks) {
+      if (BigNumber.from(orderBookId).eq(await orderBook.orderBookId())) {
+        return orderBook
+      }
+    }
+    throw `unknown order book ${orderBookId}`
+  }
+
+  async quote(orderBookId: BigNumberish, isAsk: boolean, isExactInput: boolean, amount: BigNumberish) {
+    const orderBook = await this.orderBook(orderBookId)
+    const id = BigNumber.from(orderBookId).toNumber()
+    if (!this.amounts.has(id)) {
+      this.amounts.set(id, await OrderBookAmounts.fromOrderBook(orderBook))
+    }
+
+    const book = await readBookSnapshot(orderBook)
+    const quote = quoteSwap(this.amounts.get(id)!, isAsk ? book.bids : book.asks, isAsk, isExactInput, amount)
+    if (!quote.fullTakerFill) {
+      throw {data: lighterErrorData('LighterV2Swap_NotEnoughLiquidity')}
+    }
+
+    const [quotedInput, quotedOutput] = isAsk
+      ? [quote.filledAmount0, quote.filledAmount1]
+      : [quote.filledAmount1, quote.filledAmount0]
+    return {quotedInput, quotedOutput}
+  }
+
+  getQuoteForExactInput(orderBookId: BigNumberish, isAsk: boolean, amount: BigNumberish) {
+    return this.quote(orderBookId, isAsk, true, amount)
+  }
+
+  getQuoteForExactOutput(orderBookId: BigNumberish, isAsk: boolean, amount: BigNumberish) {
+    return this.quote(orderBookId, isAsk, false, amount)
+  }
+}
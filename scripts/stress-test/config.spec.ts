@@ -0,0 +1,54 @@
+import {expect} from 'test/shared'
+import {defaultConfig, parseArgs} from './config'
+
+describe('stress test config', () => {
+  it('uses the defaults without arguments', () => {
+    expect(parseArgs([])).to.deep.equal(defaultConfig)
+  })
+
+  it('parses the arguments', () => {
+    const config = parseArgs(
+      '--runs 5 --operations 50 --users 3 --order-books 0,2 --seed 42 --max-book-depth 40 --keep-going --quiet'.split(
+        ' '
+      )
+    )
+    expect(config).to.deep.equal({
+      ...defaultConfig,
+      runs: 5,
+      operationsPerRun: 50,
+      users: 3,
+      orderBooks: [0, 2],
+      seed: 42,
+      maxBookDepth: 40,
+      stopOnFailure: false,
+      quiet: true,
+    })
+  })
+
+  it('parses the weights, unlisted operations are never picked', () => {
+    const config = parseArgs(['--weights', 'limitOrder=3,fillOrKill=1'])
+    expect(config!.weights).to.deep.equal({
+      cancel: 0,
+      swapExact: 0,
+      fillOrKill: 1,
+      immediateOrCancel: 0,
+      limitOrder: 3,
+      deposit: 0,
+      claim: 0,
+      claimAll: 0,
+    })
+  })
+
+  it('returns null when the usage is requested', () => {
+    expect(parseArgs(['--runs', '1', '--help'])).to.be.null
+  })
+
+  it('rejects invalid arguments', () => {
+    expect(() => parseArgs(['--runs'])).to.throw()
+    expect(() => parseArgs(['--runs', '0'])).to.throw()
+    expect(() => parseArgs(['--weights', 'swap=1'])).to.throw()
+    expect(() => parseArgs(['--weights', 'cancel=1'])).to.throw()
+    expect(() => parseArgs(['--replay'])).to.throw()
+    expect(() => parseArgs(['--verbose'])).to.throw()
+  })
+})
@@ -0,0 +1,165 @@
+import {Operation} from './operations'
+
+export type OperationWeights = Record<Operation['type'], number>
+
+export interface StressTestConfig {
+  runs: number | null // null runs forever
+  operationsPerRun: number
+  users: number
+  weights: OperationWeights // relative chance of every operation being picked
+  orderBooks: number[] | null // indexes of the order books which can be tested; null for all of them
+  seed: number | null // null picks a random seed
+  maxBookDepth: number // once the book holds more orders than this, orders get canceled
+  stopOnFailure: boolean
+  quiet: boolean
+  replay: string | null // path of an operation log to replay
+  shrink: string | null // path of an operation log to shrink
+}
+
+export const defaultConfig: StressTestConfig = {
+  runs: null,
+  operationsPerRun: 100,
+  users: 10,
+  weights: {
+    cancel: 20,
+    swapExact: 20,
+    fillOrKill: 10,
+    immediateOrCancel: 10,
+    limitOrder: 40,
+    deposit: 10,
+    claim: 5,
+    claimAll: 5,
+  },
+  orderBooks: null,
+  seed: null,
+  maxBookDepth: 20,
+  stopOnFailure: true,
+  quiet: false,
+  replay: null,
+  shrink: null,
+}
+
+export const usage = `usage: ts-node ./scripts/stress-test [options]
+
+  --runs <n>                 number of runs; runs forever by default
+  --operations <n>           operations per run (default ${defaultConfig.operationsPerRun})
+  --users <n>                number of smart wallets trading (default ${defaultConfig.users})
+  --weights <type=w,...>     relative weights of the operations, any of
+                             ${Object.keys(defaultConfig.weights).join(', ')}
+                             (default ${formatWeights(defaultConfig.weights)})
+  --order-books <i,...>      indexes of the order books to test; all of them by default
+  --seed <n>                 seed of the session; random by default
+  --max-book-depth <n>       orders in the book before orders get canceled (default ${defaultConfig.maxBookDepth})
+  --keep-going               do not stop at the first failing run
+  --quiet                    only print the summary of every run
+  --replay <path>            replay a saved operation log
+  --shrink <path>            shrink a saved operation log to a minimal mocha test
+  --help                     print this message
+`
+
+function formatWeights(weights: OperationWeights): string {
+  return Object.entries(weights)
+    .map(([type, weight]) => `${type}=${weight}`)
+    .join(',')
+}
+
+function parseInteger(flag: string, value: string | undefined, min: number): number {
+  if (value == undefined || !/^\d+$/.test(value)) {
+    throw `${flag} expects a number but got ${value}`
+  }
+  const n = parseInt(value)
+  if (n < min) {
+    throw `${flag} must be at least ${min}`
+  }
+  return n
+}
+
+function parsePath(flag: string, value: string | undefined): string {
+  if (value == undefined) {
+    throw `${flag} expects a path`
+  }
+  return value
+}
+
+function parseWeights(value: string | undefined): OperationWeights {
+  if (value == undefined) {
+    throw '--weights expects a list of type=weight'
+  }
+
+  // operations which are not listed are never picked
+  const weights: OperationWeights = {
+    cancel: 0,
+    swapExact: 0,
+    fillOrKill: 0,
+    immediateOrCancel: 0,
+    limitOrder: 0,
+    deposit: 0,
+    claim: 0,
+    claimAll: 0,
+  }
+  for (const entry of value.split(',')) {
+    const [type, weight] = entry.split('=')
+    if (!(type in weights)) {
+      throw `unknown operation ${type}, expected one of ${Object.keys(weights).join(', ')}`
+    }
+    weights[type as Operation['type']] = parseInteger(`--weights ${type}`, weight, 0)
+  }
+
+  if (weights.limitOrder == 0) {
+    throw '--weights needs limitOrder, otherwise the book stays empty'
+  }
+  return weights
+}
+
+// parseArgs parses the command line arguments, without the node & script path
+// returns null when the usage was requested
+export function parseArgs(args: string[]): StressTestConfig | null {
+  const config: StressTestConfig = {...defaultConfig, weights: {...defaultConfig.weights}}
+
+  for (let index = 0; index < args.length; index += 1) {
+    const flag = args[index]
+    const next = () => args[++index]
+
+    switch (flag) {
+      case '--runs':
+        config.runs = parseInteger(flag, next(), 1)
+        break
+      case '--operations':
+        config.operationsPerRun = parseInteger(flag, next(), 1)
+        break
+      case '--users':
+        config.users = parseInteger(flag, next(), 1)
+        break
+      case '--weights':
+        config.weights = parseWeights(next())
+        break
+      case '--order-books':
+        config.orderBooks = (next() || '').split(',').map((value) => parseInteger(flag, value, 0))
+        break
+      case '--seed':
+        config.seed = parseInteger(flag, next(), 0)
+        break
+      case '--max-book-depth':
+        config.maxBookDepth = parseInteger(flag, next(), 1)
+        break
+      case '--keep-going':
+        config.stopOnFailure = false
+        break
+      case '--quiet':
+        config.quiet = true
+        break
+      case '--replay':
+        config.replay = parsePath(flag, next())
+        break
+      case '--shrink':
+        config.shrink = parsePath(flag, next())
+        break
+      case '--help':
+        return null
+      default:
+        throw `unknown option ${flag}`
+    }
+  }
+
+  return config
+}
@@ -0,0 +1,159 @@
+import {BigNumber} from 'ethers'
+import {CoreMatchingEngine, Order, TakerOrder} from './core-matching-engine'
+import {expect, USDC, WETH} from 'test/shared'
+
+// LinearMatchingEngine is the previous array based implementation of the CoreMatchingEngine
+// it copies & scans the whole side of the book on every call and is only kept as a reference for the benchmark
+class LinearMatchingEngine {
+  ask: Order[] = []
+  bid: Order[] = []
+
+  insert(newOrder: Order) {
+    const arr = newOrder.isAsk ? this.ask : this.bid
+    let index = 0
+    for (; index < arr.length; index += 1) {
+      if (newOrder.isAsk ? newOrder.price.lt(arr[index].price) : newOrder.price.gt(arr[index].price)) {
+        break
+      }
+    }
+    const newArr = [...arr.slice(0, index), newOrder, ...arr.slice(index)]
+    if (newOrder.isAsk) {
+      this.ask = newArr
+    } else {
+      this.bid = newArr
+    }
+  }
+
+  cancel(id: number): Order | null {
+    for (const isAsk of [true, false]) {
+      const arr = isAsk ? this.ask : this.bid
+      const index = arr.findIndex((order) => order.id == id)
+      if (index == -1) {
+        continue
+      }
+      const newArr = [...arr.slice(0, index), ...arr.slice(index + 1)]
+      if (isAsk) {
+        this.ask = newArr
+      } else {
+        this.bid = newArr
+      }
+      return arr[index]
+    }
+    return null
+  }
+
+  match(taker: TakerOrder) {
+    const arr = taker.isAsk ? this.bid : this.ask
+    let index = 0
+    for (; index < arr.length; index += 1) {
+      const maker = arr[index]
+      if (taker.isAsk ? taker.price.gt(maker.price) : taker.price.lt(maker.price)) {
+        break
+      }
+      if (taker.amount0!.lt(maker.amount0)) {
+        maker.amount0 = maker.amount0.sub(taker.amount0!)
+        taker.amount0 = BigNumber.from(0)
+        break
+      }
+      taker.amount0 = taker.amount0!.sub(maker.amount0)
+    }
+    if (taker.isAsk) {
+      this.bid = arr.slice(index)
+    } else {
+      this.ask = arr.slice(index)
+    }
+    return taker
+  }
+}
+
+interface Engine {
+  insert(order: Order): void
+  cancel(id: number): Order | null
+  match(taker: TakerOrder): TakerOrder
+}
+
+const RESTING_ORDERS = 10000
+const OPERATIONS = 2000
+
+// deterministic pseudo random generator, so both engines receive exactly the same operations
+function lcg(seed: number) {
+  let state = seed
+  return (max: number) => {
+    state = (Math.imul(state, 1103515245) + 12345) & 0x7fffffff
+    return state % max
+  }
+}
+
+// asks rest above 1500 and bids below 1500, so the book is not crossed
+function priceAround(isAsk: boolean, offset: number) {
+  const delta = USDC.parse(offset).div(10)
+  return isAsk ? USDC.parse(1500).add(delta) : USDC.parse(1500).sub(delta)
+}
+
+function populate(engine: Engine) {
+  const random = lcg(1)
+  for (let id = 2; id < RESTING_ORDERS + 2; id += 1) {
+    const isAsk = id % 2 == 0
+    const offset = 1 + random(5000)
+    engine.insert({
+      id,
+      isAsk,
+      amount0: WETH.parse(1 + random(10)),
+      price: priceAround(isAsk, offset),
+    })
+  }
+}
+
+function run(engine: Engine) {
+  const random = lcg(2)
+  let nextID = RESTING_ORDERS + 2
+  const start = Date.now()
+  for (let i = 0; i < OPERATIONS; i += 1) {
+    const operation = random(3)
+    if (operation == 0) {
+      engine.cancel(2 + random(nextID - 2))
+    } else if (operation == 1) {
+      const isAsk = random(2) == 0
+      const offset = 1 + random(5000)
+      engine.insert({
+        id: nextID++,
+        isAsk,
+        amount0: WETH.parse(1 + random(10)),
+        price: priceAround(isAsk, offset),
+      })
+    } else {
+      const isAsk = random(2) == 0
+      engine.match({
+        id: nextID++,
+        isAsk,
+        amount0: WETH.parse(1 + random(20)),
+        price: USDC.parse(isAsk ? 1450 : 1550),
+      })
+    }
+  }
+  return Date.now() - start
+}
+
+describe('core matching engine benchmark', function () {
+  this.timeout(600000)
+
+  it(`performs ${OPERATIONS} operations on a book with ${RESTING_ORDERS} resting orders at least twice as fast`, () => {
+    const linear = new LinearMatchingEngine()
+    const indexed = new CoreMatchingEngine()
+    populate(linear)
+    populate(indexed)
+
+    const linearMs = run(linear)
+    const indexedMs = run(indexed)
+
+    // about 6x on a 10k orders book, the floor leaves room for noisy machines
+    expect(linearMs).to.be.greaterThan(
+      indexedMs * 2,
+      `linear engine: ${linearMs}ms; price level engine: ${indexedMs}ms`
+    )
+
+    // both engines have to end up with the same book
+    expect(indexed.ask.map((order) => order.id)).to.deep.equal(linear.ask.map((order) => order.id))
+    expect(indexed.bid.map((order) => order.id)).to.deep.equal(linear.bid.map((order) => order.id))
+  })
+})
@@ -1,5 +1,6 @@
+import {BigNumber} from 'ethers'
 import {CoreMatchingEngine, Swap} from './core-matching-engine'
-import {expect, ParseUSDC, ParseWETH} from 'test/shared'
+import {expect, USDC, WETH} from 'test/shared'
 
 function expectOrderBook(engine: CoreMatchingEngine, askIDs: number[], bidIDs: number[]) {
   expect(askIDs).to.deep.equal(engine.ask.map((order) => order.id))
@@ -25,26 +26,26 @@ describe('core matching engine', () => {
     engine.insert({
       id: 1,
       isAsk: isAsk,
-      amount0: ParseWETH('0.1'),
-      price: ParseUSDC('1450'),
+      amount0: WETH.parse('0.1'),
+      price: USDC.parse('1450'),
     })
     engine.insert({
       id: 2,
       isAsk: isAsk,
-      amount0: ParseWETH('0.2'),
-      price: ParseUSDC('1425'),
+      amount0: WETH.parse('0.2'),
+      price: USDC.parse('1425'),
     })
     engine.insert({
       id: 3,
       isAsk: isAsk,
-      amount0: ParseWETH('0.3'),
-      price: ParseUSDC('1475'),
+      amount0: WETH.parse('0.3'),
+      price: USDC.parse('1475'),
     })
     engine.insert({
       id: 4,
       isAsk: isAsk,
-      amount0: ParseWETH('0.4'),
-      price: ParseUSDC('1450'),
+      amount0: WETH.parse('0.4'),
+      price: USDC.parse('1450'),
     })
   }
 
@@ -67,8 +68,8 @@ describe('core matching engine', () => {
       engine.insert({
         id: 5,
         isAsk: true,
-        amount0: ParseWETH('0.2'),
-        price: ParseUSDC('1425'),
+        amount0: WETH.parse('0.2'),
+        price: USDC.parse('1425'),
       })
       expectOrderBook(engine, [2, 5, 1, 4, 3], [])
     })
@@ -78,8 +79,8 @@ describe('core matching engine', () => {
       engine.insert({
         id: 5,
         isAsk: true,
-        amount0: ParseWETH('0.2'),
-        price: ParseUSDC('1400'),
+        amount0: WETH.parse('0.2'),
+        price: USDC.parse('1400'),
       })
       expectOrderBook(engine, [5, 2, 1, 4, 3], [])
     })
@@ -89,8 +90,8 @@ describe('core matching engine', () => {
       engine.insert({
         id: 5,
         isAsk: true,
-        amount0: ParseWETH('0.2'),
-        price: ParseUSDC('1600'),
+        amount0: WETH.parse('0.2'),
+        price: USDC.parse('1600'),
       })
       expectOrderBook(engine, [2, 1, 4, 3, 5], [])
     })
@@ -130,8 +131,8 @@ describe('core matching engine', () => {
       engine.match({
         id: 5,
         isAsk: false,
-        amount0: ParseWETH('5'),
-        price: ParseUSDC('1400'),
+        amount0: WETH.parse('5'),
+        price: USDC.parse('1400'),
       })
 
       expect(aggregator.swaps.length).to.equal(0)
@@ -144,12 +145,12 @@ describe('core matching engine', () => {
       const remaining = engine.match({
         id: 5,
         isAsk: false,
-        amount0: ParseWETH('5'),
-        price: ParseUSDC('1500'),
+        amount0: WETH.parse('5'),
+        price: USDC.parse('1500'),
       })
 
       expect(aggregator.swaps.length).to.equal(4)
-      expect(remaining.amount0).to.equal(ParseWETH(4))
+      expect(remaining.amount0).to.equal(WETH.parse(4))
       expectOrderBook(engine, [], [])
     })
     it('can match and leave orders partially matched', () => {
@@ -160,34 +161,34 @@ describe('core matching engine', () => {
       const remaining = engine.match({
         id: 5,
         isAsk: false,
-        amount0: ParseWETH('0.4'),
-        price: ParseUSDC('1500'),
+        amount0: WETH.parse('0.4'),
+        price: USDC.parse('1500'),
       })
 
       expect(aggregator.swaps).to.deep.equal([
         {
-          amount0: ParseWETH(0.2),
-          amount1: ParseUSDC(0.2 * 1425),
+          amount0: WETH.parse(0.2),
+          amount1: USDC.parse(0.2 * 1425),
           askID: 2,
           bidID: 5,
         },
         {
-          amount0: ParseWETH(0.1),
-          amount1: ParseUSDC(0.1 * 1450),
+          amount0: WETH.parse(0.1),
+          amount1: USDC.parse(0.1 * 1450),
           askID: 1,
           bidID: 5,
         },
         {
-          amount0: ParseWETH(0.1),
-          amount1: ParseUSDC(0.1 * 1450),
+          amount0: WETH.parse(0.1),
+          amount1: USDC.parse(0.1 * 1450),
           askID: 4,
           bidID: 5,
         },
       ])
 
-      expect(remaining.amount0).to.equal(ParseWETH(0))
+      expect(remaining.amount0).to.equal(WETH.parse(0))
       expectOrderBook(engine, [4, 3], [])
-      expect(engine.ask[0].amount0).to.equal(ParseWETH(0.3))
+      expect(engine.ask[0].amount0).to.equal(WETH.parse(0.3))
     })
     it('stops matching when price is not better', () => {
       const engine = new CoreMatchingEngine()
@@ -197,12 +198,12 @@ describe('core matching engine', () => {
       const remaining = engine.match({
         id: 5,
         isAsk: false,
-        amount0: ParseWETH('0.4'),
-        price: ParseUSDC('1425'),
+        amount0: WETH.parse('0.4'),
+        price: USDC.parse('1425'),
       })
 
       expect(aggregator.swaps.length).to.equal(1)
-      expect(remaining.amount0).to.equal(ParseWETH(0.2))
+      expect(remaining.amount0).to.equal(WETH.parse(0.2))
       expectOrderBook(engine, [1, 4, 3], [])
     })
     it('does not match when price is bad', () => {
@@ -213,13 +214,58 @@ describe('core matching engine', () => {
       const remaining = engine.match({
         id: 5,
         isAsk: false,
-        amount0: ParseWETH('0.4'),
-        price: ParseUSDC('1400'),
+        amount0: WETH.parse('0.4'),
+        price: USDC.parse('1400'),
       })
 
       expect(aggregator.swaps.length).to.equal(0)
-      expect(remaining.amount0).to.equal(ParseWETH(0.4))
+      expect(remaining.amount0).to.equal(WETH.parse(0.4))
       expectOrderBook(engine, [2, 1, 4, 3], [])
     })
+
+    it('stops when a limit order takes exactly all of a maker', () => {
+      const engine = new CoreMatchingEngine()
+      const aggregator = new SwapAggregator(engine)
+      populate(engine, true)
+
+      const remaining = engine.match({id: 5, isAsk: false, amount0: WETH.parse('0.2'), price: USDC.parse('1500')})
+
+      expect(aggregator.swaps).to.deep.equal([{amount0: WETH.parse(0.2), amount1: USDC.parse(285), askID: 2, bidID: 5}])
+      expect(remaining.amount0).to.equal(0)
+      expectOrderBook(engine, [1, 4, 3], [])
+    })
+    it('stops when a token1 swap takes exactly all of a maker', () => {
+      const engine = new CoreMatchingEngine()
+      const aggregator = new SwapAggregator(engine)
+      engine.insert({id: 1, isAsk: false, amount0: WETH.parse('0.001'), price: USDC.parse('1450')})
+      engine.insert({id: 2, isAsk: false, amount0: WETH.parse('1'), price: USDC.parse('1')})
+
+      // amount0 is rounded up to all of bid 1, which pays 1.45 USDC, more than the exact output
+      const remaining = engine.match({id: 0, isAsk: true, amount1: USDC.parse('1.44'), price: BigNumber.from(0)})
+
+      expect(aggregator.swaps).to.deep.equal([
+        {amount0: WETH.parse('0.001'), amount1: USDC.parse('1.45'), askID: 0, bidID: 1},
+      ])
+      expect(remaining.amount1).to.equal(USDC.parse('-0.01'))
+      expectOrderBook(engine, [], [2])
+      expect(engine.bid[0].amount0).to.equal(WETH.parse(1))
+    })
+    it('stops when the rest of a token1 swap does not buy anything', () => {
+      const engine = new CoreMatchingEngine()
+      const aggregator = new SwapAggregator(engine)
+      populate(engine, true)
+
+      // amount0 is rounded down to all of ask 2, the last 0.000001 USDC does not buy anything from ask 1
+      const remaining = engine.match({
+        id: 0,
+        isAsk: false,
+        amount1: USDC.parse('285.000001'),
+        price: BigNumber.from(10).pow(50),
+      })
+
+      expect(aggregator.swaps).to.deep.equal([{amount0: WETH.parse(0.2), amount1: USDC.parse(285), askID: 2, bidID: 0}])
+      expect(remaining.amount1).to.equal(1)
+      expectOrderBook(engine, [1, 4, 3], [])
+    })
   })
 })
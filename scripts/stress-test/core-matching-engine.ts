@@ -1,8 +1,8 @@
 import {BigNumber} from 'ethers'
-import {ParseWETH} from 'test/shared'
+import {OrderBookAmounts, USDC, WETH} from 'test/shared'
 
 export interface TakerOrder {
-  id: number
+  id: number // 0 for swaps, like their Swap events
   isAsk: boolean
   amount0?: BigNumber
   amount1?: BigNumber
@@ -23,23 +23,135 @@ export interface Swap {
   bidID: number
 }
 
+// PriceLevel holds all the orders resting at the same price
+// orders are kept in a Map, which iterates in insertion order, so the level behaves as a FIFO queue
+// while still allowing orders to be removed from the middle of the queue in constant time
+interface PriceLevel {
+  price: BigNumber
+  orders: Map<number, Order>
+}
+
+// BookSide keeps the price levels of one side of the book sorted from the worst to the best price
+// the best level is kept at the end of the array so consumed levels can be popped during matching
+class BookSide {
+  isAsk: boolean
+  levels: PriceLevel[] = []
+  levelByPrice = new Map<string, PriceLevel>()
+
+  constructor(isAsk: boolean) {
+    this.isAsk = isAsk
+  }
+
+  // returns true if price a is strictly better than price b for this side of the book
+  isBetterPrice(a: BigNumber, b: BigNumber) {
+    return this.isAsk ? a.lt(b) : a.gt(b)
+  }
+
+  // binary search for the index of the first level which has a better price than the given price
+  levelIndex(price: BigNumber) {
+    let low = 0
+    let high = this.levels.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (this.isBetterPrice(this.levels[mid].price, price)) {
+        high = mid
+      } else {
+        low = mid + 1
+      }
+    }
+    return low
+  }
+
+  best(): PriceLevel | undefined {
+    return this.levels[this.levels.length - 1]
+  }
+
+  insert(order: Order) {
+    const key = order.price.toString()
+    let level = this.levelByPrice.get(key)
+    if (level == undefined) {
+      level = {price: order.price, orders: new Map<number, Order>()}
+      this.levels.splice(this.levelIndex(order.price), 0, level)
+      this.levelByPrice.set(key, level)
+    }
+    level.orders.set(order.id, order)
+  }
+
+  remove(order: Order) {
+    const key = order.price.toString()
+    const level = this.levelByPrice.get(key)!
+    level.orders.delete(order.id)
+    if (level.orders.size == 0) {
+      // the level with the same price is the one right before the first better level
+      this.levels.splice(this.levelIndex(order.price) - 1, 1)
+      this.levelByPrice.delete(key)
+    }
+  }
+
+  popBest() {
+    const level = this.levels.pop()!
+    this.levelByPrice.delete(level.price.toString())
+  }
+
+  // returns the orders sorted in the same way as the on-chain linked list
+  orders(): Order[] {
+    const orders: Order[] = []
+    for (let index = this.levels.length - 1; index >= 0; index -= 1) {
+      orders.push(...this.levels[index].orders.values())
+    }
+    return orders
+  }
+}
+
 // CoreMatchingEngine keeps track of orders in the OrderBook and performs the matching
 // it does not care about owners and balances, to keep things simple
+// orders are indexed by price level and by id, so insert & cancel do not need to scan the whole book
+// and matching only touches the levels it consumes
 export class CoreMatchingEngine {
-  ask: Order[] = []
-  bid: Order[] = []
+  asks = new BookSide(true)
+  bids = new BookSide(false)
+  orderByID = new Map<number, Order>()
+  // converts amounts & prices to base amounts and computes token1 amounts exactly like the OrderBook does
+  amounts: OrderBookAmounts
   oneAmount0: BigNumber
   sizeTick: BigNumber
+  priceTick: BigNumber
 
   // callback set by user; used to listen to swaps
   onSwapCallback: (swap: Swap) => void = () => {}
 
-  constructor(
-    oneAmount0: BigNumber = ParseWETH(1.0),
-    sizeTick: BigNumber = ParseWETH(1.0).div(BigNumber.from(10).pow(5))
-  ) {
-    this.oneAmount0 = oneAmount0
-    this.sizeTick = sizeTick
+  constructor(amounts = new OrderBookAmounts(WETH, USDC, {sizeTick: WETH.parse('0.00001'), priceTick: 1})) {
+    this.amounts = amounts
+    this.oneAmount0 = amounts.token0.one
+    this.sizeTick = amounts.sizeTick
+    this.priceTick = amounts.priceTick
+  }
+
+  // amount of token1 for the given amount of token0 at the given price, rounded down
+  amount1(amount0: BigNumber, price: BigNumber): BigNumber {
+    return this.amounts.amount1(this.amounts.toAmount0Base(amount0), this.amounts.toPriceBase(price))
+  }
+
+  // amount0 which can be bought (taker bid) or has to be sold (taker ask) for the given amount1 at the given price
+  // mirrors OrderBook.getSwapAmountsForToken1, which rounds up for asks so the taker receives at least amount1
+  amount0ForAmount1(amount1: BigNumber, price: BigNumber, isAsk: boolean): BigNumber {
+    const {priceMultiplier, priceDivider} = this.amounts
+    const priceBase = this.amounts.toPriceBase(price)
+    let amount0Base = amount1.mul(priceDivider).div(priceBase.mul(priceMultiplier))
+    if (isAsk && this.amounts.amount1(amount0Base, priceBase).lt(amount1)) {
+      amount0Base = amount0Base.add(1)
+    }
+    return this.amounts.fromAmount0Base(amount0Base)
+  }
+
+  // ask orders, sorted from the best to the worst price
+  get ask(): Order[] {
+    return this.asks.orders()
+  }
+
+  // bid orders, sorted from the best to the worst price
+  get bid(): Order[] {
+    return this.bids.orders()
   }
 
   onSwap(taker: TakerOrder, maker: Order, amount0: BigNumber, amount1: BigNumber) {
@@ -53,56 +165,26 @@ export class CoreMatchingEngine {
     this.onSwapCallback(swap)
   }
 
-  isBetter(newOrder: TakerOrder, inBook: Order) {
-    if (newOrder.isAsk) {
-      return newOrder.price.lt(inBook.price)
-    } else {
-      return newOrder.price.gt(inBook.price)
-    }
-  }
-
   insert(newOrder: Order) {
-    const isAsk = newOrder.isAsk
-    let index = 0
-    let arr = isAsk ? this.ask : this.bid
-    for (; index < arr.length; index += 1) {
-      if (this.isBetter(newOrder, arr[index])) {
-        break
-      }
-    }
-    const newArr = [...arr.slice(0, index), newOrder, ...arr.slice(index)]
-    if (isAsk) {
-      this.ask = newArr
-    } else {
-      this.bid = newArr
-    }
+    const side = newOrder.isAsk ? this.asks : this.bids
+    side.insert(newOrder)
+    this.orderByID.set(newOrder.id, newOrder)
   }
 
   cancel(id: number): Order | null {
-    for (let arrIndex = 0; arrIndex < 2; arrIndex += 1) {
-      const arr = [this.ask, this.bid][arrIndex]
-
-      for (let index = 0; index < arr.length; index += 1) {
-        const order = arr[index]
-        if (order.id != id) {
-          continue
-        }
-
-        const newArr = [...arr.slice(0, index), ...arr.slice(index + 1)]
-        if (arrIndex == 0) {
-          this.ask = newArr
-        } else {
-          this.bid = newArr
-        }
-
-        return order
-      }
+    const order = this.orderByID.get(id)
+    if (order == undefined) {
+      return null
     }
 
-    return null
+    const side = order.isAsk ? this.asks : this.bids
+    side.remove(order)
+    this.orderByID.delete(id)
+
+    return order
   }
 
-  canMatch(taker: TakerOrder, maker: Order) {
+  canMatch(taker: TakerOrder, maker: {price: BigNumber}) {
     if (taker.isAsk) {
       return taker.price.lte(maker.price)
     } else {
@@ -115,59 +197,128 @@ export class CoreMatchingEngine {
     if (taker.amount0 != undefined) {
       amount0 = taker.amount0!
     } else {
-      let roundUp = taker.isAsk
-      amount0 = taker.amount1!.mul(this.oneAmount0)
-      if (roundUp) {
-        amount0 = amount0.add(maker.price.mul(this.sizeTick)).sub(1)
-      }
-      amount0 = amount0.div(maker.price).div(this.sizeTick).mul(this.sizeTick)
+      amount0 = this.amount0ForAmount1(taker.amount1!, maker.price, taker.isAsk)
     }
 
+    // like getSwapAmountsForToken0/1, the taker is filled by a maker which has enough amount0, even if it takes all of it
+    const fullTakerFill = amount0.lte(maker.amount0)
     let allOfMaker = false
     if (amount0.gte(maker.amount0)) {
       amount0 = maker.amount0
       allOfMaker = true
     }
 
-    let amount1 = maker.price.mul(amount0).div(this.oneAmount0)
-    return {amount0, amount1, allOfMaker}
+    let amount1 = this.amount1(amount0, maker.price)
+    return {amount0, amount1, allOfMaker, fullTakerFill}
   }
 
-  match(taker: TakerOrder) {
-    const isAsk = taker.isAsk
-    let arr = isAsk ? this.bid : this.ask
+  // the taker has nothing left to match, the remaining amount1 is negative if an ask received more than it asked for
+  isFilled(taker: TakerOrder) {
+    return (taker.amount0 != undefined && taker.amount0.lte(0)) || (taker.amount1 != undefined && taker.amount1.lte(0))
+  }
+
+  // returns the amount0 the taker would fill if matched now, without touching the book
+  // used to predict if a Fill or Kill order gets killed
+  fillableAmount0(taker: TakerOrder): BigNumber {
+    const side = taker.isAsk ? this.bids : this.asks
+    let filled = BigNumber.from(0)
 
-    let index = 0
-    for (; index < arr.length; index += 1) {
-      const maker = arr[index]
-      if (!this.canMatch(taker, arr[index])) {
+    for (let index = side.levels.length - 1; index >= 0; index -= 1) {
+      const level = side.levels[index]
+      if (!this.canMatch(taker, level)) {
         break
       }
+      for (const maker of level.orders.values()) {
+        filled = filled.add(maker.amount0)
+        if (filled.gte(taker.amount0!)) {
+          return taker.amount0!
+        }
+      }
+    }
 
-      let {amount0, amount1, allOfMaker} = this.getSwapSizes(taker, maker)
+    return filled
+  }
 
-      // call callback before updating orders
-      this.onSwap(taker, maker, amount0, amount1)
+  // returns the amounts the taker would fill if matched now, without touching the book
+  // used to predict if a performance order has enough claimable balance
+  filledAmounts(taker: TakerOrder): {amount0: BigNumber; amount1: BigNumber} {
+    const side = taker.isAsk ? this.bids : this.asks
+    const remaining = {...taker}
+    const filled = {amount0: BigNumber.from(0), amount1: BigNumber.from(0)}
 
-      // update orders
-      if (taker.amount0) {
-        taker.amount0 = taker.amount0.sub(amount0)
+    for (let index = side.levels.length - 1; index >= 0; index -= 1) {
+      const level = side.levels[index]
+      if (!this.canMatch(taker, level)) {
+        break
       }
-      if (taker.amount1) {
-        taker.amount1 = taker.amount1.sub(amount1)
+      for (const maker of level.orders.values()) {
+        const {amount0, amount1, allOfMaker, fullTakerFill} = this.getSwapSizes(remaining, maker)
+        filled.amount0 = filled.amount0.add(amount0)
+        filled.amount1 = filled.amount1.add(amount1)
+        remaining.amount0 = remaining.amount0!.sub(amount0)
+        if (!allOfMaker || fullTakerFill) {
+          return filled
+        }
       }
+    }
 
-      if (!allOfMaker) {
-        arr[index].amount0 = arr[index].amount0!.sub(amount0)
+    return filled
+  }
+
+  match(taker: TakerOrder) {
+    const side = taker.isAsk ? this.bids : this.asks
+
+    for (let level = side.best(); level != undefined; level = side.best()) {
+      if (!this.canMatch(taker, level)) {
         break
       }
-    }
 
-    // store changes
-    if (!isAsk) {
-      this.ask = arr.slice(index)
-    } else {
-      this.bid = arr.slice(index)
+      let done = false
+      for (const maker of level.orders.values()) {
+        if (this.isFilled(taker)) {
+          done = true
+          break
+        }
+        let {amount0, amount1, allOfMaker, fullTakerFill} = this.getSwapSizes(taker, maker)
+        // the order book stops at the first swap of nothing, the next makers would not swap anything either
+        if (amount0.eq(0) || (taker.id == 0 && amount1.eq(0))) {
+          done = true
+          break
+        }
+
+        // call callback before updating orders
+        this.onSwap(taker, maker, amount0, amount1)
+
+        // update orders
+        if (taker.amount0) {
+          taker.amount0 = taker.amount0.sub(amount0)
+        }
+        if (taker.amount1) {
+          taker.amount1 = taker.amount1.sub(amount1)
+        }
+
+        if (!allOfMaker) {
+          maker.amount0 = maker.amount0.sub(amount0)
+          done = true
+          break
+        }
+
+        level.orders.delete(maker.id)
+        this.orderByID.delete(maker.id)
+
+        // swaps stop once filled, even with amount1 left over by rounding, see _matchSwapOrder
+        if (fullTakerFill) {
+          done = true
+          break
+        }
+      }
+
+      if (level.orders.size == 0) {
+        side.popBest()
+      }
+      if (done) {
+        break
+      }
     }
 
     return taker
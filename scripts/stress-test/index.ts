@@ -1,9 +1,43 @@
-import {main} from './stress-tester'
+import 'tsconfig-paths/register'
+import {parseArgs, usage} from './config'
 
-main()
-  .then(() => {
+async function run(): Promise<number> {
+  const config = parseArgs(process.argv.slice(2))
+  if (config == null) {
+    console.log(usage)
+    return 0
+  }
+
+  // the tester is loaded only after parsing the arguments, as loading test/shared parses them too (jest snapshots)
+  const {main, replay} = await import('./stress-tester')
+  const {shrink} = await import('./shrinker')
+  const {randomSeed} = await import('./random')
+
+  if (config.quiet) {
+    console.debug = () => {}
+  }
+
+  if (config.replay != null) {
+    await replay(config.replay)
+    return 0
+  }
+  if (config.shrink != null) {
+    await shrink(config.shrink)
+    return 0
+  }
+
+  const failures = await main(config, config.seed != null ? config.seed : randomSeed())
+  console.log(`${failures} failed runs`)
+  return failures
+}
+
+run()
+  .then((failures) => {
     console.log('done')
+    // non zero exit code, so CI fails when any of the runs failed
+    process.exitCode = failures > 0 ? 1 : 0
   })
   .catch((err) => {
     console.error(`failed with error ${err}`)
+    process.exitCode = 1
   })
@@ -0,0 +1,197 @@
+import {BigNumber} from 'ethers'
+import {expect, OrderType, USDC, WETH} from 'test/shared'
+import {CoreMatchingEngine} from './core-matching-engine'
+import {JSMatching, Wallets} from './js-matching'
+
+describe('js matching', () => {
+  const maker = '0x0000000000000000000000000000000000000001'
+  const taker = '0x0000000000000000000000000000000000000002'
+
+  // creates 2 asks; id 2 for 1 WETH at 1450 and id 3 for 1 WETH at 1500
+  function setup() {
+    const js = new JSMatching(new CoreMatchingEngine())
+    js.ensureUser(maker)
+    js.ensureUser(taker)
+    js.createLimitOrder(maker, true, WETH.parse(1), USDC.parse(1450))
+    js.createLimitOrder(maker, true, WETH.parse(1), USDC.parse(1500))
+    return js
+  }
+
+  describe('FoK orders', () => {
+    it('are killed if they can not be fully filled', () => {
+      const js = setup()
+
+      expect(js.createFoKOrder(taker, false, WETH.parse(2.5), USDC.parse(1500))).to.be.false
+
+      expect(js.activeAsks()).to.deep.equal([2, 3])
+      expect(js.token0Balance(taker)).to.equal(0)
+      expect(js.numSwapsDone).to.equal(0)
+      // the killed order does not use an order id
+      expect(js.nextID).to.equal(4)
+    })
+    it('are killed if price is not good enough', () => {
+      const js = setup()
+
+      expect(js.createOrder(taker, false, WETH.parse(1.5), USDC.parse(1450), OrderType.FoKOrder)).to.be.null
+      expect(js.activeAsks()).to.deep.equal([2, 3])
+    })
+    it('are filled', () => {
+      const js = setup()
+
+      expect(js.createFoKOrder(taker, false, WETH.parse(1.5), USDC.parse(1500))).to.be.true
+
+      expect(js.activeAsks()).to.deep.equal([3])
+      expect(js.token0Balance(taker)).to.equal(WETH.parse(1.5))
+      expect(js.token1Balance(taker)).to.equal(USDC.parse(-1450 - 0.5 * 1500))
+      expect(js.nextID).to.equal(5)
+    })
+  })
+
+  describe('IoC orders', () => {
+    it('discard the remaining amount', () => {
+      const js = setup()
+
+      expect(js.createIoCOrder(taker, false, WETH.parse(3), USDC.parse(1500))).to.equal(WETH.parse(2))
+
+      expect(js.activeAsks()).to.deep.equal([])
+      expect(js.activeBids()).to.deep.equal([])
+      expect(js.token0Balance(taker)).to.equal(WETH.parse(2))
+      expect(js.OrderBookToken1()).to.equal(0)
+    })
+  })
+
+  describe('performance orders', () => {
+    it('are paid from claimable balance when resting', () => {
+      const js = setup()
+      js.deposit(taker, false, USDC.parse(1400))
+
+      js.createPerformanceLimitOrder(taker, false, WETH.parse(1), USDC.parse(1400))
+
+      expect(js.claimable_token1.get(taker)).to.equal(0)
+      expect(js.walletBalance(taker, false)).to.equal(USDC.parse(-1400))
+      expect(js.OrderBookToken1()).to.equal(USDC.parse(1400))
+
+      js.cancelLimitOrder(4)
+      expect(js.claimable_token1.get(taker)).to.equal(USDC.parse(1400))
+      expect(js.OrderBookToken1()).to.equal(0)
+    })
+    it('settle against claimable balances when taking', () => {
+      const js = setup()
+      js.deposit(taker, false, USDC.parse(1450))
+
+      js.createPerformanceLimitOrder(taker, false, WETH.parse(1), USDC.parse(1450))
+
+      expect(js.claimable_token0.get(taker)).to.equal(WETH.parse(1))
+      expect(js.claimable_token1.get(taker)).to.equal(0)
+      expect(js.walletBalance(taker, true)).to.equal(0)
+      expect(js.walletBalance(taker, false)).to.equal(USDC.parse(-1450))
+      // maker is not a performance order, so it gets paid into the wallet
+      expect(js.walletBalance(maker, false)).to.equal(USDC.parse(1450))
+    })
+    it('pay makers into claimable balance', () => {
+      const js = new JSMatching(new CoreMatchingEngine())
+      js.deposit(maker, true, WETH.parse(1))
+      js.createPerformanceLimitOrder(maker, true, WETH.parse(1), USDC.parse(1450))
+      js.createLimitOrder(taker, false, WETH.parse(1), USDC.parse(1450))
+
+      expect(js.claimable_token1.get(maker)).to.equal(USDC.parse(1450))
+      expect(js.claimable_token0.get(maker)).to.equal(0)
+      expect(js.walletBalance(maker, false)).to.equal(BigNumber.from(0))
+      expect(js.walletBalance(taker, true)).to.equal(WETH.parse(1))
+    })
+    it('are reverted if the claimable balance does not cover the filled and the locked amount', () => {
+      const js = setup()
+      js.deposit(taker, false, USDC.parse(2000))
+
+      // fills 1 WETH at 1450 and locks 0.5 WETH at 1460
+      expect(js.createOrder(taker, false, WETH.parse(1.5), USDC.parse(1460), OrderType.PerformanceLimitOrder)).to.be
+        .null
+      expect(js.activeAsks()).to.deep.equal([2, 3])
+      expect(js.nextID).to.equal(4)
+
+      js.deposit(taker, false, USDC.parse(180))
+      expect(js.createOrder(taker, false, WETH.parse(1.5), USDC.parse(1460), OrderType.PerformanceLimitOrder)).to.equal(
+        WETH.parse(1)
+      )
+      expect(js.claimable_token1.get(taker)).to.equal(0)
+    })
+  })
+
+  describe('claims', () => {
+    it('are reverted for 0 or more than the claimable balance', () => {
+      const js = setup()
+      js.deposit(taker, true, WETH.parse(1))
+
+      expect(js.claim(taker, true, BigNumber.from(0))).to.be.false
+      expect(js.claim(taker, true, WETH.parse(1).add(1))).to.be.false
+      expect(js.claim(taker, true, WETH.parse(0.4))).to.be.true
+
+      expect(js.claimableBalance(taker, true)).to.equal(WETH.parse(0.6))
+      expect(js.walletBalance(taker, true)).to.equal(WETH.parse(-0.6))
+    })
+    it('claim all is reverted if any of the claimable balances is 0', () => {
+      const js = setup()
+      js.deposit(taker, true, WETH.parse(1))
+      expect(js.claimAll(taker)).to.be.false
+
+      js.deposit(taker, false, USDC.parse(1))
+      expect(js.claimAll(taker)).to.be.true
+      expect(js.claimableBalance(taker, true)).to.equal(0)
+      expect(js.claimableBalance(taker, false)).to.equal(0)
+      expect(js.walletBalance(taker, true)).to.equal(0)
+    })
+  })
+
+  describe('bid rounding', () => {
+    // every 0.00001 WETH costs 10.4 USDC base units, which are rounded down separately for every payment
+    const price = USDC.parse(1.04)
+
+    function setupBid() {
+      const js = new JSMatching(new CoreMatchingEngine())
+      js.createLimitOrder(maker, false, WETH.parse('0.00003'), price)
+      expect(js.locked_token1.get(maker)).to.equal(31)
+      return js
+    }
+
+    it('leaves dust when a partially filled bid is canceled', () => {
+      const js = setupBid()
+      js.createLimitOrder(taker, true, WETH.parse('0.00001'), price)
+      expect(js.walletBalance(taker, false)).to.equal(10)
+
+      js.cancelLimitOrder(2)
+      expect(js.walletBalance(maker, false)).to.equal(-11)
+      expect(js.locked_token1.get(maker)).to.equal(0)
+      expect(js.dust_token1).to.equal(1)
+      expect(js.OrderBookToken1()).to.equal(1)
+    })
+    it('leaves dust when a bid is filled in multiple swaps', () => {
+      const js = setupBid()
+      for (let i = 0; i < 3; i += 1) {
+        js.createLimitOrder(taker, true, WETH.parse('0.00001'), price)
+      }
+
+      expect(js.activeBids()).to.deep.equal([])
+      expect(js.walletBalance(taker, false)).to.equal(30)
+      expect(js.locked_token1.get(maker)).to.equal(0)
+      expect(js.dust_token1).to.equal(1)
+    })
+  })
+
+  describe('multiple order books', () => {
+    it('share wallet balances of the same token', () => {
+      const wallets = new Wallets()
+      const weth = new JSMatching(new CoreMatchingEngine(), 'weth', 'usdc', wallets)
+      const wbtc = new JSMatching(new CoreMatchingEngine(), 'wbtc', 'usdc', wallets)
+
+      weth.createLimitOrder(maker, true, WETH.parse(1), USDC.parse(1450))
+      weth.createLimitOrder(taker, false, WETH.parse(1), USDC.parse(1450))
+      wbtc.createLimitOrder(taker, true, WETH.parse(1), USDC.parse(1000))
+      wbtc.createLimitOrder(maker, false, WETH.parse(1), USDC.parse(1000))
+
+      expect(weth.walletBalance(maker, false)).to.equal(USDC.parse(450))
+      expect(wbtc.walletBalance(maker, false)).to.equal(USDC.parse(450))
+      expect(weth.walletBalance(maker, true)).to.equal(WETH.parse(-1))
+      expect(wbtc.walletBalance(maker, true)).to.equal(WETH.parse(1))
+    })
+  })
+})
@@ -1,33 +1,141 @@
 import {BigNumber} from 'ethers'
+import {OrderType} from 'test/shared'
 import {CoreMatchingEngine, Order, Swap} from './core-matching-engine'
 
-// JSMatching extends CoreMatchingEngine by adding balance & keeping track of IDs
+// Wallets keeps the token balances of the users' smart wallets, keyed by token address
+// tokens can be shared by multiple order books (e.g. USDC), so a single instance is used by the JSMatching of every book
+export class Wallets {
+  balances = new Map<string, Map<string, BigNumber>>()
+
+  ensureUser(token: string, owner: string) {
+    if (!this.balances.has(token)) {
+      this.balances.set(token, new Map<string, BigNumber>())
+    }
+    const balances = this.balances.get(token)!
+    if (!balances.has(owner)) {
+      balances.set(owner, BigNumber.from(0))
+    }
+  }
+
+  balance(token: string, owner: string): BigNumber {
+    return this.balances.get(token)!.get(owner)!
+  }
+
+  update(token: string, owner: string, delta: BigNumber) {
+    const balances = this.balances.get(token)!
+    balances.set(owner, balances.get(owner)!.add(delta))
+  }
+}
+
+// JSMatching extends CoreMatchingEngine by adding balance & keeping track of IDs for a single order book
+// wallet balances and claimable balances (tokens owned by the user but kept in the OrderBook) are tracked separately;
+// wallet balances are shared with the other order books while claimable balances belong to this order book
+// performance orders are paid from and pay into claimable balances, every other order uses wallet balances
+// every bid locks its token1 rounded down once and every payment is rounded down again, the difference (dust) stays
+// in the OrderBook forever; it's tracked separately from the locked balances once the bid is filled or canceled
 export class JSMatching {
   nextID = 2
-  weth = new Map<string, BigNumber>()
-  usdc = new Map<string, BigNumber>()
-  locked_weth = new Map<string, BigNumber>()
-  locked_usdc = new Map<string, BigNumber>()
+  token0: string
+  token1: string
+  wallets: Wallets
+  claimable_token0 = new Map<string, BigNumber>()
+  claimable_token1 = new Map<string, BigNumber>()
+  locked_token0 = new Map<string, BigNumber>()
+  locked_token1 = new Map<string, BigNumber>()
   orderIDToOwner = new Map<number, string>()
+  performanceOrders = new Set<number>()
+  lockedAmount1 = new Map<number, BigNumber>() // token1 locked by every resting bid
+  dust_token1 = BigNumber.from(0)
   engine: CoreMatchingEngine
   numSwapsDone = 0
 
-  constructor(engine: CoreMatchingEngine) {
+  constructor(engine: CoreMatchingEngine, token0 = 'token0', token1 = 'token1', wallets = new Wallets()) {
     this.engine = engine
     this.engine.onSwapCallback = this.onSwapCallback.bind(this)
+    this.token0 = token0
+    this.token1 = token1
+    this.wallets = wallets
   }
 
   ensureUser(owner: string) {
-    const tokens = [this.weth, this.usdc, this.locked_usdc, this.locked_weth]
-    for (const token of tokens) {
-      const amount = token.get(owner) || BigNumber.from(0)
-      token.set(owner, amount.add(0))
+    this.wallets.ensureUser(this.token0, owner)
+    this.wallets.ensureUser(this.token1, owner)
+    const balances = [this.claimable_token0, this.claimable_token1, this.locked_token0, this.locked_token1]
+    for (const balance of balances) {
+      const amount = balance.get(owner) || BigNumber.from(0)
+      balance.set(owner, amount.add(0))
+    }
+  }
+
+  updateBalance(balances: Map<string, BigNumber>, owner: string, delta: BigNumber) {
+    balances.set(owner, balances.get(owner)!.add(delta))
+  }
+
+  // performance orders are paid from and pay into the claimable balance, every other order uses the wallet
+  updateToken0(owner: string, delta: BigNumber, isPerformance: boolean) {
+    if (isPerformance) {
+      this.updateBalance(this.claimable_token0, owner, delta)
+    } else {
+      this.wallets.update(this.token0, owner, delta)
+    }
+  }
+
+  updateToken1(owner: string, delta: BigNumber, isPerformance: boolean) {
+    if (isPerformance) {
+      this.updateBalance(this.claimable_token1, owner, delta)
+    } else {
+      this.wallets.update(this.token1, owner, delta)
     }
   }
 
   createLimitOrder(owner: string, isAsk: boolean, amount0: BigNumber, price: BigNumber): void {
+    this.createOrder(owner, isAsk, amount0, price, OrderType.LimitOrder)
+  }
+
+  createPerformanceLimitOrder(owner: string, isAsk: boolean, amount0: BigNumber, price: BigNumber): void {
+    this.createOrder(owner, isAsk, amount0, price, OrderType.PerformanceLimitOrder)
+  }
+
+  // returns false if the order gets killed
+  createFoKOrder(owner: string, isAsk: boolean, amount0: BigNumber, price: BigNumber): boolean {
+    return this.createOrder(owner, isAsk, amount0, price, OrderType.FoKOrder) != null
+  }
+
+  // returns the filled amount0
+  createIoCOrder(owner: string, isAsk: boolean, amount0: BigNumber, price: BigNumber): BigNumber {
+    return this.createOrder(owner, isAsk, amount0, price, OrderType.IoCOrder)!
+  }
+
+  // createOrder mirrors IOrderBook.createOrder and returns the amount0 filled by matching against the book
+  // returns null if the order gets reverted, which happens for Fill or Kill orders which can not be fully filled
+  // (LighterV2Order_FoKNotFilled) and for performance orders without enough claimable balance
+  // (LighterV2Order_InsufficientClaimableBalance); in that case the state is not changed and the order id is not used
+  createOrder(
+    owner: string,
+    isAsk: boolean,
+    amount0: BigNumber,
+    price: BigNumber,
+    orderType: OrderType
+  ): BigNumber | null {
     this.ensureUser(owner)
+
+    if (orderType == OrderType.FoKOrder) {
+      const fillable = this.engine.fillableAmount0({id: this.nextID, isAsk, amount0, price})
+      if (fillable.lt(amount0)) {
+        return null
+      }
+    }
+
+    if (orderType == OrderType.PerformanceLimitOrder && !this.hasClaimableFor(owner, isAsk, amount0, price)) {
+      return null
+    }
+
     this.orderIDToOwner.set(this.nextID, owner)
+    const isPerformance = orderType == OrderType.PerformanceLimitOrder
+    if (isPerformance) {
+      this.performanceOrders.add(this.nextID)
+    }
+
     const order = {
       id: this.nextID++,
       isAsk,
@@ -36,20 +144,36 @@ export class JSMatching {
     }
 
     const remaining = this.engine.match(order) as Order
+    const filledAmount0 = amount0.sub(remaining.amount0)
+
+    // the unmatched part of FoK & IoC orders is discarded
+    if (orderType == OrderType.FoKOrder || orderType == OrderType.IoCOrder) {
+      return filledAmount0
+    }
 
     if (remaining.amount0.gt(0)) {
       this.engine.insert(remaining)
       // lock funds in OrderBook
       if (remaining.isAsk) {
-        this.weth.set(owner, this.weth.get(owner)!.sub(remaining.amount0))
-        this.locked_weth.set(owner, this.locked_weth.get(owner)!.add(remaining.amount0))
+        this.updateToken0(owner, remaining.amount0.mul(-1), isPerformance)
+        this.updateBalance(this.locked_token0, owner, remaining.amount0)
       } else {
-        const amount1 = remaining.price.mul(remaining.amount0).div(this.engine.oneAmount0)
-        this.usdc.set(owner, this.usdc.get(owner)!.sub(amount1))
-        this.locked_usdc.set(owner, this.locked_usdc.get(owner)!.add(amount1))
+        const amount1 = this.engine.amount1(remaining.amount0, remaining.price)
+        this.updateToken1(owner, amount1.mul(-1), isPerformance)
+        this.updateBalance(this.locked_token1, owner, amount1)
+        this.lockedAmount1.set(remaining.id, amount1)
       }
     }
-    return
+    return filledAmount0
+  }
+
+  // performance orders are paid from the claimable balance in one go, after matching and before the makers are paid
+  // so the claimable balance has to cover both the filled and the locked amount
+  hasClaimableFor(owner: string, isAsk: boolean, amount0: BigNumber, price: BigNumber): boolean {
+    const filled = this.engine.filledAmounts({id: this.nextID, isAsk, amount0, price})
+    const remaining = amount0.sub(filled.amount0)
+    const debit = isAsk ? amount0 : filled.amount1.add(this.engine.amount1(remaining, price))
+    return this.claimableBalance(owner, isAsk).gte(debit)
   }
 
   cancelLimitOrder(id: number): void {
@@ -58,15 +182,61 @@ export class JSMatching {
       return
     }
     const owner = this.orderIDToOwner.get(order.id)!
+    const isPerformance = this.performanceOrders.has(order.id)
 
+    // performance orders are refunded to the claimable balance
     if (order.isAsk) {
-      this.locked_weth.set(owner, this.locked_weth.get(owner)!.sub(order.amount0))
-      this.weth.set(owner, this.weth.get(owner)!.add(order.amount0))
+      this.updateBalance(this.locked_token0, owner, order.amount0.mul(-1))
+      this.updateToken0(owner, order.amount0, isPerformance)
     } else {
-      const amount1 = order.price.mul(order.amount0).div(this.engine.oneAmount0)
-      this.locked_usdc.set(owner, this.locked_usdc.get(owner)!.sub(amount1))
-      this.usdc.set(owner, this.usdc.get(owner)!.add(amount1))
+      const amount1 = this.engine.amount1(order.amount0, order.price)
+      this.updateBalance(this.locked_token1, owner, amount1.mul(-1))
+      this.updateToken1(owner, amount1, isPerformance)
+      this.releaseDust(order.id, amount1)
+    }
+  }
+
+  // the bid is not in the book anymore, whatever is left locked after the last payment is dust
+  releaseDust(id: number, lastPayment: BigNumber) {
+    const dust = this.lockedAmount1.get(id)!.sub(lastPayment)
+    this.lockedAmount1.delete(id)
+    this.updateBalance(this.locked_token1, this.orderIDToOwner.get(id)!, dust.mul(-1))
+    this.dust_token1 = this.dust_token1.add(dust)
+  }
+
+  deposit(owner: string, isToken0: boolean, amount: BigNumber): void {
+    this.ensureUser(owner)
+    const token = isToken0 ? this.token0 : this.token1
+    this.wallets.update(token, owner, amount.mul(-1))
+    this.updateBalance(isToken0 ? this.claimable_token0 : this.claimable_token1, owner, amount)
+  }
+
+  // returns false if the claim gets reverted (LighterV2Vault_InvalidClaimAmount), which happens when the amount is 0
+  // or bigger than the claimable balance
+  claim(owner: string, isToken0: boolean, amount: BigNumber): boolean {
+    this.ensureUser(owner)
+    const claimable = this.claimableBalance(owner, isToken0)
+    if (amount.eq(0) || amount.gt(claimable)) {
+      return false
+    }
+    const token = isToken0 ? this.token0 : this.token1
+    this.wallets.update(token, owner, amount)
+    this.updateBalance(isToken0 ? this.claimable_token0 : this.claimable_token1, owner, amount.mul(-1))
+    return true
+  }
+
+  // mirrors SmartWallet.claimAll, which claims both tokens in the same transaction
+  // so it gets reverted if any of the claimable balances is 0
+  claimAll(owner: string): boolean {
+    this.ensureUser(owner)
+    const claimable0 = this.claimableBalance(owner, true)
+    const claimable1 = this.claimableBalance(owner, false)
+    if (claimable0.eq(0) || claimable1.eq(0)) {
+      return false
     }
+    this.claim(owner, true, claimable0)
+    this.claim(owner, false, claimable1)
+    return true
   }
 
   swapExact(owner: string, isExactInput: boolean, isAsk: boolean, amount: BigNumber): void {
@@ -90,42 +260,63 @@ export class JSMatching {
 
     const askOwner = this.orderIDToOwner.get(swap.askID)!
     const bidOwner = this.orderIDToOwner.get(swap.bidID)!
+    const askPerformance = this.performanceOrders.has(swap.askID)
+    const bidPerformance = this.performanceOrders.has(swap.bidID)
 
-    this.weth.set(bidOwner, this.weth.get(bidOwner)!.add(swap.amount0))
-    this.usdc.set(askOwner, this.usdc.get(askOwner)!.add(swap.amount1))
+    this.updateToken0(bidOwner, swap.amount0, bidPerformance)
+    this.updateToken1(askOwner, swap.amount1, askPerformance)
 
     // ask is taker
     if ((swap.askID > swap.bidID || swap.askID == 0) && swap.bidID != 0) {
-      this.weth.set(askOwner, this.weth.get(askOwner)!.sub(swap.amount0))
-      this.locked_usdc.set(bidOwner, this.locked_usdc.get(bidOwner)!.sub(swap.amount1))
+      this.updateToken0(askOwner, swap.amount0.mul(-1), askPerformance)
+      this.updateBalance(this.locked_token1, bidOwner, swap.amount1.mul(-1))
+
+      // callback is called before the maker order is updated
+      const maker = this.engine.orderByID.get(swap.bidID)!
+      if (maker.amount0.eq(swap.amount0)) {
+        this.releaseDust(swap.bidID, swap.amount1)
+      } else {
+        this.lockedAmount1.set(swap.bidID, this.lockedAmount1.get(swap.bidID)!.sub(swap.amount1))
+      }
     } else {
-      this.locked_weth.set(askOwner, this.locked_weth.get(askOwner)!.sub(swap.amount0))
-      this.usdc.set(bidOwner, this.usdc.get(bidOwner)!.sub(swap.amount1))
+      this.updateBalance(this.locked_token0, askOwner, swap.amount0.mul(-1))
+      this.updateToken1(bidOwner, swap.amount1.mul(-1), bidPerformance)
     }
   }
 
-  wethBalance(address: string): BigNumber {
-    return this.weth.get(address)!
+  walletBalance(address: string, isToken0: boolean): BigNumber {
+    return this.wallets.balance(isToken0 ? this.token0 : this.token1, address)
+  }
+
+  claimableBalance(address: string, isToken0: boolean): BigNumber {
+    return (isToken0 ? this.claimable_token0 : this.claimable_token1).get(address)!
+  }
+
+  // total token0 owned by the user, both in the wallet and claimable from the OrderBook
+  token0Balance(address: string): BigNumber {
+    return this.walletBalance(address, true).add(this.claimableBalance(address, true))
   }
 
-  usdcBalance(address: string): BigNumber {
-    return this.usdc.get(address)!
+  // total token1 owned by the user, both in the wallet and claimable from the OrderBook
+  token1Balance(address: string): BigNumber {
+    return this.walletBalance(address, false).add(this.claimableBalance(address, false))
   }
 
-  OrderBookWETH(): BigNumber {
-    let jsOBWETH = BigNumber.from(0)
-    this.locked_weth.forEach((amount) => {
-      jsOBWETH = jsOBWETH.add(amount)
+  OrderBookToken0(): BigNumber {
+    let jsOBToken0 = BigNumber.from(0)
+    this.locked_token0.forEach((amount) => {
+      jsOBToken0 = jsOBToken0.add(amount)
     })
-    return jsOBWETH
+    return jsOBToken0
   }
 
-  OrderBookUSDC(): BigNumber {
-    let jsOBUSDC = BigNumber.from(0)
-    this.locked_usdc.forEach((amount) => {
-      jsOBUSDC = jsOBUSDC.add(amount)
+  // token1 in the OrderBook, both locked by bids and dust
+  OrderBookToken1(): BigNumber {
+    let jsOBToken1 = this.dust_token1
+    this.locked_token1.forEach((amount) => {
+      jsOBToken1 = jsOBToken1.add(amount)
     })
-    return jsOBUSDC
+    return jsOBToken1
   }
 
   activeAsks(): number[] {
@@ -16,7 +16,7 @@ export async function deployRouter(factoryAddress: string): Promise<Quoter | nul
   }
 }
 
-export async function deployContracts() {
+export async function deployContracts(userCount = 10) {
   const [owner] = await ethers.getSigners()
 
   const token_weth = await deployToken('WETH', 'WETH', 18)
@@ -40,7 +40,7 @@ export async function deployContracts() {
 
   // deploy smart wallets
   let users = []
-  for (let i = 0; i < 10; i += 1) {
+  for (let i = 0; i < userCount; i += 1) {
     let smartWallet = await deploySmartWallet(factory)
     users.push(smartWallet.address)
   }
@@ -1,9 +1,19 @@
 import {OrderBook, SmartWallet, TestERC20Token} from 'typechain-types'
 import {ethers} from 'hardhat'
 import {BigNumber, BigNumberish} from 'ethers'
+import {
+  getAllOrders,
+  isLighterError,
+  OrderBookAmounts,
+  OrderType,
+  paginatedOrders,
+  planHintIds,
+  readBookSnapshot,
+} from 'test/shared'
 
 // A subset of the quoter interface is defined here so the OnChainMatching does not depend directly on the periphery
-// contracts. The Router (which provides the quote functionality) can be plugged in as this simple quoter interface.
+// contracts. The Router (which provides the quote functionality) can be plugged in as this simple quoter interface,
+// otherwise the BookQuoter quotes off-chain from a snapshot of the book.
 export interface Quoter {
   getQuoteForExactInput(
     orderBookId: BigNumberish,
@@ -24,27 +34,56 @@ export interface Quoter {
   }>
 }
 
+// OnChainWallets funds the users' smart wallets; tokens shared by multiple order books are minted only once
+// balances are reported relative to the initial funding, so they can be compared with the JS model
+export class OnChainWallets {
+  wallets = new Map<string, SmartWallet>()
+  minted = new Set<string>()
+
+  initialBalance = BigNumber.from(2).pow(250)
+
+  async ensureUser(token: TestERC20Token, address: string) {
+    if (!this.wallets.has(address)) {
+      this.wallets.set(address, (await ethers.getContractAt('SmartWallet', address)) as SmartWallet)
+    }
+
+    const key = `${token.address}/${address}`
+    if (this.minted.has(key)) {
+      return
+    }
+    this.minted.add(key)
+    await token.mint(address, this.initialBalance)
+  }
+
+  wallet(address: string): SmartWallet {
+    return this.wallets.get(address)!
+  }
+
+  async balance(token: TestERC20Token, address: string): Promise<BigNumber> {
+    return (await token.balanceOf(address)).sub(this.initialBalance)
+  }
+}
+
 export class OnChainMatching {
   orderBook: OrderBook
   orderBookId: Promise<number>
-  amountDivider: Promise<BigNumber>
-  priceDivider: Promise<BigNumber>
-  weth: TestERC20Token
-  usdc: TestERC20Token
+  amounts: Promise<OrderBookAmounts>
+  token0: TestERC20Token
+  token1: TestERC20Token
+  wallets: OnChainWallets
   ensured = new Set<string>()
-  wallets = new Map<string, SmartWallet>()
   quoter?: Quoter
+  // number of orders read with every getPaginatedOrders call
+  pageSize = 25
 
-  initialBalance = BigNumber.from(2).pow(250)
-
-  constructor(orderBook: OrderBook, weth: TestERC20Token, usdc: TestERC20Token) {
+  constructor(orderBook: OrderBook, token0: TestERC20Token, token1: TestERC20Token, wallets = new OnChainWallets()) {
     this.orderBook = orderBook
     this.orderBookId = this.orderBook.orderBookId()
-    this.weth = weth
-    this.usdc = usdc
+    this.token0 = token0
+    this.token1 = token1
+    this.wallets = wallets
 
-    this.amountDivider = this.orderBook.sizeTick()
-    this.priceDivider = this.orderBook.priceTick()
+    this.amounts = OrderBookAmounts.fromOrderBook(this.orderBook)
   }
 
   async ensureUser(address: string) {
@@ -53,46 +92,113 @@ export class OnChainMatching {
     }
     this.ensured.add(address)
 
-    const wallet = (await ethers.getContractAt('SmartWallet', address)) as SmartWallet
-    this.wallets.set(address, wallet)
-
-    for (const token of [this.weth, this.usdc]) {
-      await token.mint(address, this.initialBalance)
+    for (const token of [this.token0, this.token1]) {
+      await this.wallets.ensureUser(token, address)
     }
+  }
+
+  // hint id of a new limit order, planned from the current state of the book
+  async hintId(isAsk: boolean, amount0: BigNumber, price: BigNumber): Promise<number> {
+    const [hintId] = planHintIds(await readBookSnapshot(this.orderBook), [{amount0, price, isAsk}])
+    return hintId
+  }
 
-    await wallet.depositToken0(this.orderBookId, BigNumber.from(2).pow(249))
-    await wallet.depositToken1(this.orderBookId, BigNumber.from(2).pow(249))
+  // returns false if the order gets reverted because the claimable balance does not cover it
+  async createPerformanceLimitOrder(
+    walletAddress: string,
+    isAsk: boolean,
+    amount0: BigNumber,
+    price: BigNumber
+  ): Promise<boolean> {
+    console.debug('creating Performance order!')
+    const wallet = this.wallets.wallet(walletAddress)
+    try {
+      await wallet.createPerformanceLimitOrder(
+        this.orderBookId,
+        1,
+        [(await this.amounts).toAmount0Base(amount0)],
+        [(await this.amounts).toPriceBase(price)],
+        [isAsk],
+        [await this.hintId(isAsk, amount0, price)]
+      )
+    } catch (e) {
+      if (isLighterError(e, 'LighterV2Order_InsufficientClaimableBalance')) {
+        return false
+      }
+      throw e
+    }
+    return true
   }
 
-  async createPerformanceLimitOrder(walletAddress: string, isAsk: boolean, amount0: BigNumber, price: BigNumber) {
-    console.log('creating Performance order!')
-    const wallet = this.wallets.get(walletAddress)!
-    await wallet.createPerformanceLimitOrder(
+  async createLimitOrder(
+    walletAddress: string,
+    isAsk: boolean,
+    amount0: BigNumber,
+    price: BigNumber,
+    orderType: OrderType = OrderType.LimitOrder
+  ): Promise<boolean> {
+    if (orderType == OrderType.PerformanceLimitOrder) {
+      return this.createPerformanceLimitOrder(walletAddress, isAsk, amount0, price)
+    }
+
+    const wallet = this.wallets.wallet(walletAddress)
+    await wallet.createLimitOrder(
       this.orderBookId,
       1,
-      [amount0.div(await this.amountDivider)],
-      [price.div(await this.priceDivider)],
+      [(await this.amounts).toAmount0Base(amount0)],
+      [(await this.amounts).toPriceBase(price)],
       [isAsk],
-      [0]
+      [await this.hintId(isAsk, amount0, price)]
     )
+    return true
   }
 
-  async createLimitOrder(walletAddress: string, isAsk: boolean, amount0: BigNumber, price: BigNumber) {
-    // with a small chance, use performance orders
-    if (Math.random() < 0.3) {
-      await this.createPerformanceLimitOrder(walletAddress, isAsk, amount0, price)
-      return
+  // returns false if the order gets killed because it could not be fully filled
+  async createFoKOrder(walletAddress: string, isAsk: boolean, amount0: BigNumber, price: BigNumber): Promise<boolean> {
+    const wallet = this.wallets.wallet(walletAddress)
+    try {
+      await wallet.createFillOrKillOrder(
+        this.orderBookId,
+        (await this.amounts).toAmount0Base(amount0),
+        (await this.amounts).toPriceBase(price),
+        isAsk
+      )
+    } catch (e) {
+      if (isLighterError(e, 'LighterV2Order_FoKNotFilled')) {
+        return false
+      }
+      throw e
     }
+    return true
+  }
 
-    const wallet = this.wallets.get(walletAddress)!
-    await wallet.createLimitOrder(
+  // returns the filled amount0, computed from the emitted Swap events
+  async createIoCOrder(
+    walletAddress: string,
+    isAsk: boolean,
+    amount0: BigNumber,
+    price: BigNumber
+  ): Promise<BigNumber> {
+    const wallet = this.wallets.wallet(walletAddress)
+    const tx = await wallet.createImmediateOrCancelOrder(
       this.orderBookId,
-      1,
-      [amount0.div(await this.amountDivider)],
-      [price.div(await this.priceDivider)],
-      [isAsk],
-      [0]
+      (await this.amounts).toAmount0Base(amount0),
+      (await this.amounts).toPriceBase(price),
+      isAsk
     )
+    const receipt = await tx.wait()
+
+    let filledAmount0 = BigNumber.from(0)
+    for (const log of receipt.logs) {
+      if (log.address != this.orderBook.address) {
+        continue
+      }
+      const event = this.orderBook.interface.parseLog(log)
+      if (event.name == 'Swap') {
+        filledAmount0 = filledAmount0.add(event.args.amount0)
+      }
+    }
+    return filledAmount0
   }
 
   async cancelLimitOrder(id: number): Promise<void> {
@@ -100,39 +206,89 @@ export class OnChainMatching {
     const order = await this.orderBook.getLimitOrder(isAsk, id)
     const walletAddress = await this.orderBook.ownerIdToAddress(order.ownerId)
 
-    const wallet = this.wallets.get(walletAddress)!
+    const wallet = this.wallets.wallet(walletAddress)
     await wallet.cancelLimitOrder(this.orderBookId, 1, [id])
   }
 
+  async deposit(walletAddress: string, isToken0: boolean, amount: BigNumber): Promise<void> {
+    const wallet = this.wallets.wallet(walletAddress)
+    if (isToken0) {
+      await wallet.depositToken0(this.orderBookId, amount)
+    } else {
+      await wallet.depositToken1(this.orderBookId, amount)
+    }
+  }
+
+  // returns false if the claim gets reverted because of an invalid amount
+  async claim(walletAddress: string, isToken0: boolean, amount: BigNumber): Promise<boolean> {
+    const wallet = this.wallets.wallet(walletAddress)
+    try {
+      if (isToken0) {
+        await wallet.claimToken0(this.orderBookId, amount)
+      } else {
+        await wallet.claimToken1(this.orderBookId, amount)
+      }
+    } catch (e) {
+      if (isLighterError(e, 'LighterV2Vault_InvalidClaimAmount')) {
+        return false
+      }
+      throw e
+    }
+    return true
+  }
+
+  // returns false if the claim gets reverted, which happens if any of the claimable balances is 0
+  async claimAll(walletAddress: string): Promise<boolean> {
+    const wallet = this.wallets.wallet(walletAddress)
+    try {
+      await wallet.claimAll(this.orderBookId)
+    } catch (e) {
+      if (isLighterError(e, 'LighterV2Vault_InvalidClaimAmount')) {
+        return false
+      }
+      throw e
+    }
+    return true
+  }
+
   async hasActiveOrders(walletAddress: string): Promise<boolean> {
-    let ask = await this.orderBook.getPaginatedOrders(0, true, 25)
-    let bids = await this.orderBook.getPaginatedOrders(0, false, 25)
-    let list = [...ask.owners, ...bids.owners]
-    for (const owner of list) {
-      if (walletAddress == owner) {
-        return true
+    for (const isAsk of [true, false]) {
+      for await (const order of paginatedOrders(this.orderBook, isAsk, this.pageSize)) {
+        if (order.owner == walletAddress) {
+          return true
+        }
       }
     }
     return false
   }
 
-  async swapExact(walletAddress: string, isExactInput: boolean, isAsk: boolean, amount: BigNumber): Promise<boolean> {
+  // returns false if the swap gets reverted because the book can not fill it, other reverts are thrown
+  async swapExact(
+    walletAddress: string,
+    isExactInput: boolean,
+    isAsk: boolean,
+    amount: BigNumber,
+    useQuoter = true
+  ): Promise<boolean> {
     // do not use quoter if user has active order as it can match against itself
     // in that case, the difference in tokens resulted after the swap will not match the quoted amount
     // and this will result in a false positive
-    if (this.quoter && !(await this.hasActiveOrders(walletAddress))) {
+    if (useQuoter && this.quoter && !(await this.hasActiveOrders(walletAddress))) {
       return this.swapExactWithQuoter(walletAddress, isExactInput, isAsk, amount)
     }
 
     try {
-      const wallet = this.wallets.get(walletAddress)!
+      const wallet = this.wallets.wallet(walletAddress)
       if (isExactInput) {
         await wallet.swapExactInput(this.orderBookId, isAsk, amount, BigNumber.from(0), walletAddress)
       } else {
         await wallet.swapExactOutput(this.orderBookId, isAsk, amount, BigNumber.from(10).pow(25), walletAddress)
       }
     } catch (e) {
-      return false
+      if (isLighterError(e, 'LighterV2Swap_NotEnoughLiquidity')) {
+        return false
+      }
+      throw e
     }
 
     return true
@@ -145,10 +301,10 @@ export class OnChainMatching {
     amount: BigNumber
   ): Promise<boolean> {
     const quoter = this.quoter!
-    const wallet = this.wallets.get(walletAddress)!
+    const wallet = this.wallets.wallet(walletAddress)
     let quotedInput, quotedOutput
 
-    console.log(`using quoter in swapExact`)
+    console.debug(`using quoter in swapExact`)
 
     try {
       if (isExactInput) {
@@ -157,12 +313,19 @@ export class OnChainMatching {
         ;({quotedInput, quotedOutput} = await quoter.getQuoteForExactOutput(await this.orderBookId, isAsk, amount))
       }
     } catch (e) {
+      if (!isLighterError(e, 'LighterV2Swap_NotEnoughLiquidity')) {
+        throw e
+      }
+      // the swap has to revert as well
+      if (await this.swapExact(walletAddress, isExactInput, isAsk, amount, false)) {
+        throw 'quoter gave different results -- quote reverted but the swap did not'
+      }
       return false
     }
 
     let [initialInput, initialOutput] = isAsk
-      ? [await this.wethBalance(walletAddress), await this.usdcBalance(walletAddress)]
-      : [await this.usdcBalance(walletAddress), await this.wethBalance(walletAddress)]
+      ? [await this.token0Balance(walletAddress), await this.token1Balance(walletAddress)]
+      : [await this.token1Balance(walletAddress), await this.token0Balance(walletAddress)]
 
     if (isExactInput) {
       await wallet.swapExactInput(this.orderBookId, isAsk, amount, BigNumber.from(0), walletAddress)
@@ -171,8 +334,8 @@ export class OnChainMatching {
     }
 
     let [finalInput, finalOutput] = isAsk
-      ? [await this.wethBalance(walletAddress), await this.usdcBalance(walletAddress)]
-      : [await this.usdcBalance(walletAddress), await this.wethBalance(walletAddress)]
+      ? [await this.token0Balance(walletAddress), await this.token1Balance(walletAddress)]
+      : [await this.token1Balance(walletAddress), await this.token0Balance(walletAddress)]
 
     if (!initialInput.sub(quotedInput).eq(finalInput) || !initialOutput.add(quotedOutput).eq(finalOutput)) {
       console.error(`quoter gave different results`)
@@ -184,51 +347,45 @@ export class OnChainMatching {
     return true
   }
 
-  async wethBalance(address: string): Promise<BigNumber> {
-    let balance = await this.weth.balanceOf(address)
-    balance = balance.add(await this.orderBook.claimableToken0Balance(address))
-    return balance!.sub(this.initialBalance)
+  async walletBalance(address: string, isToken0: boolean): Promise<BigNumber> {
+    return this.wallets.balance(isToken0 ? this.token0 : this.token1, address)
   }
 
-  async usdcBalance(address: string): Promise<BigNumber> {
-    let balance = await this.usdc.balanceOf(address)
-    balance = balance.add(await this.orderBook.claimableToken1Balance(address))
-    return balance!.sub(this.initialBalance)
+  async claimableBalance(address: string, isToken0: boolean): Promise<BigNumber> {
+    return isToken0 ? this.orderBook.claimableToken0Balance(address) : this.orderBook.claimableToken1Balance(address)
   }
 
-  async OrderBookWETH(): Promise<BigNumber> {
-    let balance = await this.weth.balanceOf(this.orderBook.address)
-    for (const wallet of this.wallets.values()) {
-      balance = balance.sub(await this.orderBook.claimableToken0Balance(wallet.address))
+  // total token0 owned by the user, both in the wallet and claimable from the OrderBook
+  async token0Balance(address: string): Promise<BigNumber> {
+    return (await this.walletBalance(address, true)).add(await this.claimableBalance(address, true))
+  }
+
+  // total token1 owned by the user, both in the wallet and claimable from the OrderBook
+  async token1Balance(address: string): Promise<BigNumber> {
+    return (await this.walletBalance(address, false)).add(await this.claimableBalance(address, false))
+  }
+
+  async OrderBookToken0(): Promise<BigNumber> {
+    let balance = await this.token0.balanceOf(this.orderBook.address)
+    for (const address of this.ensured) {
+      balance = balance.sub(await this.orderBook.claimableToken0Balance(address))
     }
     return balance
   }
 
-  async OrderBookUSDC(): Promise<BigNumber> {
-    let balance = await this.usdc.balanceOf(this.orderBook.address)
-    for (const wallet of this.wallets.values()) {
-      balance = balance.sub(await this.orderBook.claimableToken1Balance(wallet.address))
+  async OrderBookToken1(): Promise<BigNumber> {
+    let balance = await this.token1.balanceOf(this.orderBook.address)
+    for (const address of this.ensured) {
+      balance = balance.sub(await this.orderBook.claimableToken1Balance(address))
     }
     return balance
   }
 
   async activeAsks(): Promise<number[]> {
-    let ask = await this.orderBook.getPaginatedOrders(0, true, 25)
-    let list = [...ask.ids]
-    for (let index = 0; ; index += 1) {
-      if (list[index] == 0) {
-        return list.slice(0, index)
-      }
-    }
+    return (await getAllOrders(this.orderBook, true, this.pageSize)).map((order) => order.id)
   }
 
   async activeBids(): Promise<number[]> {
-    let bids = await this.orderBook.getPaginatedOrders(0, false, 25)
-    let list = bids.ids
-    for (let index = 0; ; index += 1) {
-      if (list[index] == 0) {
-        return list.slice(0, index)
-      }
-    }
+    return (await getAllOrders(this.orderBook, false, this.pageSize)).map((order) => order.id)
   }
 }
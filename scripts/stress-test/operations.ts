@@ -0,0 +1,105 @@
+import fs from 'fs'
+import path from 'path'
+import {OrderType} from 'test/shared'
+
+// Operations are the fully resolved actions performed by the StressTester, so they can be saved & replayed
+// users are stored as indexes in the list of deployed smart wallets and amounts as decimal strings
+// order books are stored as indexes in the list of deployed order books
+
+export interface LimitOrderOperation {
+  type: 'limitOrder'
+  orderBook: number
+  user: number
+  isAsk: boolean
+  amount0: string
+  price: string
+  orderType: OrderType.LimitOrder | OrderType.PerformanceLimitOrder
+}
+
+export interface FillOrKillOperation {
+  type: 'fillOrKill'
+  orderBook: number
+  user: number
+  isAsk: boolean
+  amount0: string
+  price: string
+}
+
+export interface ImmediateOrCancelOperation {
+  type: 'immediateOrCancel'
+  orderBook: number
+  user: number
+  isAsk: boolean
+  amount0: string
+  price: string
+}
+
+export interface CancelOperation {
+  type: 'cancel'
+  orderBook: number
+  id: number
+}
+
+export interface SwapExactOperation {
+  type: 'swapExact'
+  orderBook: number
+  user: number
+  isAsk: boolean
+  isExactInput: boolean
+  amount: string
+}
+
+export interface DepositOperation {
+  type: 'deposit'
+  orderBook: number
+  user: number
+  isToken0: boolean
+  amount: string
+}
+
+export interface ClaimOperation {
+  type: 'claim'
+  orderBook: number
+  user: number
+  isToken0: boolean
+  amount: string
+}
+
+// claims the whole claimable balance of both tokens
+export interface ClaimAllOperation {
+  type: 'claimAll'
+  orderBook: number
+  user: number
+}
+
+export type Operation =
+  | LimitOrderOperation
+  | FillOrKillOperation
+  | ImmediateOrCancelOperation
+  | CancelOperation
+  | SwapExactOperation
+  | DepositOperation
+  | ClaimOperation
+  | ClaimAllOperation
+
+export interface OperationLog {
+  seed: number // seed of the run, generating operations with it results in the same log
+  orderBooks: number[] // indexes of the order books tested together in the run
+  users: number // number of deployed smart wallets
+  maxBookDepth: number
+  error: string // error which ended the run
+  operations: Operation[]
+}
+
+export const failuresDirectory = './scripts/stress-test/failures'
+
+export function saveOperationLog(log: OperationLog): string {
+  fs.mkdirSync(failuresDirectory, {recursive: true})
+  const filePath = path.join(failuresDirectory, `run-${log.seed}-${Date.now()}.json`)
+  fs.writeFileSync(filePath, JSON.stringify(log, null, 2))
+  return filePath
+}
+
+export function loadOperationLog(filePath: string): OperationLog {
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'))
+}
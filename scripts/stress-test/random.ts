@@ -0,0 +1,40 @@
+import {BigNumber} from 'ethers'
+
+// Random is a small seedable PRNG (mulberry32), used instead of Math.random so stress test runs can be reproduced
+export class Random {
+  seed: number
+  state: number
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0
+    this.state = this.seed
+  }
+
+  // returns a random number in [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  // returns a random integer in [0, max)
+  int(max: number): number {
+    return Math.floor(this.next() * max)
+  }
+
+  // returns a random BigNumber in [0, max)
+  bigNumber(max: BigNumber): BigNumber {
+    let value = BigNumber.from(0)
+    const exp = 1000000
+    for (let i = 0; i < 5; i += 1) {
+      value = value.mul(exp).add(this.int(exp))
+    }
+    return value.mod(max)
+  }
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296)
+}
@@ -0,0 +1,107 @@
+import {BigNumber} from 'ethers'
+import {expect, OrderType} from 'test/shared'
+import {LimitOrderOperation, Operation} from './operations'
+import {failureKind, shrinkOperations, simplify, toMochaTest} from './shrinker'
+
+describe('stress test shrinker', () => {
+  const sizeTick = BigNumber.from(100)
+  const sizeTicks = new Map([[0, sizeTick]])
+
+  function limitOrder(user: number, amount0: number): LimitOrderOperation {
+    return {
+      type: 'limitOrder',
+      orderBook: 0,
+      user,
+      isAsk: true,
+      amount0: `${amount0}`,
+      price: '1000',
+      orderType: OrderType.PerformanceLimitOrder,
+    }
+  }
+
+  it('removes operations which are not needed for the failure', async () => {
+    const operations = [limitOrder(1, 1000), limitOrder(2, 1000), limitOrder(3, 5000), limitOrder(4, 1000)]
+
+    // fails as long as there is an order with at least 500 amount0 from a user other than user 0
+    const fails = async (operations: Operation[]) => {
+      return operations.some((o) => o.type == 'limitOrder' && o.user != 0 && BigNumber.from(o.amount0).gte(500))
+    }
+
+    const shrunk = await shrinkOperations(operations, fails, sizeTicks)
+    expect(shrunk).to.deep.equal([{...limitOrder(1, 500), orderType: OrderType.LimitOrder}])
+  })
+
+  it('replaces users with lower ones', async () => {
+    const operations = [limitOrder(3, 100), limitOrder(5, 100)]
+
+    // fails as long as 2 different users are involved
+    const fails = async (operations: Operation[]) => {
+      const users = new Set(operations.map((o) => (o.type == 'cancel' ? -1 : o.user)))
+      return users.size == 2
+    }
+
+    const shrunk = await shrinkOperations(operations, fails, sizeTicks)
+    expect(shrunk.map((o) => (o.type == 'cancel' ? -1 : o.user))).to.deep.equal([1, 0])
+  })
+
+  it('rounds simplified amounts to the size tick', () => {
+    expect(simplify(limitOrder(0, 300), sizeTick)[0]).to.deep.include({amount0: '100'})
+    expect(simplify({...limitOrder(0, 100), orderType: OrderType.LimitOrder}, sizeTick)).to.deep.equal([])
+    expect(simplify({type: 'cancel', orderBook: 0, id: 2}, sizeTick)).to.deep.equal([])
+  })
+
+  it('ignores amounts when comparing failures', () => {
+    expect(failureKind('blocked funds are not equal WETH -- onChain:1 js:2')).to.equal(
+      failureKind('blocked funds are not equal WETH -- onChain:3 js:4')
+    )
+  })
+
+  it('emits a mocha test', () => {
+    const test = toMochaTest(
+      {seed: 7, orderBooks: [0, 1], users: 10, maxBookDepth: 20, error: 'weth not equal', operations: []},
+      {
+        error: 'weth not equal',
+        steps: [
+          {operation: {...limitOrder(1, 1000), orderBook: 1}, outcome: undefined},
+          {
+            operation: {type: 'fillOrKill', orderBook: 1, user: 2, isAsk: false, amount0: '2000', price: '1000'},
+            outcome: false,
+          },
+          {
+            operation: {type: 'immediateOrCancel', orderBook: 0, user: 3, isAsk: true, amount0: '300', price: '900'},
+            outcome: BigNumber.from(200),
+          },
+          {operation: {type: 'cancel', orderBook: 1, id: 2}, outcome: undefined, owner: 1},
+          {operation: {type: 'claim', orderBook: 0, user: 1, isToken0: true, amount: '5'}, outcome: false},
+        ],
+        books: [
+          {orderBook: 0, asks: [], bids: []},
+          {orderBook: 1, asks: [], bids: [3]},
+        ],
+        balances: [
+          {user: 1, orderBook: 0, isToken0: false, isClaimable: false, amount: BigNumber.from(-1)},
+          {user: 1, orderBook: 1, isToken0: true, isClaimable: true, amount: BigNumber.from(2)},
+        ],
+      }
+    )
+
+    expect(test).to.contain("describe('stress test run 7'")
+    expect(test).to.contain('createOnChainBooks(contracts, [0,1], wallets)')
+    expect(test).to.contain('await CreatePerformanceLimitOrder(wallet(1), orderBooks[1], [')
+    expect(test).to.contain("'LighterV2Order_FoKNotFilled'")
+    expect(test).to.contain('expect((await decodeExecutionReports(await CreateIoCOrder(wallet(3), orderBooks[0], {')
+    expect(test).to.contain("orderBooks[0]))[0].filledAmount0).to.equal(\n      BigNumber.from('200')\n    )")
+    expect(test).to.contain('await CancelLimitOrder(wallet(1), orderBooks[1], [2])')
+    expect(test).to.contain(
+      "await expect(wallet(1).claimToken0(await orderBooks[0].orderBookId(), BigNumber.from('5'))).to.be.reverted"
+    )
+    expect(test).to.contain('await expectOrderBook(orderBooks[0], [0], [0])')
+    expect(test).to.contain('await expectOrderBook(orderBooks[1], [0], [3,0])')
+    expect(test).to.contain(
+      "expect(await onChain.get(0)!.walletBalance(users[1], false)).to.equal(BigNumber.from('-1'))"
+    )
+    expect(test).to.contain(
+      "expect(await onChain.get(1)!.claimableBalance(users[1], true)).to.equal(BigNumber.from('2'))"
+    )
+  })
+})
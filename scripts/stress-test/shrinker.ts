@@ -0,0 +1,394 @@
+import fs from 'fs'
+import {takeSnapshot} from '@nomicfoundation/hardhat-network-helpers'
+import {BigNumber} from 'ethers'
+import {OrderType} from 'test/shared'
+import {deployContracts} from './on-chain-deploy'
+import {loadOperationLog, Operation, OperationLog, saveOperationLog} from './operations'
+import {Random} from './random'
+import {createTester, logConfig, StressTester} from './stress-tester'
+
+// Step is an executed operation together with what is needed to reproduce it in a mocha test
+export interface Step {
+  operation: Operation
+  outcome: boolean | BigNumber | undefined // see StressTester.execute
+  owner?: number // owner of the canceled order
+}
+
+// balance of a user as computed by the JS model at the end of the run
+// wallet balances are shared by the order books, so they are reported once for every token, through one of the books
+export interface BalanceExpectation {
+  user: number
+  orderBook: number
+  isToken0: boolean
+  isClaimable: boolean
+  amount: BigNumber
+}
+
+export interface RunResult {
+  error: string | null
+  steps: Step[]
+  books: {orderBook: number; asks: number[]; bids: number[]}[]
+  balances: BalanceExpectation[]
+}
+
+// the kind of the failure, without amounts which change while shrinking
+export function failureKind(error: string): string {
+  return error.split('\n')[0].split(' -- ')[0]
+}
+
+// returns simpler variants of the operation, tried in order; amounts are halved and rounded down to the size tick
+export function simplify(operation: Operation, sizeTick: BigNumber): Operation[] {
+  const candidates: Operation[] = []
+  if (operation.type == 'cancel' || operation.type == 'claimAll') {
+    return candidates
+  }
+
+  if (operation.type == 'swapExact' || operation.type == 'deposit' || operation.type == 'claim') {
+    const amount = BigNumber.from(operation.amount)
+    if (amount.gt(1)) {
+      candidates.push({...operation, amount: amount.div(2).toString()})
+    }
+    return candidates
+  }
+
+  const amount0 = BigNumber.from(operation.amount0)
+  const halfAmount0 = amount0.div(2).div(sizeTick).mul(sizeTick)
+  if (halfAmount0.gt(0)) {
+    candidates.push({...operation, amount0: halfAmount0.toString()})
+  }
+  if (operation.type == 'limitOrder' && operation.orderType == OrderType.PerformanceLimitOrder) {
+    candidates.push({...operation, orderType: OrderType.LimitOrder})
+  }
+  return candidates
+}
+
+// replaces every operation of the user `from` with the user `to`
+function replaceUser(operations: Operation[], from: number, to: number): Operation[] {
+  return operations.map((operation) => {
+    if (operation.type == 'cancel' || operation.user != from) {
+      return operation
+    }
+    return {...operation, user: to}
+  })
+}
+
+function usersOf(operations: Operation[]): number[] {
+  const users = new Set<number>()
+  for (const operation of operations) {
+    if (operation.type != 'cancel') {
+      users.add(operation.user)
+    }
+  }
+  return [...users].sort((a, b) => a - b)
+}
+
+// shrinkOperations repeatedly removes & simplifies operations as long as the sequence keeps failing
+// operations are removed in chunks, starting with half of the sequence, then the users and the amounts are reduced
+export async function shrinkOperations(
+  operations: Operation[],
+  fails: (operations: Operation[]) => Promise<boolean>,
+  sizeTicks: Map<number, BigNumber>
+): Promise<Operation[]> {
+  let current = operations
+  let progress = true
+
+  while (progress) {
+    progress = false
+
+    // fewer operations
+    for (let size = Math.max(1, current.length >> 1); size >= 1; size >>= 1) {
+      for (let start = 0; start < current.length; ) {
+        const candidate = [...current.slice(0, start), ...current.slice(start + size)]
+        if (await fails(candidate)) {
+          current = candidate
+          progress = true
+        } else {
+          start += size
+        }
+      }
+    }
+
+    // fewer users, with the lowest possible indexes
+    for (const user of usersOf(current).reverse()) {
+      for (let to = 0; to < user; to += 1) {
+        const candidate = replaceUser(current, user, to)
+        if (await fails(candidate)) {
+          current = candidate
+          progress = true
+          break
+        }
+      }
+    }
+
+    // smaller amounts
+    for (let index = 0; index < current.length; index += 1) {
+      const sizeTick = sizeTicks.get(current[index].orderBook)!
+      for (const operation of simplify(current[index], sizeTick)) {
+        const candidate = [...current.slice(0, index), operation, ...current.slice(index + 1)]
+        if (await fails(candidate)) {
+          current = candidate
+          progress = true
+          break
+        }
+      }
+    }
+  }
+
+  return current
+}
+
+// executes the operations followed by canceling all the orders, exactly like a run of the stress tester
+// stops at the first failure; cancels of orders which are not active anymore are skipped
+async function runOperations(tester: StressTester, operations: Operation[]): Promise<RunResult> {
+  const steps: Step[] = []
+
+  async function step(operation: Operation) {
+    let owner: number | undefined
+    if (operation.type == 'cancel') {
+      const {js} = tester.book(operation.orderBook)
+      const active = [...js.activeAsks(), ...js.activeBids()]
+      if (!active.includes(operation.id)) {
+        return
+      }
+      owner = tester.users.indexOf(js.orderIDToOwner.get(operation.id)!)
+    }
+    const result: Step = {operation, outcome: undefined, owner}
+    steps.push(result)
+
+    result.outcome = await tester.execute(operation)
+    await tester.check()
+  }
+
+  let error: string | null = null
+  try {
+    for (const operation of operations) {
+      await step(operation)
+    }
+    for (const {index, js} of tester.books) {
+      for (const id of [...js.activeAsks(), ...js.activeBids()]) {
+        await step({type: 'cancel', orderBook: index, id})
+      }
+    }
+    await tester.finalCheck()
+  } catch (e) {
+    error = `${e}`
+  }
+
+  const users = new Set<number>()
+  for (const step of steps) {
+    users.add(step.operation.type == 'cancel' ? step.owner! : step.operation.user)
+  }
+
+  const balances: BalanceExpectation[] = []
+  for (const user of [...users].sort((a, b) => a - b)) {
+    const address = tester.users[user]
+    for (const {book, isToken0} of tester.tokens()) {
+      const amount = book.js.walletBalance(address, isToken0)
+      balances.push({user, orderBook: book.index, isToken0, isClaimable: false, amount})
+    }
+    for (const {index, js} of tester.books) {
+      for (const isToken0 of [true, false]) {
+        const amount = js.claimableBalance(address, isToken0)
+        balances.push({user, orderBook: index, isToken0, isClaimable: true, amount})
+      }
+    }
+  }
+
+  const books = tester.books.map(({index, js}) => ({orderBook: index, asks: js.activeAsks(), bids: js.activeBids()}))
+  return {error, steps, books, balances}
+}
+
+// shrink loads a saved operation log, shrinks it to a minimal sequence which fails in the same way
+// and saves both the shrunk operation log and a mocha test reproducing it
+export async function shrink(filePath: string) {
+  const log = loadOperationLog(filePath)
+  const kind = failureKind(log.error)
+  console.log(`shrinking ${log.operations.length} operations of run with seed ${log.seed}; failed with: ${kind}`)
+
+  const contracts = await deployContracts(log.users)
+  const snapshot = await takeSnapshot()
+
+  async function run(operations: Operation[]): Promise<RunResult> {
+    await snapshot.restore()
+    const tester = await createTester(contracts, log.orderBooks, null, new Random(log.seed), logConfig(log))
+    return runOperations(tester, operations)
+  }
+
+  let attempts = 0
+  async function fails(operations: Operation[]): Promise<boolean> {
+    attempts += 1
+    const {error} = await run(operations)
+    return error != null && failureKind(error) == kind
+  }
+
+  // operations after the failure are not needed
+  const initial = await run(log.operations)
+  if (initial.error == null || failureKind(initial.error) != kind) {
+    throw `replaying ${filePath} does not fail with: ${kind}`
+  }
+  const executed = initial.steps.map((step) => step.operation)
+
+  const sizeTicks = new Map<number, BigNumber>()
+  for (const index of log.orderBooks) {
+    sizeTicks.set(index, await contracts.orderBooks[index].sizeTick())
+  }
+  const operations = await shrinkOperations(executed, fails, sizeTicks)
+  console.log(`shrunk to ${operations.length} operations after ${attempts} attempts`)
+
+  const result = await run(operations)
+  const shrunk: OperationLog = {...log, error: result.error!, operations: result.steps.map((step) => step.operation)}
+  const logPath = saveOperationLog(shrunk)
+
+  const test = toMochaTest(shrunk, result)
+  const testPath = logPath.replace(/\.json$/, '.spec.ts')
+  fs.writeFileSync(testPath, test)
+
+  console.log(test)
+  console.log(`shrunk operation log saved to ${logPath}`)
+  console.log(`mocha test saved to ${testPath}`)
+}
+
+function bn(value: BigNumber | string) {
+  return `BigNumber.from('${value.toString()}')`
+}
+
+function stepToMocha(step: Step): string[] {
+  const operation = step.operation
+  const orderBook = `orderBooks[${operation.orderBook}]`
+  switch (operation.type) {
+    case 'limitOrder': {
+      const create =
+        operation.orderType == OrderType.PerformanceLimitOrder ? 'CreatePerformanceLimitOrder' : 'CreateLimitOrder'
+      const order = `{amount0: ${bn(operation.amount0)}, price: ${bn(operation.price)}, isAsk: ${
+        operation.isAsk
+      }, hintId: 0}`
+      if (step.outcome === false) {
+        return [
+          `await expect(${create}(wallet(${operation.user}), ${orderBook}, [${order}])).to.be.revertedWithCustomError(`,
+          `  ${orderBook},`,
+          `  'LighterV2Order_InsufficientClaimableBalance'`,
+          `)`,
+        ]
+      }
+      return [`await ${create}(wallet(${operation.user}), ${orderBook}, [`, `  ${order},`, `])`]
+    }
+    case 'fillOrKill': {
+      const order = `{amount0: ${bn(operation.amount0)}, price: ${bn(operation.price)}, isAsk: ${operation.isAsk}}`
+      if (step.outcome) {
+        return [`await CreateFoKOrder(wallet(${operation.user}), ${orderBook}, ${order})`]
+      }
+      return [
+        `await expect(CreateFoKOrder(wallet(${operation.user}), ${orderBook}, ${order})).to.be.revertedWithCustomError(`,
+        `  ${orderBook},`,
+        `  'LighterV2Order_FoKNotFilled'`,
+        `)`,
+      ]
+    }
+    case 'immediateOrCancel': {
+      const order = `{amount0: ${bn(operation.amount0)}, price: ${bn(operation.price)}, isAsk: ${operation.isAsk}}`
+      // the filled amount0 is the sum of the Swap events of the order
+      const create = `await CreateIoCOrder(wallet(${operation.user}), ${orderBook}, ${order})`
+      return [
+        `expect((await decodeExecutionReports(${create}, ${orderBook}))[0].filledAmount0).to.equal(`,
+        `  ${bn(step.outcome as BigNumber)}`,
+        `)`,
+      ]
+    }
+    case 'cancel': {
+      return [`await CancelLimitOrder(wallet(${step.owner}), ${orderBook}, [${operation.id}])`]
+    }
+    case 'swapExact': {
+      const {user, isAsk, amount} = operation
+      const orderBookId = `await ${orderBook}.orderBookId()`
+      const swap = operation.isExactInput
+        ? `wallet(${user}).swapExactInput(${orderBookId}, ${isAsk}, ${bn(amount)}, 0, users[${user}])`
+        : `wallet(${user}).swapExactOutput(${orderBookId}, ${isAsk}, ${bn(amount)}, maxInput, users[${user}])`
+      if (step.outcome) {
+        return [`await ${swap}`]
+      }
+      return [`await expect(${swap}).to.be.reverted`]
+    }
+    case 'deposit': {
+      const {user, isToken0, amount} = operation
+      const deposit = isToken0 ? 'depositToken0' : 'depositToken1'
+      return [`await wallet(${user}).${deposit}(await ${orderBook}.orderBookId(), ${bn(amount)})`]
+    }
+    case 'claim': {
+      const {user, isToken0, amount} = operation
+      const claim = `wallet(${user}).${isToken0 ? 'claimToken0' : 'claimToken1'}(await ${orderBook}.orderBookId(), ${bn(
+        amount
+      )})`
+      if (step.outcome) {
+        return [`await ${claim}`]
+      }
+      return [`await expect(${claim}).to.be.revertedWithCustomError(${orderBook}, 'LighterV2Vault_InvalidClaimAmount')`]
+    }
+    case 'claimAll': {
+      const claim = `wallet(${operation.user}).claimAll(await ${orderBook}.orderBookId())`
+      if (step.outcome) {
+        return [`await ${claim}`]
+      }
+      return [`await expect(${claim}).to.be.revertedWithCustomError(${orderBook}, 'LighterV2Vault_InvalidClaimAmount')`]
+    }
+  }
+}
+
+// toMochaTest renders the run as a mocha test using the helpers in test/shared
+// the test expects the state computed by the JS model, so it fails the same way the stress test did
+export function toMochaTest(log: OperationLog, result: RunResult): string {
+  const body: string[] = []
+  for (const step of result.steps) {
+    body.push(...stepToMocha(step))
+  }
+
+  body.push('')
+  for (const {orderBook, asks, bids} of result.books) {
+    body.push(`await expectOrderBook(orderBooks[${orderBook}], [${[...asks, 0]}], [${[...bids, 0]}])`)
+  }
+  for (const {user, orderBook, isToken0, isClaimable, amount} of result.balances) {
+    const balance = isClaimable ? 'claimableBalance' : 'walletBalance'
+    body.push(
+      `expect(await onChain.get(${orderBook})!.${balance}(users[${user}], ${isToken0})).to.equal(${bn(amount)})`
+    )
+  }
+
+  return `import {loadFixture} from '@nomicfoundation/hardhat-network-helpers'
+import {BigNumber} from 'ethers'
+import {
+  expect,
+  expectOrderBook,
+  CancelLimitOrder,
+  CreateFoKOrder,
+  CreateIoCOrder,
+  CreateLimitOrder,
+  CreatePerformanceLimitOrder,
+  decodeExecutionReports,
+} from 'test/shared'
+import {deployContracts} from 'scripts/stress-test/on-chain-deploy'
+import {OnChainWallets} from 'scripts/stress-test/on-chain-matching'
+import {createOnChainBooks} from 'scripts/stress-test/stress-tester'
+
+// shrunk from the stress test run with seed ${log.seed}, which failed with: ${failureKind(log.error)}
+describe('stress test run ${log.seed}', () => {
+  async function setup() {
+    const contracts = await deployContracts(${log.users})
+    const wallets = new OnChainWallets()
+    const onChain = await createOnChainBooks(contracts, [${log.orderBooks}], wallets)
+    for (const book of onChain.values()) {
+      for (const user of contracts.users) {
+        await book.ensureUser(user)
+      }
+    }
+    return {orderBooks: contracts.orderBooks, users: contracts.users, onChain, wallets}
+  }
+
+  it('matches the JS model', async () => {
+    const {orderBooks, users, onChain, wallets} = await loadFixture(setup)
+    const wallet = (user: number) => wallets.wallet(users[user])
+    const maxInput = BigNumber.from(10).pow(25)
+
+${body.map((line) => (line == '' ? '' : `    ${line}`)).join('\n')}
+  })
+})
+`
+}
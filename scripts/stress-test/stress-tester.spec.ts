@@ -0,0 +1,50 @@
+import {BigNumber} from 'ethers'
+import {expect, OrderType, USDC, WETH} from 'test/shared'
+import {defaultConfig} from './config'
+import {deployContracts} from './on-chain-deploy'
+import {SwapExactOperation} from './operations'
+import {Random} from './random'
+import {createTester} from './stress-tester'
+
+describe('stress tester', () => {
+  // silences the console.debug log of every operation, like --quiet does for campaigns
+  const debug = console.debug
+  before(() => (console.debug = () => {}))
+  after(() => (console.debug = debug))
+
+  it('generates token1 swaps up to the worth of the largest order', async () => {
+    const contracts = await deployContracts(2)
+    const orderBooks = contracts.orderBooks.map((_, index) => index)
+    const tester = await createTester(contracts, orderBooks, null, new Random(1), {...defaultConfig, users: 2})
+
+    for (const book of tester.books) {
+      const swaps = [...Array(50)].map(() => tester.swapExact(book) as SwapExactOperation)
+      // asks with exact output & bids with exact input are in token1
+      const token1Swaps = swaps.filter((s) => s.isAsk != s.isExactInput)
+      expect(token1Swaps).to.not.be.empty
+      expect(token1Swaps.some((s) => !BigNumber.from(s.amount).eq(0))).to.equal(true)
+      for (const swap of token1Swaps) {
+        expect(BigNumber.from(swap.amount).lt(book.maxSwapToken1)).to.equal(true)
+      }
+    }
+  })
+
+  it('executes token1 swaps as quoted', async () => {
+    const contracts = await deployContracts(2)
+    const tester = await createTester(contracts, [0], null, new Random(1), {...defaultConfig, users: 2})
+    const order = {type: 'limitOrder', orderBook: 0, user: 0, amount0: WETH.parse(1).toString()} as const
+    await tester.execute({...order, isAsk: true, price: USDC.parse(1500).toString(), orderType: OrderType.LimitOrder})
+    await tester.execute({...order, isAsk: false, price: USDC.parse(1400).toString(), orderType: OrderType.LimitOrder})
+
+    // user 1 has no orders, so its swaps are quoted by the BookQuoter & the balances compared with the quote
+    // bids with exact input pay at most the given amount1, asks with exact output sell enough to receive it
+    const swap = {type: 'swapExact', orderBook: 0, user: 1} as const
+    for (const [isAsk, isExactInput, amount] of [
+      [false, true, USDC.parse('1000.000001')],
+      [true, false, USDC.parse('700.000001')],
+    ] as const) {
+      expect(await tester.execute({...swap, isAsk, isExactInput, amount: amount.toString()})).to.equal(true)
+    }
+    await tester.check()
+  })
+})
@@ -1,195 +1,390 @@
 import {takeSnapshot} from '@nomicfoundation/hardhat-network-helpers'
 import {ethers} from 'hardhat'
 import {BigNumber} from 'ethers'
-import {JSMatching} from './js-matching'
-import {OnChainMatching} from './on-chain-matching'
+import {JSMatching, Wallets} from './js-matching'
+import {OnChainMatching, OnChainWallets, Quoter} from './on-chain-matching'
+import {BookQuoter} from './book-quoter'
 import {CoreMatchingEngine} from './core-matching-engine'
 import {TestERC20Token} from 'typechain-types'
 import {deployContracts, deployRouter} from './on-chain-deploy'
+import {OrderType} from 'test/shared'
+import {Random} from './random'
+import {loadOperationLog, Operation, OperationLog, saveOperationLog} from './operations'
+import {defaultConfig, StressTestConfig} from './config'
 
-function getRandomInt(max: number) {
-  return Math.floor(Math.random() * max)
-}
-
-function getRandomBN(max: BigNumber) {
-  let value = BigNumber.from(0)
-  const exp = 1000000
-  for (let i = 0; i < 5; i += 1) {
-    value = value.mul(exp).add(Math.floor(Math.random() * exp))
-  }
-  return value.mod(max)
-}
+type Contracts = Awaited<ReturnType<typeof deployContracts>>
 
-class StressTester {
+// Book groups the JS model & the on-chain view of one order book, with the parameters used to generate its orders
+export interface Book {
+  index: number // index in the deployed order books
   js: JSMatching
   onChain: OnChainMatching
+
+  sizeTick: BigNumber
+  priceTick: BigNumber
+  minPrice: BigNumber
+  maxSwapToken1: BigNumber
+}
+
+// all order books are tested in the same session, sharing the users and their wallet balances
+export class StressTester {
+  books: Book[]
+  bookByIndex = new Map<number, Book>()
   users: string[] = []
+  random: Random
+  config: StressTestConfig
 
-  sizeTick = BigNumber.from(0)
-  priceTick = BigNumber.from(0)
+  // every operation performed by the tester, in order; saved to disk when a run fails so it can be replayed
+  operations: Operation[] = []
 
   maxSizeTick = BigNumber.from(10).pow(6)
   maxPriceTick = BigNumber.from(10).pow(6)
-  maxSwapToken1 = BigNumber.from(1)
 
   minSize = BigNumber.from(1)
-  minPrice = BigNumber.from(1)
 
-  constructor(js: JSMatching, onChain: OnChainMatching, users: string[]) {
-    this.js = js
-    this.onChain = onChain
+  // result of the last operation which can be reverted or partially filled, as predicted by JS and as executed on chain
+  // verified by check()
+  lastResult: {operation: string; js: string; onChain: string} | null = null
+
+  constructor(books: Book[], users: string[], random: Random, config: StressTestConfig) {
+    this.books = books
     this.users = users
+    this.random = random
+    this.config = config
+
+    for (const book of books) {
+      this.bookByIndex.set(book.index, book)
+    }
   }
 
   async setup() {
-    this.sizeTick = await this.onChain.orderBook.sizeTick()
-    this.priceTick = await this.onChain.orderBook.priceTick()
-    this.minPrice = await this.onChain.orderBook.priceDivider()
-
-    this.maxSwapToken1
-      .mul(this.maxSizeTick)
-      .mul(this.maxPriceTick)
-      .mul(this.sizeTick)
-      .mul(this.priceTick)
-      .div(this.js.engine?.oneAmount0!)
+    for (const book of this.books) {
+      // token1 swaps are as large as the largest random order
+      book.maxSwapToken1 = this.maxSizeTick
+        .mul(this.maxPriceTick)
+        .mul(book.sizeTick)
+        .mul(book.priceTick)
+        .div(book.js.engine.oneAmount0)
+    }
 
     // initialize users
-    for (const address of this.users) {
-      await this.js.ensureUser(address)
-      await this.onChain.ensureUser(address)
+    for (const book of this.books) {
+      for (const address of this.users) {
+        await book.js.ensureUser(address)
+        await book.onChain.ensureUser(address)
+      }
     }
   }
 
-  async shouldCancel(): Promise<boolean> {
-    const total = this.js.activeAsks().length + this.js.activeBids().length
-    return total > 20
+  book(index: number): Book {
+    return this.bookByIndex.get(index)!
   }
 
-  async limitOrder() {
-    const amount = getRandomBN(this.maxSizeTick)
-    const price = getRandomBN(this.maxPriceTick)
-    const owner = this.users[getRandomInt(this.users.length)]
-    const isAsk = getRandomInt(2)
+  // tokens traded by the tested books, each of them with a book which trades it
+  tokens(): {address: string; book: Book; isToken0: boolean}[] {
+    const tokens = new Map<string, {address: string; book: Book; isToken0: boolean}>()
+    for (const book of this.books) {
+      for (const [address, isToken0] of [
+        [book.js.token0, true],
+        [book.js.token1, false],
+      ] as [string, boolean][]) {
+        if (!tokens.has(address)) {
+          tokens.set(address, {address, book, isToken0})
+        }
+      }
+    }
+    return [...tokens.values()]
+  }
+
+  shouldCancel(book: Book): boolean {
+    const total = book.js.activeAsks().length + book.js.activeBids().length
+    return total > this.config.maxBookDepth
+  }
+
+  randomOrder(book: Book) {
+    const amount = this.random.bigNumber(this.maxSizeTick)
+    const price = this.random.bigNumber(this.maxPriceTick)
+    const user = this.random.int(this.users.length)
+    const isAsk = this.random.int(2) == 1
 
-    console.debug(`creating limit order owner:${owner} amount:${amount} price:${price} isAsk:${isAsk}`)
+    const a = amount.add(this.minSize).mul(book.sizeTick)
+    const p = price.add(book.minPrice).mul(book.priceTick)
+    return {orderBook: book.index, user, isAsk, amount0: a.toString(), price: p.toString()}
+  }
+
+  limitOrder(book: Book): Operation {
+    // with a small chance, use performance orders
+    const orderType = this.random.next() < 0.3 ? OrderType.PerformanceLimitOrder : OrderType.LimitOrder
+    return {type: 'limitOrder', ...this.randomOrder(book), orderType}
+  }
 
-    const a = amount.add(this.minSize).mul(this.sizeTick)
-    const p = price.add(this.minPrice).mul(this.priceTick)
+  fillOrKill(book: Book): Operation {
+    return {type: 'fillOrKill', ...this.randomOrder(book)}
+  }
 
-    await this.js.createLimitOrder(owner, isAsk == 1, a, p)
-    await this.onChain.createLimitOrder(owner, isAsk == 1, a, p)
+  immediateOrCancel(book: Book): Operation {
+    return {type: 'immediateOrCancel', ...this.randomOrder(book)}
   }
 
-  async cancel() {
-    const a = this.js.activeAsks()
-    const b = this.js.activeBids()
+  cancel(book: Book): Operation | null {
+    const a = book.js.activeAsks()
+    const b = book.js.activeBids()
     a.push(...b)
     const ids = a
     if (ids.length == 0) {
-      return
+      return null
     }
-    const id = ids[getRandomInt(ids.length)]
-
-    console.debug(`canceling ${id}`)
-    await this.js.cancelLimitOrder(id)
-    await this.onChain.cancelLimitOrder(id)
+    return {type: 'cancel', orderBook: book.index, id: ids[this.random.int(ids.length)]}
   }
 
-  async swapExact() {
-    const owner = this.users[getRandomInt(this.users.length)]
-    const isAsk = getRandomInt(2)
-    const isExactInput = getRandomInt(2)
+  swapExact(book: Book): Operation {
+    const user = this.random.int(this.users.length)
+    const isAsk = this.random.int(2)
+    const isExactInput = this.random.int(2)
 
-    let amount = getRandomBN(this.maxSizeTick).mul(this.sizeTick)
+    let amount = this.random.bigNumber(this.maxSizeTick).mul(book.sizeTick)
     if (isAsk != isExactInput) {
-      amount = getRandomBN(this.maxSwapToken1)
+      amount = this.random.bigNumber(book.maxSwapToken1)
     }
 
-    console.debug(`swap exact owner:${owner} amount:${amount} isAsk:${isAsk} isExactInput:${isExactInput}`)
+    return {
+      type: 'swapExact',
+      orderBook: book.index,
+      user,
+      isAsk: isAsk == 1,
+      isExactInput: isExactInput == 1,
+      amount: amount.toString(),
+    }
+  }
 
-    try {
-      // first try to call the onChain swap since it revers in case of not enough liquidity
-      const ok = await this.onChain.swapExact(owner, isExactInput == 1, isAsk == 1, amount)
-      if (!ok) {
-        console.debug('not enough liquidity ...')
-        return
-      }
-    } catch (e) {
-      throw e
+  // deposits the worth of a random order, so performance orders are sometimes covered and sometimes not
+  deposit(book: Book): Operation {
+    const {user, amount0, price} = this.randomOrder(book)
+    const isToken0 = this.random.int(2) == 1
+    const amount = isToken0
+      ? BigNumber.from(amount0)
+      : book.js.engine.amount1(BigNumber.from(amount0), BigNumber.from(price))
+    return {type: 'deposit', orderBook: book.index, user, isToken0, amount: amount.toString()}
+  }
+
+  // claims all, a part of or more than the claimable balance, the last one being reverted
+  claim(book: Book): Operation {
+    const user = this.random.int(this.users.length)
+    const isToken0 = this.random.int(2) == 1
+    const claimable = book.js.claimableBalance(this.users[user], isToken0)
+
+    let amount = claimable
+    switch (this.random.int(4)) {
+      case 0:
+        amount = claimable.add(1)
+        break
+      case 1:
+        amount = claimable.gt(0) ? this.random.bigNumber(claimable).add(1) : claimable
+        break
     }
+    return {type: 'claim', orderBook: book.index, user, isToken0, amount: amount.toString()}
+  }
 
-    await this.js.swapExact(owner, isExactInput == 1, isAsk == 1, amount)
+  claimAll(book: Book): Operation {
+    return {type: 'claimAll', orderBook: book.index, user: this.random.int(this.users.length)}
   }
 
-  async performOperation() {
-    if (await this.shouldCancel()) {
-      return await this.cancel()
+  // picks the type of the next operation, based on the configured weights
+  operationType(): Operation['type'] {
+    const weights = Object.entries(this.config.weights) as [Operation['type'], number][]
+    const total = weights.reduce((sum, [, weight]) => sum + weight, 0)
+
+    let roll = this.random.int(total)
+    for (const [type, weight] of weights) {
+      if (roll < weight) {
+        return type
+      }
+      roll -= weight
     }
+    throw 'no operation to pick'
+  }
 
-    let operation = getRandomInt(100)
-    if (operation < 20) {
-      await this.cancel()
-    } else if (operation < 40) {
-      await this.swapExact()
+  async performOperation() {
+    // every operation is applied on a random order book
+    const book = this.books[this.random.int(this.books.length)]
+
+    let operation: Operation | null
+    if (this.shouldCancel(book)) {
+      operation = this.cancel(book)
     } else {
-      await this.limitOrder()
+      switch (this.operationType()) {
+        case 'cancel':
+          operation = this.cancel(book)
+          break
+        case 'swapExact':
+          operation = this.swapExact(book)
+          break
+        case 'fillOrKill':
+          operation = this.fillOrKill(book)
+          break
+        case 'immediateOrCancel':
+          operation = this.immediateOrCancel(book)
+          break
+        case 'limitOrder':
+          operation = this.limitOrder(book)
+          break
+        case 'deposit':
+          operation = this.deposit(book)
+          break
+        case 'claim':
+          operation = this.claim(book)
+          break
+        case 'claimAll':
+          operation = this.claimAll(book)
+          break
+      }
     }
-  }
 
-  async cancelAll() {
-    const a = this.js.activeAsks()
-    const b = this.js.activeBids()
-    a.push(...b)
-    for (const id of a) {
-      console.debug(`canceling ${id}`)
-      await this.js.cancelLimitOrder(id)
-      await this.onChain.cancelLimitOrder(id)
+    if (operation != null) {
+      await this.execute(operation)
     }
   }
 
-  async check() {
-    try {
-      const askJS = this.js.activeAsks()
-      const bidJS = this.js.activeBids()
-      const askOnChain = await this.onChain.activeAsks()
-      const bidOnChain = await this.onChain.activeBids()
-      if (JSON.stringify(askJS) != JSON.stringify(askOnChain)) {
-        console.error(`${askJS} ${askOnChain}`)
-        throw 'ask not equal'
+  // execute applies the operation on both the JS model and on chain
+  // returns the outcome of limit orders, FoK & IoC orders and claims as predicted by the JS model
+  // and whether the swap went through on chain
+  async execute(operation: Operation): Promise<boolean | BigNumber | undefined> {
+    this.operations.push(operation)
+    const {js, onChain} = this.book(operation.orderBook)
+
+    switch (operation.type) {
+      case 'limitOrder': {
+        const owner = this.users[operation.user]
+        const {isAsk, orderType} = operation
+        const [a, p] = [BigNumber.from(operation.amount0), BigNumber.from(operation.price)]
+        console.debug(
+          `creating limit order book:${operation.orderBook} owner:${owner} amount:${a} price:${p} isAsk:${isAsk} type:${orderType}`
+        )
+
+        const jsCreated = js.createOrder(owner, isAsk, a, p, orderType) != null
+        const onChainCreated = await onChain.createLimitOrder(owner, isAsk, a, p, orderType)
+        this.lastResult = {operation: 'limit order created', js: `${jsCreated}`, onChain: `${onChainCreated}`}
+        return jsCreated
       }
-      if (JSON.stringify(bidJS) != JSON.stringify(bidOnChain)) {
-        console.error(`${bidJS} ${bidOnChain}`)
-        throw 'bid not equal'
+      case 'fillOrKill': {
+        const owner = this.users[operation.user]
+        const isAsk = operation.isAsk
+        const [a, p] = [BigNumber.from(operation.amount0), BigNumber.from(operation.price)]
+        console.debug(
+          `creating FoK order book:${operation.orderBook} owner:${owner} amount:${a} price:${p} isAsk:${isAsk}`
+        )
+
+        const jsFilled = js.createFoKOrder(owner, isAsk, a, p)
+        const onChainFilled = await onChain.createFoKOrder(owner, isAsk, a, p)
+        this.lastResult = {operation: 'FoK filled', js: `${jsFilled}`, onChain: `${onChainFilled}`}
+        return jsFilled
       }
-
-      for (const user of this.users) {
-        const wethJS = this.js.wethBalance(user)
-        const usdcJS = this.js.usdcBalance(user)
-        const wethOnChain = await this.onChain.wethBalance(user)
-        const usdcOnChain = await this.onChain.usdcBalance(user)
-
-        if (!wethJS.eq(wethOnChain)) {
-          console.error(`weth not equal ${user} ${wethJS.toString()} ${wethOnChain.toString()}`)
-          throw 'weth not equal'
+      case 'immediateOrCancel': {
+        const owner = this.users[operation.user]
+        const isAsk = operation.isAsk
+        const [a, p] = [BigNumber.from(operation.amount0), BigNumber.from(operation.price)]
+        console.debug(
+          `creating IoC order book:${operation.orderBook} owner:${owner} amount:${a} price:${p} isAsk:${isAsk}`
+        )
+
+        const jsFilled = js.createIoCOrder(owner, isAsk, a, p)
+        const onChainFilled = await onChain.createIoCOrder(owner, isAsk, a, p)
+        this.lastResult = {operation: 'IoC filled amount0', js: `${jsFilled}`, onChain: `${onChainFilled}`}
+        return jsFilled
+      }
+      case 'cancel': {
+        console.debug(`canceling book:${operation.orderBook} id:${operation.id}`)
+        await js.cancelLimitOrder(operation.id)
+        await onChain.cancelLimitOrder(operation.id)
+        break
+      }
+      case 'swapExact': {
+        const owner = this.users[operation.user]
+        const {isAsk, isExactInput} = operation
+        const amount = BigNumber.from(operation.amount)
+        console.debug(
+          `swap exact book:${operation.orderBook} owner:${owner} amount:${amount} isAsk:${isAsk} isExactInput:${isExactInput}`
+        )
+
+        // first try to call the onChain swap since it revers in case of not enough liquidity
+        const ok = await onChain.swapExact(owner, isExactInput, isAsk, amount)
+        if (!ok) {
+          console.debug('not enough liquidity ...')
+          return false
         }
 
-        if (!usdcJS.eq(usdcOnChain)) {
-          console.error(`usdc not equal ${user} ${usdcJS.toString()} ${usdcOnChain.toString()}`)
-          throw 'usdc not equal'
-        }
+        await js.swapExact(owner, isExactInput, isAsk, amount)
+        return true
+      }
+      case 'deposit': {
+        const owner = this.users[operation.user]
+        const {isToken0} = operation
+        const amount = BigNumber.from(operation.amount)
+        console.debug(`deposit book:${operation.orderBook} owner:${owner} amount:${amount} isToken0:${isToken0}`)
+
+        js.deposit(owner, isToken0, amount)
+        await onChain.deposit(owner, isToken0, amount)
+        break
+      }
+      case 'claim': {
+        const owner = this.users[operation.user]
+        const {isToken0} = operation
+        const amount = BigNumber.from(operation.amount)
+        console.debug(`claim book:${operation.orderBook} owner:${owner} amount:${amount} isToken0:${isToken0}`)
+
+        const jsClaimed = js.claim(owner, isToken0, amount)
+        const onChainClaimed = await onChain.claim(owner, isToken0, amount)
+        this.lastResult = {operation: 'claimed', js: `${jsClaimed}`, onChain: `${onChainClaimed}`}
+        return jsClaimed
+      }
+      case 'claimAll': {
+        const owner = this.users[operation.user]
+        console.debug(`claim all book:${operation.orderBook} owner:${owner}`)
+
+        const jsClaimed = js.claimAll(owner)
+        const onChainClaimed = await onChain.claimAll(owner)
+        this.lastResult = {operation: 'claimed all', js: `${jsClaimed}`, onChain: `${onChainClaimed}`}
+        return jsClaimed
       }
+    }
+  }
 
-      const onChainOBWETH = await this.onChain.OrderBookWETH()
-      const onChainOBUSDC = await this.onChain.OrderBookUSDC()
+  async cancelAll() {
+    for (const book of this.books) {
+      const a = book.js.activeAsks()
+      const b = book.js.activeBids()
+      a.push(...b)
+      for (const id of a) {
+        await this.execute({type: 'cancel', orderBook: book.index, id})
+      }
+    }
+  }
 
-      const jsOBWETH = this.js.OrderBookWETH()
-      const jsOBUSDC = this.js.OrderBookUSDC()
+  async check() {
+    try {
+      if (this.lastResult != null) {
+        const {operation, js, onChain} = this.lastResult
+        this.lastResult = null
+        if (js != onChain) {
+          console.error(`${operation} -- js:${js} onChain:${onChain}`)
+          throw `${operation} not equal`
+        }
+      }
 
-      if (!onChainOBWETH.eq(jsOBWETH)) {
-        throw `blocked funds are not equal WETH -- onChain:${onChainOBWETH} js:${jsOBWETH}`
+      for (const book of this.books) {
+        await this.checkBook(book)
       }
-      if (!onChainOBUSDC.eq(jsOBUSDC)) {
-        throw `blocked funds are not equal USDC -- onChain:${onChainOBUSDC} js:${jsOBUSDC}`
+
+      // wallet balances are shared by the books, so they are checked once for every token
+      for (const {address, book, isToken0} of this.tokens()) {
+        for (const user of this.users) {
+          const js = book.js.walletBalance(user, isToken0)
+          const onChain = await book.onChain.walletBalance(user, isToken0)
+          if (!js.eq(onChain)) {
+            console.error(`wallet balance not equal token:${address} ${user} ${js.toString()} ${onChain.toString()}`)
+            throw 'wallet balance not equal'
+          }
+        }
       }
     } catch (e) {
       await this.debug()
@@ -197,92 +392,242 @@ class StressTester {
     }
   }
 
-  async finalCheck() {
-    console.log('performing a final check on the stat of the system')
+  async checkBook(book: Book) {
+    const askJS = book.js.activeAsks()
+    const bidJS = book.js.activeBids()
+    const askOnChain = await book.onChain.activeAsks()
+    const bidOnChain = await book.onChain.activeBids()
+    if (JSON.stringify(askJS) != JSON.stringify(askOnChain)) {
+      console.error(`book:${book.index} ${askJS} ${askOnChain}`)
+      throw 'ask not equal'
+    }
+    if (JSON.stringify(bidJS) != JSON.stringify(bidOnChain)) {
+      console.error(`book:${book.index} ${bidJS} ${bidOnChain}`)
+      throw 'bid not equal'
+    }
 
-    const obWETH = this.js.OrderBookWETH()
-    const obUSDC = this.js.OrderBookUSDC()
+    for (const user of this.users) {
+      for (const isToken0 of [true, false]) {
+        const js = book.js.claimableBalance(user, isToken0)
+        const onChain = await book.onChain.claimableBalance(user, isToken0)
+        if (!js.eq(onChain)) {
+          const token = isToken0 ? 'token0' : 'token1'
+          console.error(
+            `claimable ${token} not equal book:${book.index} ${user} ${js.toString()} ${onChain.toString()}`
+          )
+          throw `claimable ${token} not equal`
+        }
+      }
+    }
 
-    // token0 needs to be 0 in all order books
-    if (!obWETH.eq(0)) {
-      throw `at the end of execution token0 must be 0 but is ${obWETH}`
+    const onChainOBToken0 = await book.onChain.OrderBookToken0()
+    const onChainOBToken1 = await book.onChain.OrderBookToken1()
+
+    const jsOBToken0 = book.js.OrderBookToken0()
+    const jsOBToken1 = book.js.OrderBookToken1()
+
+    if (!onChainOBToken0.eq(jsOBToken0)) {
+      throw `blocked funds are not equal token0 -- book:${book.index} onChain:${onChainOBToken0} js:${jsOBToken0}`
     }
-    if (obUSDC.gt(this.js.numSwapsDone)) {
-      throw `at the end of execution token1 must be less than the number of swaps ${this.js.numSwapsDone} but is ${obUSDC}`
+    if (!onChainOBToken1.eq(jsOBToken1)) {
+      throw `blocked funds are not equal token1 -- book:${book.index} onChain:${onChainOBToken1} js:${jsOBToken1}`
     }
+  }
 
-    console.log(`only ${obUSDC} token1 locked in orderbook at the end of execution`)
+  async finalCheck() {
+    console.debug('performing a final check on the stat of the system')
+
+    for (const {index, js, onChain} of this.books) {
+      const obToken0 = js.OrderBookToken0()
+      const lockedToken1 = js.OrderBookToken1().sub(js.dust_token1)
+
+      // all orders are canceled, so no tokens can be locked
+      if (!obToken0.eq(0)) {
+        throw `at the end of execution token0 must be 0 but is ${obToken0} -- book:${index}`
+      }
+      if (!lockedToken1.eq(0)) {
+        throw `at the end of execution locked token1 must be 0 but is ${lockedToken1} -- book:${index}`
+      }
+
+      // the only token1 left in the order book is the dust resulted from rounding down the payments of bids
+      const onChainToken1 = await onChain.OrderBookToken1()
+      if (!onChainToken1.eq(js.dust_token1)) {
+        throw `at the end of execution token1 left in the order book is not equal -- book:${index} onChain:${onChainToken1} js:${js.dust_token1}`
+      }
+
+      console.debug(`only ${onChainToken1} token1 left in orderbook ${index} at the end of execution`)
+    }
   }
 
   async debug() {
-    console.log('~~~~~ JS ASK ~~~~~')
-    for (const order of this.js!.engine.ask) {
-      console.log(
-        `id: ${order.id} price:${order.price} amount0:${order.amount0} owner:${this.js.orderIDToOwner.get(order.id)}`
-      )
-    }
+    for (const {index, js} of this.books) {
+      console.log(`~~~~~ JS ASK book:${index} ~~~~~`)
+      for (const order of js.engine.ask) {
+        console.log(
+          `id: ${order.id} price:${order.price} amount0:${order.amount0} owner:${js.orderIDToOwner.get(order.id)}`
+        )
+      }
 
-    console.log('~~~~~ JS BID ~~~~~')
-    for (const order of this.js!.engine.bid) {
-      console.log(
-        `id: ${order.id} price:${order.price} amount0:${order.amount0} owner:${this.js.orderIDToOwner.get(order.id)}`
-      )
+      console.log(`~~~~~ JS BID book:${index} ~~~~~`)
+      for (const order of js.engine.bid) {
+        console.log(
+          `id: ${order.id} price:${order.price} amount0:${order.amount0} owner:${js.orderIDToOwner.get(order.id)}`
+        )
+      }
     }
 
     console.log(` === JS === `)
-    for (const user of this.users) {
-      const wethJS = this.js.wethBalance(user)
-      const usdcJS = this.js.usdcBalance(user)
-      console.log(`${user} weth:${wethJS} usdc:${usdcJS}`)
+    for (const {index, js} of this.books) {
+      for (const user of this.users) {
+        console.log(`book:${index} ${user} token0:${js.token0Balance(user)} token1:${js.token1Balance(user)}`)
+      }
     }
 
     console.log(` === On Chain === `)
-    for (const user of this.users) {
-      const wethJS = await this.onChain.wethBalance(user)
-      const usdcJS = await this.onChain.usdcBalance(user)
-      console.log(`${user} weth:${wethJS} usdc:${usdcJS}`)
+    for (const {index, onChain} of this.books) {
+      for (const user of this.users) {
+        const token0 = await onChain.token0Balance(user)
+        const token1 = await onChain.token1Balance(user)
+        console.log(`book:${index} ${user} token0:${token0} token1:${token1}`)
+      }
     }
   }
 }
 
-export async function main() {
-  const contracts = await deployContracts()
+// creates the on-chain views of the given order books, sharing the funding of the smart wallets
+export async function createOnChainBooks(
+  contracts: Contracts,
+  orderBooks: number[],
+  wallets: OnChainWallets
+): Promise<Map<number, OnChainMatching>> {
+  const books = new Map<number, OnChainMatching>()
+  for (const index of orderBooks) {
+    const orderBook = contracts.orderBooks[index]
+    const token0 = (await ethers.getContractAt('TestERC20Token', await orderBook.token0())) as TestERC20Token
+    const token1 = (await ethers.getContractAt('TestERC20Token', await orderBook.token1())) as TestERC20Token
+    books.set(index, new OnChainMatching(orderBook, token0, token1, wallets))
+  }
+  return books
+}
+
+export async function createTester(
+  contracts: Contracts,
+  orderBooks: number[],
+  router: Quoter | null,
+  random: Random,
+  config: StressTestConfig
+) {
+  const wallets = new Wallets()
+  const onChainBooks = await createOnChainBooks(contracts, orderBooks, new OnChainWallets())
+  const quoter = new BookQuoter(orderBooks.map((index) => contracts.orderBooks[index]))
+
+  const books: Book[] = []
+  for (const index of orderBooks) {
+    const onChain = onChainBooks.get(index)!
+    const orderBook = onChain.orderBook
+    onChain.quoter = router ?? quoter
+
+    const amounts = await onChain.amounts
+    const engine = new CoreMatchingEngine(amounts)
+    const js = new JSMatching(engine, onChain.token0.address, onChain.token1.address, wallets)
+
+    books.push({
+      index,
+      js,
+      onChain,
+      sizeTick: amounts.sizeTick,
+      priceTick: amounts.priceTick,
+      minPrice: amounts.priceDivider,
+      maxSwapToken1: BigNumber.from(0), // set by setup
+    })
+  }
+
+  const tester = new StressTester(books, contracts.users, random, config)
+  await tester.setup()
+  return tester
+}
+
+// main runs the stress test as configured and returns the number of failed runs
+export async function main(config: StressTestConfig, seed: number): Promise<number> {
+  console.log(`using seed ${seed}`)
+  const random = new Random(seed)
+
+  const contracts = await deployContracts(config.users)
+  const orderBooks = config.orderBooks || contracts.orderBooks.map((_, index) => index)
+  for (const index of orderBooks) {
+    if (index >= contracts.orderBooks.length) {
+      throw `order book ${index} does not exist, only ${contracts.orderBooks.length} order books are deployed`
+    }
+  }
 
   // router deployment might fail if the periphery contracts are not available
-  // this is not a problem as the system works fine without them
+  // this is not a problem as swaps are then checked against the off-chain BookQuoter
   const router = await deployRouter(contracts.factory.address)
 
   const snapshot = await takeSnapshot()
 
-  for (let run = 0; ; run += 1) {
-    // select a random order book which will be tested
-    const orderBook = contracts.orderBooks[getRandomInt(contracts.orderBooks.length)]
+  let failures = 0
+  for (let run = 0; config.runs == null || run < config.runs; run += 1) {
+    // every run has its own seed, so a failing run can be reproduced without replaying the previous ones
+    const runSeed = random.int(4294967296)
+    const runRandom = new Random(runSeed)
 
-    const weth = (await ethers.getContractAt('TestERC20Token', await orderBook.token0())) as TestERC20Token
-    const usdc = (await ethers.getContractAt('TestERC20Token', await orderBook.token1())) as TestERC20Token
+    // all the selected order books are tested together
+    const tester = await createTester(contracts, orderBooks, router, runRandom, config)
 
-    const oneAmount0 = BigNumber.from(10).pow(await weth.decimals())
-    const sizeTick = await orderBook.sizeTick()
+    console.debug(`starting #${run} seed:${runSeed} order books:${orderBooks}`)
 
-    const onChain = new OnChainMatching(orderBook, weth, usdc)
-    if (router) {
-      onChain.quoter = router
+    try {
+      for (let i = 0; i < config.operationsPerRun; i += 1) {
+        await tester.performOperation()
+        await tester.check()
+      }
+      await tester.cancelAll()
+      await tester.check()
+      await tester.finalCheck()
+      console.log(`run #${run} seed:${runSeed} passed`)
+    } catch (e) {
+      failures += 1
+      const filePath = saveOperationLog({
+        seed: runSeed,
+        orderBooks,
+        users: config.users,
+        maxBookDepth: config.maxBookDepth,
+        error: `${e}`,
+        operations: tester.operations,
+      })
+      console.error(`run #${run} seed:${runSeed} failed with ${e}`)
+      console.error(`operation log saved to ${filePath}`)
+      if (config.stopOnFailure) {
+        break
+      }
     }
-    const js = new JSMatching(new CoreMatchingEngine(oneAmount0, sizeTick))
 
-    const tester = new StressTester(js, onChain, contracts.users)
-    await tester.setup()
+    await snapshot.restore()
+  }
 
-    console.log(`starting #${run}`)
+  return failures
+}
 
-    for (let i = 0; i < 100; i += 1) {
-      await tester.performOperation()
-      await tester.check()
-    }
-    await tester.cancelAll()
-    await tester.check()
-    await tester.finalCheck()
+// config used to re-execute the runs saved in an operation log
+export function logConfig(log: OperationLog): StressTestConfig {
+  return {...defaultConfig, users: log.users, maxBookDepth: log.maxBookDepth}
+}
 
-    await snapshot.restore()
+// replay re-executes a saved operation log against a fresh deployment, reproducing the failure of the logged run
+export async function replay(filePath: string) {
+  const log = loadOperationLog(filePath)
+  console.log(`replaying ${log.operations.length} operations of run with seed ${log.seed}; failed with: ${log.error}`)
+
+  const contracts = await deployContracts(log.users)
+  const router = await deployRouter(contracts.factory.address)
+  const tester = await createTester(contracts, log.orderBooks, router, new Random(log.seed), logConfig(log))
+
+  for (const operation of log.operations) {
+    await tester.execute(operation)
+    await tester.check()
   }
+  await tester.cancelAll()
+  await tester.check()
+  await tester.finalCheck()
 }
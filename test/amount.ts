@@ -0,0 +1,77 @@
+import {expect, CreateLimitOrder, OrderBookAmounts, Rounding, USDC, WETH} from 'test/shared'
+import {loadFixture} from '@nomicfoundation/hardhat-network-helpers'
+import {setupFixturesForSmartWallet} from './default-fixture'
+
+describe('token amounts', () => {
+  // the WETH - USDC book of the fixture: multiples of 0.00001 WETH at multiples of 0.01 USDC
+  const amounts = new OrderBookAmounts(WETH, USDC, {sizeTick: WETH.parse('0.00001'), priceTick: USDC.parse('0.01')})
+
+  it('parses human readable amounts', async () => {
+    expect(WETH.parse('1.5')).to.equal('1500000000000000000')
+    expect(WETH.parse(1.5)).to.equal('1500000000000000000')
+    expect(WETH.parse(0.1 + 0.2)).to.equal('300000000000000000')
+    expect(WETH.parse(1e-7)).to.equal('100000000000')
+    expect(WETH.parse(-1.25)).to.equal('-1250000000000000000')
+    expect(USDC.parse(3)).to.equal('3000000')
+    expect(USDC.format(USDC.parse('1450.25'))).to.equal('1450.25')
+    expect(() => USDC.parse('0.0000001')).to.throw()
+  })
+
+  it('converts to base amounts on the tick grid', async () => {
+    expect(amounts.parseAmount0('1.5')).to.equal(150000)
+    expect(amounts.parsePrice('1450.25')).to.equal(145025)
+    expect(amounts.formatAmount0(150000)).to.equal('1.5')
+    expect(amounts.formatPrice(145025)).to.equal('1450.25')
+    expect(amounts.fromAmount0Base(187.9)).to.equal(WETH.parse('0.001879'))
+  })
+
+  it('throws for values which are not on the tick grid unless rounded', async () => {
+    expect(() => amounts.parseAmount0('1.000001')).to.throw('is not a multiple of the size tick')
+    expect(() => amounts.parsePrice('1450.255')).to.throw('is not a multiple of the price tick')
+    expect(amounts.parseAmount0('1.000001', Rounding.Down)).to.equal(100000)
+    expect(amounts.parseAmount0('1.000001', Rounding.Up)).to.equal(100001)
+    expect(amounts.parsePrice('1450.255', Rounding.Down)).to.equal(145025)
+    expect(amounts.parsePrice('1450.255', Rounding.Up)).to.equal(145026)
+  })
+
+  it('computes token1 amounts like the order book', async () => {
+    // 1.5 WETH at 1450.25 USDC
+    expect(amounts.amount1(150000, 145025)).to.equal(USDC.parse('2175.375'))
+    // 0.00001 WETH at 0.01 USDC is 0.0000001 USDC, less than one unit
+    expect(amounts.amount1(1, 1)).to.equal(0)
+    expect(amounts.amount1(1, 1, Rounding.Up)).to.equal(1)
+    expect(() => amounts.amount1(1, 1, Rounding.Exact)).to.throw()
+  })
+
+  it('reads the decimals & ticks of any order book', async () => {
+    const s = await loadFixture(setupFixturesForSmartWallet)
+    const books = [s.orderBookInstance_weth_usdc, s.orderBookInstance_wbtc_usdc, s.orderBookInstance_wbtc_link]
+    for (const orderBook of books) {
+      const fromOrderBook = await OrderBookAmounts.fromOrderBook(orderBook)
+      const derived = new OrderBookAmounts(fromOrderBook.token0, fromOrderBook.token1, {
+        sizeTick: await orderBook.sizeTick(),
+        priceTick: await orderBook.priceTick(),
+      })
+      expect(derived.priceMultiplier).to.equal(await orderBook.priceMultiplier())
+      expect(derived.priceDivider).to.equal(await orderBook.priceDivider())
+    }
+
+    const wbtcLink = await OrderBookAmounts.fromOrderBook(s.orderBookInstance_wbtc_link)
+    expect(wbtcLink.token0.decimals).to.equal(8)
+    expect(wbtcLink.token1.decimals).to.equal(18)
+    expect(wbtcLink.parseAmount0('0.5')).to.equal(50000)
+    expect(wbtcLink.parsePrice('13.25')).to.equal(1325)
+  })
+
+  it('does not send orders which are not on the tick grid', async () => {
+    const {acc1, orderBook} = await loadFixture(setupFixturesForSmartWallet)
+    const order = {amount0: WETH.parse('0.000001'), price: USDC.parse(1300), isAsk: false, hintId: 0}
+    let error
+    try {
+      await CreateLimitOrder(acc1, orderBook, [order])
+    } catch (e) {
+      error = e
+    }
+    expect(error).to.include('is not a multiple of the size tick')
+  })
+})
@@ -1,6 +1,6 @@
 import {reportGasCost} from 'reports'
 import {loadFixture} from '@nomicfoundation/hardhat-network-helpers'
-import {expectOrderBook, CancelLimitOrder} from './shared'
+import {expect, expectOrderBook, CancelLimitOrder} from './shared'
 import {setupFixturesForSmartWallet} from './default-fixture'
 
 describe('benchmark limit order cancellation', function () {
@@ -10,6 +10,7 @@ describe('benchmark limit order cancellation', function () {
     const tx = await CancelLimitOrder(acc2, orderBook, [6])
     await expectOrderBook(orderBook, [3, 2, 0], [4, 7, 5, 0])
     await reportGasCost('CANCEL_1_LIMIT_ORDER', tx)
+    await expect(tx).to.useGasWithin('CANCEL_1_LIMIT_ORDER', 1)
   })
 
   it('cancels 4 limit order', async () => {
@@ -19,5 +20,6 @@ describe('benchmark limit order cancellation', function () {
     await expectOrderBook(orderBook, [2, 0], [5, 0])
 
     await reportGasCost('CANCEL_4_LIMIT_ORDERS', tx)
+    await expect(tx).to.useGasWithin('CANCEL_4_LIMIT_ORDERS', 1)
   })
 })
@@ -1,5 +1,5 @@
 import {loadFixture} from '@nomicfoundation/hardhat-network-helpers'
-import {ParseUSDC, ParseWETH, CreateLimitOrder, CreatePerformanceLimitOrder} from './shared'
+import {USDC, WETH, CreateLimitOrder, CreatePerformanceLimitOrder} from './shared'
 import {reportGasCost} from 'reports'
 import {setupFixturesForSmartWallet} from './default-fixture'
 
@@ -23,8 +23,8 @@ describe('benchmark limit order creation', function () {
 
       const tx = await f(acc1, orderBook, [
         {
-          amount0: ParseWETH('1.0'),
-          price: ParseUSDC(1425),
+          amount0: WETH.parse('1.0'),
+          price: USDC.parse(1425),
           isAsk: isAsk,
           hintId: 0,
         },
@@ -47,26 +47,26 @@ describe('benchmark limit order creation', function () {
 
       const tx = await f(acc1, orderBook, [
         {
-          amount0: ParseWETH('1.0'),
-          price: ParseUSDC(1440),
+          amount0: WETH.parse('1.0'),
+          price: USDC.parse(1440),
           isAsk: true,
           hintId: 0,
         },
         {
-          amount0: ParseWETH('1.5'),
-          price: ParseUSDC(1430),
+          amount0: WETH.parse('1.5'),
+          price: USDC.parse(1430),
           isAsk: true,
           hintId: 0,
         },
         {
-          amount0: ParseWETH('1'),
-          price: ParseUSDC(1410),
+          amount0: WETH.parse('1'),
+          price: USDC.parse(1410),
           isAsk: false,
           hintId: 0,
         },
         {
-          amount0: ParseWETH('1.5'),
-          price: ParseUSDC(1420),
+          amount0: WETH.parse('1.5'),
+          price: USDC.parse(1420),
           isAsk: false,
           hintId: 0,
         },
@@ -1,5 +1,5 @@
 import {loadFixture} from '@nomicfoundation/hardhat-network-helpers'
-import {expect, ParseUSDC, ParseWETH, CreateFoKOrder, CreateIoCOrder} from './shared'
+import {expect, USDC, WETH, CreateFoKOrder, CreateIoCOrder} from './shared'
 import {reportGasCost} from 'reports'
 import {setupFixturesForSmartWallet} from './default-fixture'
 
@@ -16,12 +16,12 @@ describe('benchmark IOC & FOK order', () => {
       const {acc1, orderBook, usdc} = await loadFixture(setupFixturesForSmartWallet)
 
       const tx = await f(acc1, orderBook, {
-        amount0: ParseWETH('3'),
-        price: ParseUSDC('1300'),
+        amount0: WETH.parse('3'),
+        price: USDC.parse('1300'),
         isAsk: true,
       })
 
-      await expect(tx).to.changeTokenBalance(usdc, acc1.address, ParseUSDC(1.5 * 1400 + 1.25 * 1375 + 0.25 * 1350))
+      await expect(tx).to.changeTokenBalance(usdc, acc1.address, USDC.parse(1.5 * 1400 + 1.25 * 1375 + 0.25 * 1350))
       await reportGasCost(scenario, tx)
     }
   })
@@ -37,11 +37,11 @@ describe('benchmark IOC & FOK order', () => {
       const {acc1, orderBook, weth} = await loadFixture(setupFixturesForSmartWallet)
 
       const tx = await f(acc1, orderBook, {
-        amount0: ParseWETH('3.5'),
-        price: ParseUSDC('1550'),
+        amount0: WETH.parse('3.5'),
+        price: USDC.parse('1550'),
         isAsk: false,
       })
-      await expect(tx).to.changeTokenBalance(weth, acc1.address, ParseWETH('3.5'))
+      await expect(tx).to.changeTokenBalance(weth, acc1.address, WETH.parse('3.5'))
       await reportGasCost(scenario, tx)
     }
   })
@@ -58,8 +58,8 @@ describe('benchmark IOC & FOK order', () => {
 
       const g = async () => {
         return f(acc1, orderBook, {
-          amount0: ParseWETH('4'),
-          price: ParseUSDC('1550'),
+          amount0: WETH.parse('4'),
+          price: USDC.parse('1550'),
           isAsk: false,
         })
       }
@@ -68,7 +68,7 @@ describe('benchmark IOC & FOK order', () => {
         await expect(g()).to.be.revertedWithCustomError(orderBook, 'LighterV2Order_FoKNotFilled')
       } else {
         const tx = await g()
-        await expect(tx).to.changeTokenBalance(weth, acc1.address, ParseWETH('3.75'))
+        await expect(tx).to.changeTokenBalance(weth, acc1.address, WETH.parse('3.75'))
         await reportGasCost(scenario, tx)
       }
     }
@@ -85,11 +85,11 @@ describe('benchmark IOC & FOK order', () => {
       const {acc1, orderBook, weth} = await loadFixture(setupFixturesForSmartWallet)
 
       const tx = await f(acc1, orderBook, {
-        amount0: ParseWETH('2.75'),
-        price: ParseUSDC('1475'),
+        amount0: WETH.parse('2.75'),
+        price: USDC.parse('1475'),
         isAsk: false,
       })
-      await expect(tx).to.changeTokenBalance(weth, acc1.address, ParseWETH('2.75'))
+      await expect(tx).to.changeTokenBalance(weth, acc1.address, WETH.parse('2.75'))
       await reportGasCost(scenario, tx)
     }
   })
@@ -97,8 +97,8 @@ describe('benchmark IOC & FOK order', () => {
     const {acc1, orderBook} = await loadFixture(setupFixturesForSmartWallet)
 
     const tx = await CreateIoCOrder(acc1, orderBook, {
-      amount0: ParseWETH('1.5'),
-      price: ParseUSDC('1475'),
+      amount0: WETH.parse('1.5'),
+      price: USDC.parse('1475'),
       isAsk: false,
     })
     await reportGasCost('IOC_CREATE_1_FILLS', tx)
@@ -107,8 +107,8 @@ describe('benchmark IOC & FOK order', () => {
     const {acc1, orderBook} = await loadFixture(setupFixturesForSmartWallet)
 
     const tx = await CreateIoCOrder(acc1, orderBook, {
-      amount0: ParseWETH('0.5'),
-      price: ParseUSDC('1475'),
+      amount0: WETH.parse('0.5'),
+      price: USDC.parse('1475'),
       isAsk: false,
     })
     await reportGasCost('IOC_CREATE_0.5_FILLS', tx)
@@ -117,23 +117,23 @@ describe('benchmark IOC & FOK order', () => {
     const {acc1, orderBook, weth} = await loadFixture(setupFixturesForSmartWallet)
 
     const tx = await CreateIoCOrder(acc1, orderBook, {
-      amount0: ParseWETH('3'),
-      price: ParseUSDC('1449'),
+      amount0: WETH.parse('3'),
+      price: USDC.parse('1449'),
       isAsk: false,
     })
-    await expect(tx).to.changeTokenBalance(weth, acc1.address, ParseWETH('0'))
+    await expect(tx).to.changeTokenBalance(weth, acc1.address, WETH.parse('0'))
     await reportGasCost('IOC_CREATE_0_FILLS', tx)
   })
   it('Bid; 1 full match; stops if price is bad', async () => {
     const {acc1, orderBook, weth, usdc} = await loadFixture(setupFixturesForSmartWallet)
 
     const tx = await CreateIoCOrder(acc1, orderBook, {
-      amount0: ParseWETH('10'),
-      price: ParseUSDC('1460'),
+      amount0: WETH.parse('10'),
+      price: USDC.parse('1460'),
       isAsk: false,
     })
-    await expect(tx).to.changeTokenBalance(weth, acc1.address, ParseWETH(1.5))
-    await expect(tx).to.changeTokenBalance(usdc, acc1.address, ParseUSDC(-1.5 * 1450))
+    await expect(tx).to.changeTokenBalance(weth, acc1.address, WETH.parse(1.5))
+    await expect(tx).to.changeTokenBalance(usdc, acc1.address, USDC.parse(-1.5 * 1450))
     await reportGasCost('IOC_CREATE_1_FILLS_STOPS_IF_PRICE_IS_BAD', tx)
   })
 })
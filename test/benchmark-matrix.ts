@@ -0,0 +1,153 @@
+import {loadFixture} from '@nomicfoundation/hardhat-network-helpers'
+import {ContractTransaction} from 'ethers'
+import {OrderBook, SmartWallet} from 'typechain-types'
+import {
+  expect,
+  planHintIds,
+  readBookSnapshot,
+  USDC,
+  WETH,
+  CancelLimitOrder,
+  CreateIoCOrder,
+  CreateLimitOrder,
+  CreatePerformanceLimitOrder,
+} from './shared'
+import {GasCurve, reportGasCost, writeGasCurve} from 'reports'
+import {setupEmptyBookFixturesForSmartWallet} from './default-fixture'
+
+// sweeps the parameters the gas of matching & insertion depends on, on a book built for every point
+// every point is reported by reportGasCost & the curves are written to reports/gas-curves as csv & svg
+const DEPTHS = [0, 1, 2, 4, 8, 16, 32]
+const FILLS = [1, 2, 4, 8, 16, 32]
+const BATCH_SIZES = [1, 2, 4, 8, 16]
+
+// empty WETH - USDC book; both wallets deposited for performance orders & already registered their creator id, and
+// the book holds some of both tokens, like setupFixturesForSmartWallet, so the measured transactions pay none of it
+async function setupMatrixFixture() {
+  const s = await loadFixture(setupEmptyBookFixturesForSmartWallet)
+  for (const wallet of [s.acc1, s.acc2] as SmartWallet[]) {
+    await wallet.depositToken0(0, WETH.parse('5'))
+    await wallet.depositToken1(0, USDC.parse('5000'))
+    const orderId = await s.orderBook.orderIdCounter()
+    await CreateLimitOrder(wallet, s.orderBook, [
+      {amount0: WETH.parse('0.01'), price: USDC.parse(1), isAsk: false, hintId: 0},
+    ])
+    await CancelLimitOrder(wallet, s.orderBook, [orderId])
+  }
+  for (const token of [s.token_weth, s.token_usdc]) {
+    await token.mint(s.orderBookAddress_weth_usdc, 1)
+  }
+  return s
+}
+
+// asks of 0.01 WETH, 1 USDC apart, behind the asks of the book; hints are planned by planHintIds or all 0
+async function createAsks(
+  wallet: SmartWallet,
+  orderBook: OrderBook,
+  count: number,
+  performance: boolean,
+  exactHints: boolean = true
+): Promise<ContractTransaction> {
+  const book = await readBookSnapshot(orderBook)
+  const first = book.asks.length
+  const orders = [...Array(count).keys()].map((index) => ({
+    amount0: WETH.parse('0.01'),
+    price: USDC.parse(1500 + first + index),
+    isAsk: true,
+  }))
+  const hintIds = exactHints ? planHintIds(book, orders) : orders.map(() => 0)
+  const create = performance ? CreatePerformanceLimitOrder : CreateLimitOrder
+  return create(
+    wallet,
+    orderBook,
+    orders.map((order, index) => ({...order, hintId: hintIds[index]}))
+  )
+}
+
+async function measure(scenario: string, tx: ContractTransaction): Promise<number> {
+  await reportGasCost(scenario, tx)
+  return (await tx.wait()).gasUsed.toNumber()
+}
+
+describe('benchmark matrix', () => {
+  const insertion = new GasCurve('insertion-position', 'insertion of 1 ask after the asks of the book', 'asks ahead')
+  const fills = new GasCurve('makers-consumed', 'IoC bid consuming every ask of the book', 'makers consumed')
+  const batches = new GasCurve('batch-size', 'orders created or canceled in one transaction', 'batch size')
+
+  after(() => {
+    for (const curve of [insertion, fills, batches]) {
+      if (curve.points.length != 0) {
+        writeGasCurve(curve)
+      }
+    }
+  })
+
+  describe('insertion position & hint quality', () => {
+    for (const depth of DEPTHS) {
+      it(`after ${depth} asks`, async () => {
+        for (const [series, scenario, performance, exactHints] of [
+          ['limit order, hint 0', `MATRIX_INSERT_AFTER_${depth}_HINT_0`, false, false],
+          ['limit order, exact hint', `MATRIX_INSERT_AFTER_${depth}_EXACT_HINT`, false, true],
+          ['performance order, exact hint', `MATRIX_INSERT_PERFORMANCE_AFTER_${depth}_EXACT_HINT`, true, true],
+        ] as const) {
+          const {acc1, acc2, orderBook} = await loadFixture(setupMatrixFixture)
+          if (depth > 0) {
+            await createAsks(acc2, orderBook, depth, false)
+          }
+
+          const tx = await createAsks(acc1, orderBook, 1, performance, exactHints)
+          insertion.add(series, depth, await measure(scenario, tx))
+          expect((await readBookSnapshot(orderBook)).asks.length).to.equal(depth + 1)
+        }
+      })
+    }
+  })
+
+  describe('makers consumed', () => {
+    for (const count of FILLS) {
+      it(`${count} fills`, async () => {
+        for (const [series, scenario, performance] of [
+          ['limit order makers', `MATRIX_IOC_${count}_FILLS`, false],
+          ['performance order makers', `MATRIX_IOC_${count}_FILLS_PERFORMANCE_MAKERS`, true],
+        ] as const) {
+          const {acc1, acc2, orderBook} = await loadFixture(setupMatrixFixture)
+          await createAsks(acc2, orderBook, count, performance)
+
+          const tx = await CreateIoCOrder(acc1, orderBook, {
+            amount0: WETH.parse('0.01').mul(count),
+            price: USDC.parse(1500 + count),
+            isAsk: false,
+          })
+          fills.add(series, count, await measure(scenario, tx))
+          expect((await readBookSnapshot(orderBook)).asks.length).to.equal(0)
+        }
+      })
+    }
+  })
+
+  describe('batch size', () => {
+    for (const size of BATCH_SIZES) {
+      it(`${size} orders`, async () => {
+        for (const [series, scenario, performance] of [
+          ['createLimitOrder', `MATRIX_CREATE_${size}_LIMIT_ORDERS`, false],
+          ['createPerformanceLimitOrder', `MATRIX_CREATE_${size}_PERFORMANCE_ORDERS`, true],
+        ] as const) {
+          const {acc1, orderBook} = await loadFixture(setupMatrixFixture)
+          const tx = await createAsks(acc1, orderBook, size, performance)
+          batches.add(series, size, await measure(scenario, tx))
+        }
+
+        const {acc1, orderBook} = await loadFixture(setupMatrixFixture)
+        await createAsks(acc1, orderBook, size, false)
+        const asks = (await readBookSnapshot(orderBook)).asks
+        const tx = await CancelLimitOrder(
+          acc1,
+          orderBook,
+          asks.map((order) => order.id)
+        )
+        batches.add('cancelLimitOrder', size, await measure(`MATRIX_CANCEL_${size}_LIMIT_ORDERS`, tx))
+        expect((await readBookSnapshot(orderBook)).asks.length).to.equal(0)
+      })
+    }
+  })
+})
@@ -0,0 +1,67 @@
+import {loadFixture} from '@nomicfoundation/hardhat-network-helpers'
+import {BigNumber} from 'ethers'
+import {decodeRevert, expect, USDC, WETH} from './shared'
+import {setupFixturesForSmartWallet} from './default-fixture'
+import {BookQuoter} from 'scripts/stress-test/book-quoter'
+
+describe('book quoter', () => {
+  const amounts0 = [0, 1, '0.00000999', '0.00001', '0.0000100001', '0.5', '1.5', '2.00000123', '3.75', '3.76']
+  const amounts1 = [0, 1, 14999, '0.123456', '1000.01', '2175', '2175.000001', '5000', '5412.5', '5413']
+
+  it('quotes what swaps fill', async () => {
+    const {acc1, orderBook} = await loadFixture(setupFixturesForSmartWallet)
+    const quoter = new BookQuoter([orderBook])
+
+    for (const isAsk of [true, false]) {
+      for (const isExactInput of [true, false]) {
+        const isExactToken0 = isExactInput == isAsk
+        for (const value of isExactToken0 ? amounts0 : amounts1) {
+          const amount = typeof value == 'number' ? BigNumber.from(value) : (isExactToken0 ? WETH : USDC).parse(value)
+          const swap = isExactInput
+            ? acc1.callStatic.swapExactInput(0, isAsk, amount, 0, acc1.address)
+            : acc1.callStatic.swapExactOutput(0, isAsk, amount, BigNumber.from(10).pow(30), acc1.address)
+          const quote = isExactInput
+            ? quoter.getQuoteForExactInput(0, isAsk, amount)
+            : quoter.getQuoteForExactOutput(0, isAsk, amount)
+          const description = `isAsk:${isAsk} isExactInput:${isExactInput} amount:${amount}`
+
+          const swapped = await swap.then(
+            ([filledAmount0, filledAmount1]) =>
+              isAsk ? [filledAmount0, filledAmount1] : [filledAmount1, filledAmount0],
+            (e) => decodeRevert(e)
+          )
+          const quoted = await quote.then(
+            ({quotedInput, quotedOutput}) => [quotedInput, quotedOutput],
+            (e) => decodeRevert(e)
+          )
+          expect(quoted).to.eql(swapped, description)
+        }
+      }
+    }
+  })
+
+  it('quotes from the current state of the book', async () => {
+    const {acc1, acc2, orderBook} = await loadFixture(setupFixturesForSmartWallet)
+    const quoter = new BookQuoter([orderBook])
+
+    const before = await quoter.getQuoteForExactOutput(0, false, WETH.parse(1.5))
+    expect(before.quotedInput).to.equal(USDC.parse(1.5 * 1450))
+
+    // takes ask 3, the 1.5 WETH at 1450
+    await acc2.swapExactOutput(0, false, WETH.parse(1.5), USDC.parse(1.5 * 1450), acc2.address)
+    const after = await quoter.getQuoteForExactOutput(0, false, WETH.parse(1.5))
+    expect(after.quotedInput).to.equal(USDC.parse(1.25 * 1475 + 0.25 * 1500))
+
+    const [filledAmount0, filledAmount1] = await acc1.callStatic.swapExactOutput(
+      0,
+      false,
+      WETH.parse(1.5),
+      after.quotedInput,
+      acc1.address
+    )
+    expect(filledAmount0).to.equal(WETH.parse(1.5))
+    expect(filledAmount1).to.equal(after.quotedInput)
+
+    expect(await quoter.getQuoteForExactInput(1, true, 1).catch((e) => e)).to.equal('unknown order book 1')
+  })
+})
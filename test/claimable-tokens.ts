@@ -1,4 +1,4 @@
-import {expect, ParseUSDC, ParseWETH} from 'test/shared'
+import {expect, USDC, WETH} from 'test/shared'
 import {loadFixture} from '@nomicfoundation/hardhat-network-helpers'
 import {setupFixturesForSmartWallet} from './default-fixture'
 
@@ -13,34 +13,34 @@ describe('Claimable Tokens', () => {
 
       const before = await s.weth.balanceOf(s.acc1.address)
 
-      const tx = await s.acc1.depositToken0(0, ParseWETH('0.5'))
-      await expect(tx).emit(s.orderBook, 'ClaimableBalanceIncrease').withArgs(s.acc1.address, ParseWETH('0.5'), true)
+      const tx = await s.acc1.depositToken0(0, WETH.parse('0.5'))
+      await expect(tx).emit(s.orderBook, 'ClaimableBalanceIncrease').withArgs(s.acc1.address, WETH.parse('0.5'), true)
       // .withNamedArgs({
       //   owner: s.acc1.address,
-      //   amountDelta: ParseWETH('0.5'),
+      //   amountDelta: WETH.parse('0.5'),
       //   isToken0: true,
       // })
 
       const after = await s.weth.balanceOf(s.acc1.address)
-      expect(before.sub(after)).to.equal(ParseWETH('0.5'))
+      expect(before.sub(after)).to.equal(WETH.parse('0.5'))
     })
     it('token1', async () => {
       const s = await loadFixture(setupFixturesForSmartWallet)
 
       const before = await s.usdc.balanceOf(s.acc1.address)
 
-      const tx = await s.acc1.depositToken1(0, ParseUSDC('1450'))
+      const tx = await s.acc1.depositToken1(0, USDC.parse('1450'))
       await expect(tx)
         .to.emit(s.orderBook, 'ClaimableBalanceIncrease')
-        .withArgs(s.acc1.address, ParseUSDC('1450'), false)
+        .withArgs(s.acc1.address, USDC.parse('1450'), false)
       // .withNamedArgs({
       //   owner: s.acc1.address,
-      //   amountDelta: ParseUSDC('1450'),
+      //   amountDelta: USDC.parse('1450'),
       //   isToken0: false,
       // })
 
       const after = await s.usdc.balanceOf(s.acc1.address)
-      expect(before.sub(after)).to.equal(ParseUSDC('1450'))
+      expect(before.sub(after)).to.equal(USDC.parse('1450'))
     })
   })
   describe('claims', () => {
@@ -49,34 +49,36 @@ describe('Claimable Tokens', () => {
 
       const before = await s.weth.balanceOf(s.acc1.address)
 
-      const tx = await s.acc1.claimToken0(0, ParseWETH('0.5'))
-      await expect(tx).to.emit(s.orderBook, 'ClaimableBalanceDecrease').withArgs(s.acc1.address, ParseWETH('0.5'), true)
+      const tx = await s.acc1.claimToken0(0, WETH.parse('0.5'))
+      await expect(tx)
+        .to.emit(s.orderBook, 'ClaimableBalanceDecrease')
+        .withArgs(s.acc1.address, WETH.parse('0.5'), true)
       // .withNamedArgs({
       //   owner: s.acc1.address,
-      //   amountDelta: ParseWETH('0.5'),
+      //   amountDelta: WETH.parse('0.5'),
       //   isToken0: true,
       // })
 
       const after = await s.weth.balanceOf(s.acc1.address)
-      expect(after.sub(before)).to.equal(ParseWETH('0.5'))
+      expect(after.sub(before)).to.equal(WETH.parse('0.5'))
     })
     it('token1', async () => {
       const s = await loadFixture(setupFixturesForSmartWallet)
 
       const before = await s.usdc.balanceOf(s.acc1.address)
 
-      const tx = await s.acc1.claimToken1(0, ParseUSDC('1450'))
+      const tx = await s.acc1.claimToken1(0, USDC.parse('1450'))
       await expect(tx)
         .to.emit(s.orderBook, 'ClaimableBalanceDecrease')
-        .withArgs(s.acc1.address, ParseUSDC('1450'), false)
+        .withArgs(s.acc1.address, USDC.parse('1450'), false)
       // .withNamedArgs({
       //   owner: s.acc1.address,
-      //   amountDelta: ParseUSDC('1450'),
+      //   amountDelta: USDC.parse('1450'),
       //   isToken0: false,
       // })
 
       const after = await s.usdc.balanceOf(s.acc1.address)
-      expect(after.sub(before)).to.equal(ParseUSDC('1450'))
+      expect(after.sub(before)).to.equal(USDC.parse('1450'))
     })
     it('all', async () => {
       const s = await loadFixture(setupFixturesForSmartWallet)
@@ -87,34 +89,34 @@ describe('Claimable Tokens', () => {
       const tx = await s.acc1.claimAll(0)
       await expect(tx)
         .to.emit(s.orderBook, 'ClaimableBalanceDecrease')
-        .withArgs(s.acc1.address, ParseWETH('10'), true)
+        .withArgs(s.acc1.address, WETH.parse('10'), true)
         // .withNamedArgs({
         //   owner: s.acc1.address,
-        //   amountDelta: ParseWETH('10'),
+        //   amountDelta: WETH.parse('10'),
         //   isToken0: true,
         // })
         .to.emit(s.orderBook, 'ClaimableBalanceDecrease')
-        .withArgs(s.acc1.address, ParseUSDC('15000'), false)
+        .withArgs(s.acc1.address, USDC.parse('15000'), false)
       // .withNamedArgs({
       //   owner: s.acc1.address,
-      //   amountDelta: ParseUSDC('15000'),
+      //   amountDelta: USDC.parse('15000'),
       //   isToken0: false,
       // })
 
       const afterUSDC = await s.usdc.balanceOf(s.acc1.address)
       const afterWETH = await s.weth.balanceOf(s.acc1.address)
 
-      expect(afterWETH.sub(beforeWETH)).to.equal(ParseWETH('10'))
-      expect(afterUSDC.sub(beforeUSDC)).to.equal(ParseUSDC('15000'))
+      expect(afterWETH.sub(beforeWETH)).to.equal(WETH.parse('10'))
+      expect(afterUSDC.sub(beforeUSDC)).to.equal(USDC.parse('15000'))
     })
     it('revert for invalid claim amount token0', async () => {
       const s = await loadFixture(setupFixturesForSmartWallet)
-      const tx = s.acc1.claimToken0(0, ParseWETH('15'))
+      const tx = s.acc1.claimToken0(0, WETH.parse('15'))
       await expect(tx).to.be.revertedWithCustomError(s.orderBook, 'LighterV2Vault_InvalidClaimAmount')
     })
     it('revert for invalid claim amount token1', async () => {
       const s = await loadFixture(setupFixturesForSmartWallet)
-      const tx = s.acc1.claimToken1(0, ParseUSDC('15500'))
+      const tx = s.acc1.claimToken1(0, USDC.parse('15500'))
       await expect(tx).to.be.revertedWithCustomError(s.orderBook, 'LighterV2Vault_InvalidClaimAmount')
     })
   })
@@ -1,7 +1,7 @@
 import {Factory, OrderBook, SmartWallet, TestERC20Token} from 'typechain-types'
 import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
 import {ethers} from 'hardhat'
-import {ParseUSDC, ParseWETH, CreateLimitOrder, CancelLimitOrder} from './shared'
+import {USDC, WETH, CreateLimitOrder, CancelLimitOrder} from './shared'
 import {loadFixture} from '@nomicfoundation/hardhat-network-helpers'
 
 export async function deployFactory(owner: SignerWithAddress) {
@@ -270,38 +270,38 @@ export async function createOrders(s: any, cancelOrder: boolean) {
   // create orders
   await CreateLimitOrder(acc2, orderBook, [
     {
-      amount0: ParseWETH('1.0'),
-      price: ParseUSDC(1500),
+      amount0: WETH.parse('1.0'),
+      price: USDC.parse(1500),
       isAsk: true,
       hintId: 0,
     },
     {
-      amount0: ParseWETH('1.5'),
-      price: ParseUSDC(1450),
+      amount0: WETH.parse('1.5'),
+      price: USDC.parse(1450),
       isAsk: true,
       hintId: 0,
     },
     {
-      amount0: ParseWETH('1.5'),
-      price: ParseUSDC(1400),
+      amount0: WETH.parse('1.5'),
+      price: USDC.parse(1400),
       isAsk: false,
       hintId: 0,
     },
     {
-      amount0: ParseWETH('1'),
-      price: ParseUSDC(1350),
+      amount0: WETH.parse('1'),
+      price: USDC.parse(1350),
       isAsk: false,
       hintId: 0,
     },
     {
-      amount0: ParseWETH('1.25'),
-      price: ParseUSDC(1475),
+      amount0: WETH.parse('1.25'),
+      price: USDC.parse(1475),
       isAsk: true,
       hintId: 0,
     },
     {
-      amount0: ParseWETH('1.25'),
-      price: ParseUSDC(1375),
+      amount0: WETH.parse('1.25'),
+      price: USDC.parse(1375),
       isAsk: false,
       hintId: 0,
     },
@@ -310,8 +310,8 @@ export async function createOrders(s: any, cancelOrder: boolean) {
   // create one order from acc1 and cancel it so we pay the gas to register our customer ID upfront
   await CreateLimitOrder(acc1, orderBook, [
     {
-      amount0: ParseWETH('1.0'),
-      price: ParseUSDC(1425),
+      amount0: WETH.parse('1.0'),
+      price: USDC.parse(1425),
       isAsk: true,
       hintId: 0,
     },
@@ -336,13 +336,13 @@ export async function createOrders(s: any, cancelOrder: boolean) {
 export async function fundSmartWallet(s: any, deposit: boolean) {
   for (let wallet of [s.acc1, s.acc2]) {
     // fund the smart wallet
-    await s.token_usdc.mint(wallet.address, ParseUSDC('30000'))
-    await s.token_weth.mint(wallet.address, ParseWETH('20'))
+    await s.token_usdc.mint(wallet.address, USDC.parse('30000'))
+    await s.token_weth.mint(wallet.address, WETH.parse('20'))
 
     if (deposit) {
       // fund book for perf orders
-      await wallet.depositToken0(0, ParseWETH('10'))
-      await wallet.depositToken1(0, ParseUSDC('15000'))
+      await wallet.depositToken0(0, WETH.parse('10'))
+      await wallet.depositToken1(0, USDC.parse('15000'))
     }
   }
 }
@@ -2,6 +2,7 @@ import {Factory} from 'typechain-types'
 import {Contract} from 'ethers'
 import {ethers} from 'hardhat'
 import {deployFactory} from './default-fixture'
+import {decodeRevert} from './shared'
 import {expect} from 'chai'
 import {loadFixture} from '@nomicfoundation/hardhat-network-helpers'
 import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
@@ -40,49 +41,34 @@ describe('Factory contract', function () {
     })
 
     it("can't have equal tokens", async function () {
-      try {
-        await factory.createOrderBook(WETH.address, WETH.address, 2, 2, 10, 10)
-      } catch (error: any) {
-        expect(error.message).to.include('LighterV2CreateOrderBook_InvalidTokenPair')
-      }
+      const error = await factory.createOrderBook(WETH.address, WETH.address, 2, 2, 10, 10).catch((e) => e)
+      expect(decodeRevert(error)).to.eql({kind: 'lighter', name: 'LighterV2CreateOrderBook_InvalidTokenPair'})
     })
 
     it("can't have token0 equal to zero", async function () {
-      try {
-        await factory.createOrderBook(zeroAddress, WBTC.address, 2, 2, 10, 10)
-      } catch (error: any) {
-        expect(error.message).to.include('LighterV2CreateOrderBook_InvalidTokenPair')
-      }
+      const error = await factory.createOrderBook(zeroAddress, WBTC.address, 2, 2, 10, 10).catch((e) => e)
+      expect(decodeRevert(error)).to.eql({kind: 'lighter', name: 'LighterV2CreateOrderBook_InvalidTokenPair'})
     })
 
     it("can't have token1 equal to zero", async function () {
-      try {
-        await factory.createOrderBook(WETH.address, zeroAddress, 2, 2, 10, 10)
-      } catch (error: any) {
-        expect(error.message).to.include('LighterV2CreateOrderBook_InvalidTokenPair')
-      }
+      const error = await factory.createOrderBook(WETH.address, zeroAddress, 2, 2, 10, 10).catch((e) => e)
+      expect(decodeRevert(error)).to.eql({kind: 'lighter', name: 'LighterV2CreateOrderBook_InvalidTokenPair'})
     })
 
     it("can't have duplicate order book", async function () {
       // Create the order book
       await factory.createOrderBook(WETH.address, WBTC.address, 2, 2, 10, 10)
 
-      try {
-        await factory.createOrderBook(WETH.address, WBTC.address, 2, 2, 10, 10)
-      } catch (error: any) {
-        expect(error.message).to.include('LighterV2CreateOrderBook_OrderBookAlreadyExists')
-      }
+      const error = await factory.createOrderBook(WETH.address, WBTC.address, 2, 2, 10, 10).catch((e) => e)
+      expect(decodeRevert(error)).to.eql({kind: 'lighter', name: 'LighterV2CreateOrderBook_OrderBookAlreadyExists'})
     })
 
     it("can't have two order books with tokens in reverse order", async function () {
       // Create the order book
       await factory.createOrderBook(WETH.address, WBTC.address, 2, 2, 10, 10)
 
-      try {
-        await factory.createOrderBook(WBTC.address, WETH.address, 2, 2, 10, 10)
-      } catch (error: any) {
-        expect(error.message).to.include('LighterV2CreateOrderBook_OrderBookAlreadyExists')
-      }
+      const error = await factory.createOrderBook(WBTC.address, WETH.address, 2, 2, 10, 10).catch((e) => e)
+      expect(decodeRevert(error)).to.eql({kind: 'lighter', name: 'LighterV2CreateOrderBook_OrderBookAlreadyExists'})
     })
 
     it('creates two order books successfully', async function () {
@@ -2,7 +2,7 @@ import {loadFixture} from '@nomicfoundation/hardhat-network-helpers'
 import {ethers} from 'hardhat'
 import {reportGasCost} from 'reports'
 import {setupFixturesForSmartWallet} from './default-fixture'
-import {expect, ParseUSDC, ParseWETH} from './shared'
+import {expect, USDC, WETH} from './shared'
 import {TestFlashLoanBadCallee, TestFlashLoanCallee, TestFlashLoanReentrantCallee} from 'typechain-types'
 
 describe('flash-loan', function () {
@@ -11,7 +11,7 @@ describe('flash-loan', function () {
 
     const callee = (await (await ethers.getContractFactory('TestFlashLoanCallee')).deploy()) as TestFlashLoanCallee
 
-    const tx = await callee.flash(orderBook.address, ParseWETH('1.0'), ParseUSDC('25.0'))
+    const tx = await callee.flash(orderBook.address, WETH.parse('1.0'), USDC.parse('25.0'))
     await expect(tx)
       .to.changeTokenBalance(weth, callee.address, 0)
       .to.changeTokenBalance(weth, callee.address, 0)
@@ -27,7 +27,7 @@ describe('flash-loan', function () {
       await ethers.getContractFactory('TestFlashLoanBadCallee')
     ).deploy()) as TestFlashLoanBadCallee
 
-    const tx = callee.flash(orderBook.address, ParseWETH('1.0'), ParseUSDC('25.0'))
+    const tx = callee.flash(orderBook.address, WETH.parse('1.0'), USDC.parse('25.0'))
     await expect(tx).to.be.revertedWithCustomError(orderBook, 'LighterV2FlashLoan_InsufficentCallbackTransfer')
   })
   it('reverts when caller tries reentrancy', async function () {
@@ -37,7 +37,7 @@ describe('flash-loan', function () {
       await ethers.getContractFactory('TestFlashLoanReentrantCallee')
     ).deploy()) as TestFlashLoanReentrantCallee
 
-    const tx = callee.flash(orderBook.address, ParseWETH('1.0'), ParseUSDC('25.0'))
+    const tx = callee.flash(orderBook.address, WETH.parse('1.0'), USDC.parse('25.0'))
 
     await expect(tx).to.be.revertedWith('ReentrancyGuard: reentrant call')
   })
@@ -48,10 +48,10 @@ describe('flash-loan', function () {
     const callee = (await (await ethers.getContractFactory('TestFlashLoanCallee')).deploy()) as TestFlashLoanCallee
     let tx
 
-    tx = callee.flash(orderBook.address, ParseWETH('100.0'), ParseUSDC('25.0'))
+    tx = callee.flash(orderBook.address, WETH.parse('100.0'), USDC.parse('25.0'))
     await expect(tx).to.be.revertedWithCustomError(orderBook, 'LighterV2TokenTransfer_Failed')
 
-    tx = callee.flash(orderBook.address, ParseWETH('1.0'), ParseUSDC('250000.0'))
+    tx = callee.flash(orderBook.address, WETH.parse('1.0'), USDC.parse('250000.0'))
     await expect(tx).to.be.revertedWithCustomError(orderBook, 'LighterV2TokenTransfer_Failed')
   })
 })
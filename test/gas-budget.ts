@@ -0,0 +1,54 @@
+import {loadFixture} from '@nomicfoundation/hardhat-network-helpers'
+import {expect, CancelLimitOrder} from './shared'
+import {setupFixturesForSmartWallet} from './default-fixture'
+import {baselineGas} from 'reports/gas-budget'
+
+describe('gas budget assertions', () => {
+  async function cancel4LimitOrders() {
+    const {acc2, orderBook} = await loadFixture(setupFixturesForSmartWallet)
+    return await CancelLimitOrder(acc2, orderBook, [6, 7, 3, 4])
+  }
+
+  async function failure(assertion: Promise<void>): Promise<string | undefined> {
+    let error
+    try {
+      await assertion
+    } catch (e) {
+      error = e
+    }
+    return error == undefined ? undefined : `${error}`
+  }
+
+  it('checks the L2 gas of the transaction', async () => {
+    const tx = await cancel4LimitOrders()
+    const {gasUsed} = await tx.wait()
+    await expect(tx).to.useGasAtMost(gasUsed.toNumber())
+    await expect(tx).not.to.useGasAtMost(gasUsed.toNumber() - 1)
+
+    const message = await failure(expect(tx).to.useGasAtMost(100000))
+    expect(message).to.match(
+      new RegExp(
+        `expected transaction to use at most 100000 L2 gas, but it used ${gasUsed} L2 gas \\(estimated L1 gas \\d+`
+      )
+    )
+  })
+
+  it('checks the L2 gas of the transaction against its baseline', async () => {
+    const tx = await cancel4LimitOrders()
+    const {gasUsed} = await tx.wait()
+    const baseline = baselineGas('CANCEL_4_LIMIT_ORDERS')
+    expect(gasUsed.toNumber()).to.equal(baseline.l2GasUsed)
+    await expect(tx).to.useGasWithin('CANCEL_4_LIMIT_ORDERS', 0)
+
+    // the cancellation of 4 orders costs more than the baseline of canceling 1
+    const message = await failure(expect(tx).to.useGasWithin('CANCEL_1_LIMIT_ORDER', 10))
+    const budget = Math.floor(baselineGas('CANCEL_1_LIMIT_ORDER').l2GasUsed * 1.1)
+    expect(message).to.include(`expected CANCEL_1_LIMIT_ORDER to use at most ${budget} L2 gas, 10% over its baseline`)
+    expect(message).to.include(`but it used ${gasUsed} L2 gas (+`)
+    expect(message).to.match(/and an estimated \d+ L1 gas \([+-]\d+/)
+
+    expect(await failure(expect(tx).to.useGasWithin('CANCEL_5_LIMIT_ORDERS', 1))).to.include(
+      'scenario CANCEL_5_LIMIT_ORDERS is not in the gas baseline'
+    )
+  })
+})
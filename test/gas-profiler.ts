@@ -0,0 +1,46 @@
+import {network} from 'hardhat'
+import {loadFixture} from '@nomicfoundation/hardhat-network-helpers'
+import {expect, USDC, WETH, CreateIoCOrder, CreateLimitOrder, CreatePerformanceLimitOrder} from './shared'
+import {setupFixturesForSmartWallet} from './default-fixture'
+import {profileTransaction} from 'reports/gas-profiler'
+
+describe('gas profiler', () => {
+  const order = {amount0: WETH.parse('1.0'), price: USDC.parse(1425), isAsk: true, hintId: 0}
+
+  it('profiles limit & performance limit orders', async () => {
+    const {acc1, orderBook} = await loadFixture(setupFixturesForSmartWallet)
+    const limit = await profileTransaction(network.provider, await CreateLimitOrder(acc1, orderBook, [order]))
+
+    const s = await loadFixture(setupFixturesForSmartWallet)
+    const performance = await profileTransaction(
+      network.provider,
+      await CreatePerformanceLimitOrder(s.acc1, s.orderBook, [order])
+    )
+
+    // the limit order is paid in the callback of the wallet, the performance order from its claimable balance
+    expect(limit.calls.transferCallback.count).to.equal(1)
+    expect(limit.calls.tokenTransfer.count).to.equal(1)
+    expect(limit.calls.balanceOf.count).to.equal(2)
+    expect(performance.calls.transferCallback.count).to.equal(0)
+    expect(performance.calls.tokenTransfer.count).to.equal(0)
+    expect(performance.calls.balanceOf.count).to.equal(0)
+    expect(limit.calls.orderBook.count).to.equal(1)
+    expect(performance.calls.orderBook.count).to.equal(1)
+    expect(performance.calls.orderBook.gas).to.be.lessThan(limit.calls.orderBook.gas)
+  })
+
+  it('counts the iterations of the matching loop', async () => {
+    const {acc1, orderBook} = await loadFixture(setupFixturesForSmartWallet)
+    const tx = await CreateIoCOrder(acc1, orderBook, {
+      amount0: WETH.parse('3.5'),
+      price: USDC.parse('1550'),
+      isAsk: false,
+    })
+
+    const swaps = (await tx.wait()).logs.filter((log) => log.topics[0] == orderBook.interface.getEventTopic('Swap'))
+    const profile = await profileTransaction(network.provider, tx)
+    expect(profile.fills.count).to.equal(swaps.length).and.to.be.greaterThan(1)
+    expect(profile.fills.iterationGas).to.have.length(swaps.length - 1)
+    expect(profile.logs.count).to.be.at.least(swaps.length)
+  })
+})
@@ -2,7 +2,7 @@ import {loadFixture} from '@nomicfoundation/hardhat-network-helpers'
 import {setupFixturesForSmartWallet} from './default-fixture'
 import {expect} from 'chai'
 import {OrderQueryItemStructOutput} from 'typechain-types/contracts/core/OrderBook'
-import {CreateIoCOrder, ParseUSDC, ParseWETH} from './shared'
+import {CancelLimitOrder, CreateIoCOrder, getAllOrders, paginatedOrders, USDC, WETH} from './shared'
 import {BigNumber} from 'ethers'
 
 interface Order {
@@ -32,18 +32,18 @@ describe('get paginated orders', function () {
 
     expectOrder(orders, [
       {
-        amount0: ParseWETH('1.5'),
-        price: ParseUSDC(1450),
+        amount0: WETH.parse('1.5'),
+        price: USDC.parse(1450),
         id: 3,
       },
       {
-        amount0: ParseWETH('1.25'),
-        price: ParseUSDC(1475),
+        amount0: WETH.parse('1.25'),
+        price: USDC.parse(1475),
         id: 6,
       },
       {
-        amount0: ParseWETH('1.0'),
-        price: ParseUSDC(1500),
+        amount0: WETH.parse('1.0'),
+        price: USDC.parse(1500),
         id: 2,
       },
     ])
@@ -60,18 +60,18 @@ describe('get paginated orders', function () {
 
     expectOrder(orders, [
       {
-        amount0: ParseWETH('1.5'),
-        price: ParseUSDC(1400),
+        amount0: WETH.parse('1.5'),
+        price: USDC.parse(1400),
         id: 4,
       },
       {
-        amount0: ParseWETH('1.25'),
-        price: ParseUSDC(1375),
+        amount0: WETH.parse('1.25'),
+        price: USDC.parse(1375),
         id: 7,
       },
       {
-        amount0: ParseWETH('1'),
-        price: ParseUSDC(1350),
+        amount0: WETH.parse('1'),
+        price: USDC.parse(1350),
         id: 5,
       },
     ])
@@ -89,8 +89,8 @@ describe('get paginated orders', function () {
     const {orderBook, acc1} = await loadFixture(setupFixturesForSmartWallet)
 
     await CreateIoCOrder(acc1, orderBook, {
-      amount0: ParseWETH('0.12345'),
-      price: ParseUSDC(1400),
+      amount0: WETH.parse('0.12345'),
+      price: USDC.parse(1400),
       isAsk: true,
     })
 
@@ -98,8 +98,8 @@ describe('get paginated orders', function () {
 
     expectOrder(orders, [
       {
-        amount0: ParseWETH('1.37655'),
-        price: ParseUSDC(1400),
+        amount0: WETH.parse('1.37655'),
+        price: USDC.parse(1400),
         id: 4,
       },
     ])
@@ -109,8 +109,8 @@ describe('get paginated orders', function () {
     const {orderBook, acc1} = await loadFixture(setupFixturesForSmartWallet)
 
     await CreateIoCOrder(acc1, orderBook, {
-      amount0: ParseWETH('2'),
-      price: ParseUSDC(1400),
+      amount0: WETH.parse('2'),
+      price: USDC.parse(1400),
       isAsk: true,
     })
 
@@ -123,8 +123,8 @@ describe('get paginated orders', function () {
     const {orderBook, acc1, linkedListLib} = await loadFixture(setupFixturesForSmartWallet)
 
     await CreateIoCOrder(acc1, orderBook, {
-      amount0: ParseWETH('2'),
-      price: ParseUSDC(1400),
+      amount0: WETH.parse('2'),
+      price: USDC.parse(1400),
       isAsk: true,
     })
 
@@ -139,3 +139,40 @@ describe('get paginated orders', function () {
     await expect(tx).to.be.revertedWithCustomError(linkedListLib, 'LighterV2Order_CannotQueryFromInactiveOrder')
   })
 })
+
+describe('paginated orders iterator', function () {
+  it('reads the whole side of the book, page by page', async () => {
+    const {orderBook} = await loadFixture(setupFixturesForSmartWallet)
+
+    for (const pageSize of [1, 2, 3, 4]) {
+      expect((await getAllOrders(orderBook, true, pageSize)).map((order) => order.id)).to.deep.equal([3, 6, 2])
+      expect((await getAllOrders(orderBook, false, pageSize)).map((order) => order.id)).to.deep.equal([4, 7, 5])
+    }
+
+    const [best] = await getAllOrders(orderBook, true, 2)
+    expect(best.amount0).to.equal(WETH.parse('1.5'))
+    expect(best.price).to.equal(USDC.parse(1450))
+  })
+
+  it('reads an empty side of the book', async () => {
+    const {orderBook, acc1} = await loadFixture(setupFixturesForSmartWallet)
+
+    await CreateIoCOrder(acc1, orderBook, {amount0: WETH.parse('5'), price: USDC.parse(1000), isAsk: true})
+
+    expect(await getAllOrders(orderBook, false, 2)).to.deep.equal([])
+  })
+
+  it('continues when the order it continues from gets canceled', async () => {
+    const {orderBook, acc2} = await loadFixture(setupFixturesForSmartWallet)
+
+    const ids = []
+    for await (const order of paginatedOrders(orderBook, true, 1)) {
+      ids.push(order.id)
+      if (order.id == 6) {
+        await CancelLimitOrder(acc2, orderBook, [3, 6])
+      }
+    }
+
+    expect(ids).to.deep.equal([3, 6, 2])
+  })
+})
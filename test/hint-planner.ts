@@ -0,0 +1,61 @@
+import {expect, expectOrderBook, USDC, WETH, CreateLimitOrder, readBookSnapshot, withHintIds} from 'test/shared'
+import {loadFixture} from '@nomicfoundation/hardhat-network-helpers'
+import {setupFixturesForSmartWallet} from './default-fixture'
+
+describe('hint planner', () => {
+  // asks from 1451 to 1460 & bids from 1399 down to 1390, interleaved
+  const ladder = [...Array(10).keys()].flatMap((index) => [
+    {amount0: WETH.parse('0.1'), price: USDC.parse(1451 + index), isAsk: true},
+    {amount0: WETH.parse('0.1'), price: USDC.parse(1399 - index), isAsk: false},
+  ])
+
+  it('plans hints which put the orders where the book would', async () => {
+    const {orderBook, acc1} = await loadFixture(setupFixturesForSmartWallet)
+    await CreateLimitOrder(
+      acc1,
+      orderBook,
+      ladder.map((order) => ({...order, hintId: 0}))
+    )
+    const book = await readBookSnapshot(orderBook)
+    const asks = book.asks.map((order) => order.id)
+    const bids = book.bids.map((order) => order.id)
+
+    const s = await loadFixture(setupFixturesForSmartWallet)
+    await CreateLimitOrder(s.acc1, s.orderBook, await withHintIds(s.orderBook, ladder))
+    await expectOrderBook(s.orderBook, [...asks, 0], [...bids, 0])
+  })
+
+  it('uses less gas than inserting from the head of the book', async () => {
+    const {orderBook, acc1} = await loadFixture(setupFixturesForSmartWallet)
+    const tx = await CreateLimitOrder(
+      acc1,
+      orderBook,
+      ladder.map((order) => ({...order, hintId: 0}))
+    )
+    const gasWithoutHints = (await tx.wait()).gasUsed
+
+    const s = await loadFixture(setupFixturesForSmartWallet)
+    const hintedTx = await CreateLimitOrder(s.acc1, s.orderBook, await withHintIds(s.orderBook, ladder))
+    expect((await hintedTx.wait()).gasUsed).to.be.lt(gasWithoutHints)
+  })
+
+  it('plans hints for orders which match earlier orders of the batch', async () => {
+    const {orderBook, acc1} = await loadFixture(setupFixturesForSmartWallet)
+    const orders = await withHintIds(orderBook, [
+      // rests as id 9, the best bid
+      {amount0: WETH.parse('1'), price: USDC.parse(1420), isAsk: false},
+      // rests as id 10, after bid 9
+      {amount0: WETH.parse('0.5'), price: USDC.parse(1410), isAsk: false},
+      // fills half of bid 9
+      {amount0: WETH.parse('0.5'), price: USDC.parse(1420), isAsk: true},
+      // fills bids 9 & 10 and 1 WETH of bid 4
+      {amount0: WETH.parse('2'), price: USDC.parse(1400), isAsk: true},
+      // rests as id 13, after bid 4
+      {amount0: WETH.parse('1'), price: USDC.parse(1400), isAsk: false},
+    ])
+    expect(orders.map((order) => order.hintId)).to.eql([0, 9, 0, 0, 4])
+
+    await CreateLimitOrder(acc1, orderBook, orders)
+    await expectOrderBook(orderBook, [3, 6, 2, 0], [4, 13, 7, 5, 0])
+  })
+})
@@ -3,8 +3,8 @@ import {
   expectOrderBook,
   CancelLimitOrder,
   CreateLimitOrder,
-  ParseUSDC,
-  ParseWETH,
+  USDC,
+  WETH,
   CreateFoKOrder,
   CreateIoCOrder,
 } from 'test/shared'
@@ -19,8 +19,8 @@ import {reportGasCost} from 'reports'
 describe('limit orders', () => {
   async function expectInitialState(s: any) {
     await expectOrderBook(s.orderBook, [3, 6, 2, 0], [4, 7, 5, 0])
-    expect(await s.weth.balanceOf(s.acc1.address)).to.equal(ParseWETH(10))
-    expect(await s.usdc.balanceOf(s.acc1.address)).to.equal(ParseUSDC(15000))
+    expect(await s.weth.balanceOf(s.acc1.address)).to.equal(WETH.parse(10))
+    expect(await s.usdc.balanceOf(s.acc1.address)).to.equal(USDC.parse(15000))
   }
 
   it('loads fixtures', async () => {
@@ -31,8 +31,8 @@ describe('limit orders', () => {
   async function createOrder(s: any, isAsk: boolean, hintId: number) {
     return await CreateLimitOrder(s.acc1, s.orderBook, [
       {
-        amount0: ParseWETH('1.0'),
-        price: ParseUSDC(1425),
+        amount0: WETH.parse('1.0'),
+        price: USDC.parse(1425),
         isAsk: isAsk,
         hintId: hintId,
       },
@@ -46,7 +46,7 @@ describe('limit orders', () => {
 
         const tx = await createOrder({acc1, orderBook}, true, 0)
 
-        await expect(tx).to.changeTokenBalance(weth, acc1.address, ParseWETH('-1.0'))
+        await expect(tx).to.changeTokenBalance(weth, acc1.address, WETH.parse('-1.0'))
         await expectOrderBook(orderBook, [9, 3, 6, 2, 0], [4, 7, 5, 0])
       })
       it('bid', async () => {
@@ -54,7 +54,7 @@ describe('limit orders', () => {
 
         const tx = await createOrder({acc1, orderBook}, false, 0)
 
-        await expect(tx).to.changeTokenBalance(usdc, acc1.address, -ParseUSDC('1425'))
+        await expect(tx).to.changeTokenBalance(usdc, acc1.address, -USDC.parse('1425'))
         await expectOrderBook(orderBook, [3, 6, 2, 0], [9, 4, 7, 5, 0])
       })
     })
@@ -66,35 +66,35 @@ describe('limit orders', () => {
       //  v
       // [0] -> [1] | orderId = 2
       tx = await CreateLimitOrder(acc1, orderBook, [
-        {amount0: ParseWETH('0.1'), price: ParseUSDC('1100'), isAsk: true, hintId: 0},
+        {amount0: WETH.parse('0.1'), price: USDC.parse('1100'), isAsk: true, hintId: 0},
       ])
       // do not record the first order as it bears extra costs due to one-time-storage allocations
 
       //  v
       // [0] -> 2 -> [1] | orderId = 3
       tx = await CreateLimitOrder(acc1, orderBook, [
-        {amount0: ParseWETH('0.1'), price: ParseUSDC('1400'), isAsk: true, hintId: 0},
+        {amount0: WETH.parse('0.1'), price: USDC.parse('1400'), isAsk: true, hintId: 0},
       ])
       await reportGasCost('CREATE_HINT_ID_LIMIT_ORDER_3', tx)
 
       //        v
       // [0] -> 2 -> 3 -> [1] | orderId = 4
       tx = await CreateLimitOrder(acc1, orderBook, [
-        {amount0: ParseWETH('0.1'), price: ParseUSDC('1200'), isAsk: true, hintId: 2},
+        {amount0: WETH.parse('0.1'), price: USDC.parse('1200'), isAsk: true, hintId: 2},
       ])
       await reportGasCost('CREATE_HINT_ID_LIMIT_ORDER_4', tx)
 
       //                        v
       // [0] -> 2 -> 4 -> 3 -> [1] | orderId = 5
       tx = await CreateLimitOrder(acc1, orderBook, [
-        {amount0: ParseWETH('0.1'), price: ParseUSDC('1300'), isAsk: true, hintId: 1},
+        {amount0: WETH.parse('0.1'), price: USDC.parse('1300'), isAsk: true, hintId: 1},
       ])
       await reportGasCost('CREATE_HINT_ID_LIMIT_ORDER_5', tx)
 
       //             v
       // [0] -> 2 -> 4 -> 5 -> 3 -> [1] | orderId = 6
       tx = await CreateLimitOrder(acc1, orderBook, [
-        {amount0: ParseWETH('0.1'), price: ParseUSDC('1500'), isAsk: true, hintId: 0},
+        {amount0: WETH.parse('0.1'), price: USDC.parse('1500'), isAsk: true, hintId: 0},
       ])
       await reportGasCost('CREATE_HINT_ID_LIMIT_ORDER_6', tx)
 
@@ -107,7 +107,7 @@ describe('limit orders', () => {
       //           \
       // [0] -> 2 -> 5 -> 3 -> 6 -> [1] | orderId = 7
       tx = await CreateLimitOrder(acc1, orderBook, [
-        {amount0: ParseWETH('0.1'), price: ParseUSDC('1200'), isAsk: true, hintId: 4},
+        {amount0: WETH.parse('0.1'), price: USDC.parse('1200'), isAsk: true, hintId: 4},
       ])
       await reportGasCost('CREATE_HINT_ID_LIMIT_ORDER_7', tx)
       await expectOrderBook(orderBook, [2, 7, 5, 3, 6, 0], [0])
@@ -134,8 +134,8 @@ describe('limit orders', () => {
       await expectOrderBook(orderBook, [9, 10, 11, 12, 13, 14, 3, 6, 2, 0], [4, 7, 5, 0])
 
       await CreateIoCOrder(acc1, orderBook, {
-        amount0: ParseWETH(10.0),
-        price: ParseUSDC(2000),
+        amount0: WETH.parse(10.0),
+        price: USDC.parse(2000),
         isAsk: false,
       })
 
@@ -151,7 +151,7 @@ describe('limit orders', () => {
 
       // cancel order
       const tx = await CancelLimitOrder(s.acc1, s.orderBook, [9])
-      await reportGasCost('CANCEL_1_LIMIT_ORDER', tx)
+      await reportGasCost('CANCEL_1_NEW_LIMIT_ORDER', tx)
 
       // order is canceled & funds are returned to smart wallet, not to the orders owner
       await expectInitialState(s)
@@ -0,0 +1,89 @@
+import {
+  expect,
+  USDC,
+  WETH,
+  CancelLimitOrder,
+  CreateIoCOrder,
+  CreateLimitOrder,
+  CreatePerformanceLimitOrder,
+} from 'test/shared'
+import {loadFixture} from '@nomicfoundation/hardhat-network-helpers'
+import {setupFixturesForSmartWallet} from './default-fixture'
+import {OrderBookIndexer} from 'scripts/indexer/order-book-indexer'
+
+describe('order book indexer', () => {
+  async function setup() {
+    const s = await loadFixture(setupFixturesForSmartWallet)
+    const indexer = await OrderBookIndexer.create(s.orderBook)
+    await indexer.sync()
+    await indexer.check()
+    return {...s, indexer}
+  }
+
+  it('rebuilds the book from the events', async () => {
+    const {indexer, acc1, acc2} = await setup()
+
+    expect(indexer.asks.map((order) => order.id)).to.eql([3, 6, 2])
+    expect(indexer.bids.map((order) => order.id)).to.eql([4, 7, 5])
+    expect(indexer.openOrders(acc2.address).map((order) => order.id)).to.eql([2, 3, 4, 5, 6, 7])
+    expect(indexer.openOrders(acc1.address)).to.eql([])
+    expect(indexer.claimableBalance(acc1.address, true)).to.equal(WETH.parse(10))
+    expect(indexer.claimableBalance(acc1.address, false)).to.equal(USDC.parse(15000))
+  })
+
+  it('follows matching, performance orders, swaps & claims', async () => {
+    const {indexer, acc1, acc2, orderBook} = await setup()
+
+    const actions = [
+      // rests as id 9, between asks 3 & 6
+      () =>
+        CreatePerformanceLimitOrder(acc1, orderBook, [
+          {amount0: WETH.parse(0.5), price: USDC.parse(1460), isAsk: true, hintId: 0},
+        ]),
+      // fills asks 3 & 9 and half of ask 6
+      () =>
+        CreatePerformanceLimitOrder(acc2, orderBook, [
+          {amount0: WETH.parse(2.5), price: USDC.parse(1480), isAsk: false, hintId: 0},
+        ]),
+      // rests as id 11, the best bid
+      () =>
+        CreatePerformanceLimitOrder(acc2, orderBook, [
+          {amount0: WETH.parse(1), price: USDC.parse(1410), isAsk: false, hintId: 0},
+        ]),
+      // fills bid 11 and 1 WETH of bid 4
+      () => CreateIoCOrder(acc1, orderBook, {amount0: WETH.parse(2), price: USDC.parse(1400), isAsk: true}),
+      // rests as id 13 and gets canceled
+      () =>
+        CreatePerformanceLimitOrder(acc1, orderBook, [
+          {amount0: WETH.parse(0.3), price: USDC.parse(1300), isAsk: false, hintId: 0},
+        ]),
+      () => CancelLimitOrder(acc1, orderBook, [13]),
+      // fills the rest of bid 4
+      () => acc1.swapExactInput(0, true, WETH.parse(0.5), 0, acc1.address),
+      () => acc1.claimToken0(0, WETH.parse(1)),
+      () => acc2.depositToken1(0, USDC.parse(100)),
+      () =>
+        CreateLimitOrder(acc1, orderBook, [{amount0: WETH.parse(1), price: USDC.parse(1390), isAsk: false, hintId: 0}]),
+    ]
+    for (const action of actions) {
+      await action()
+      await indexer.sync()
+      await indexer.check()
+    }
+
+    expect(indexer.asks.map((order) => order.id)).to.eql([6, 2])
+    expect(indexer.bids.map((order) => order.id)).to.eql([14, 7, 5])
+    expect(indexer.asks[0].amount0).to.equal(WETH.parse(0.75))
+    // acc1 sold 0.5 WETH from its performance ask at 1460
+    expect(indexer.claimableBalance(acc1.address, true)).to.equal(WETH.parse(8.5))
+    expect(indexer.claimableBalance(acc1.address, false)).to.equal(USDC.parse(15000 + 730))
+    // acc2 paid 1.5 * 1450 + 0.5 * 1460 + 0.5 * 1475 + 1410 and received 3.5 WETH
+    expect(indexer.claimableBalance(acc2.address, true)).to.equal(WETH.parse(13.5))
+    expect(indexer.claimableBalance(acc2.address, false)).to.equal(USDC.parse(15000 + 100 - 2175 - 730 - 737.5 - 1410))
+  })
+
+  it('only moves forward block by block', async () => {
+    const {indexer} = await setup()
+    expect(() => indexer.applyBlock(indexer.lastBlock + 2, [])).to.throw()
+  })
+})
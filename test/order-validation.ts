@@ -0,0 +1,149 @@
+import {loadFixture, setStorageAt} from '@nomicfoundation/hardhat-network-helpers'
+import {ethers} from 'hardhat'
+import {BigNumber, BigNumberish} from 'ethers'
+import {SmartWallet} from 'typechain-types'
+import {
+  decodeRevert,
+  expect,
+  OrderToValidate,
+  OrderType,
+  OrderValidationError,
+  readOrderBookLimits,
+  validateOrder,
+  validateOrders,
+} from './shared'
+import {setupEmptyBookFixturesForSmartWallet} from './default-fixture'
+
+describe('order validation', () => {
+  const predictable: OrderValidationError[] = [
+    'LighterV2Order_AmountTooSmall',
+    'LighterV2Order_PriceTooSmall',
+    'LighterV2Order_PriceTooBig',
+    'LighterV2Order_InvalidHintId',
+    'LighterV2Order_OrderIdExceedsLimit',
+  ]
+
+  // the error of the reverted call, if it's one of the errors validateOrder predicts
+  async function revertReason(call: Promise<unknown>): Promise<OrderValidationError | 'other' | null> {
+    try {
+      await call
+    } catch (e) {
+      const revert = decodeRevert(e)
+      if (revert.kind == 'panic' && revert.code == 0x11) {
+        return 'ArithmeticOverflow'
+      }
+      const error = predictable.find((error) => revert.kind == 'lighter' && revert.name == error)
+      return error ?? 'other'
+    }
+    return null
+  }
+
+  function sendStatic(wallet: SmartWallet, order: OrderToValidate) {
+    const {amount0Base, priceBase, isAsk, hintId} = order
+    switch (order.orderType) {
+      case OrderType.LimitOrder:
+        return wallet.callStatic.createLimitOrder(0, 1, [amount0Base], [priceBase], [isAsk], [hintId])
+      case OrderType.PerformanceLimitOrder:
+        return wallet.callStatic.createPerformanceLimitOrder(0, 1, [amount0Base], [priceBase], [isAsk], [hintId])
+      case OrderType.FoKOrder:
+        return wallet.callStatic.createFillOrKillOrder(0, amount0Base, priceBase, isAsk)
+      case OrderType.IoCOrder:
+        return wallet.callStatic.createImmediateOrCancelOrder(0, amount0Base, priceBase, isAsk)
+    }
+  }
+
+  it('predicts the error of every order', async () => {
+    const {acc1, orderBook} = await loadFixture(setupEmptyBookFixturesForSmartWallet)
+    // rest as id 2 & 3, so hint 2 is valid for bids, hint 3 for asks & hint 4 for neither
+    // (LinkedList.insert also rejects hints of the other side, which depends on the book and is not predicted)
+    await acc1.createLimitOrder(0, 2, [100, 100], [10, 1000], [false, true], [0, 0])
+    const limits = await readOrderBookLimits(orderBook)
+    expect(limits.priceDivider).to.equal(10)
+    expect(limits.minToken0BaseAmount).to.equal(100)
+
+    const amounts: BigNumberish[] = [0, 1, 99, 100, BigNumber.from(2).pow(33)]
+    const prices: BigNumberish[] = [0, 9, 10, 1000, BigNumber.from(2).pow(32), limits.maxPrice]
+    const orderTypes = [OrderType.LimitOrder, OrderType.PerformanceLimitOrder, OrderType.FoKOrder, OrderType.IoCOrder]
+
+    const predicted = new Set<string>()
+    for (const amount0Base of amounts) {
+      for (const priceBase of prices) {
+        for (const orderType of orderTypes) {
+          for (const isAsk of [true, false]) {
+            for (const hintId of [0, isAsk ? 3 : 2, 4]) {
+              const order = {amount0Base, priceBase, isAsk, orderType, hintId}
+              const prediction = validateOrder(limits, order)
+              const actual = await revertReason(sendStatic(acc1, order))
+              // orders which pass the checks can still revert later, e.g. for an unfilled FoK order
+              expect(actual == 'other' ? null : actual).to.equal(prediction, JSON.stringify(order))
+              predicted.add(`${prediction}`)
+            }
+          }
+        }
+      }
+    }
+    expect([...predicted].sort()).to.eql(
+      [
+        'ArithmeticOverflow',
+        'LighterV2Order_AmountTooSmall',
+        'LighterV2Order_InvalidHintId',
+        'LighterV2Order_PriceTooBig',
+        'LighterV2Order_PriceTooSmall',
+        'null',
+      ].sort()
+    )
+  })
+
+  it('predicts the errors of batches', async () => {
+    const {acc1, orderBook} = await loadFixture(setupEmptyBookFixturesForSmartWallet)
+    const limits = await readOrderBookLimits(orderBook)
+    const first = {amount0Base: 100, priceBase: 1000, isAsk: true, orderType: OrderType.LimitOrder, hintId: 0}
+
+    // the second order gets id 3 and can use the first one as its hint, but not itself
+    for (const hintId of [2, 3]) {
+      const orders = [first, {...first, hintId}]
+      const prediction = validateOrders(limits, orders)
+      const call = acc1.callStatic.createLimitOrder(0, 2, [100, 100], [1000, 1000], [true, true], [0, hintId])
+      expect(await revertReason(call)).to.equal(prediction?.error ?? null)
+    }
+    expect(validateOrders(limits, [first, {...first, hintId: 3}])).to.eql({
+      index: 1,
+      error: 'LighterV2Order_InvalidHintId',
+    })
+  })
+
+  it('predicts running out of order ids', async () => {
+    const {acc1, orderBook} = await loadFixture(setupEmptyBookFixturesForSmartWallet)
+    const orderTypes = [OrderType.LimitOrder, OrderType.PerformanceLimitOrder, OrderType.FoKOrder, OrderType.IoCOrder]
+
+    // orderIdCounter is alone in slot 1, after the status of the ReentrancyGuard
+    const orderIdCounterSlot = 1
+    const storedCounter = await ethers.provider.getStorageAt(orderBook.address, orderIdCounterSlot)
+    expect(BigNumber.from(storedCounter)).to.equal(await orderBook.orderIdCounter())
+
+    const threshold = await orderBook.ORDER_ID_THRESHOLD()
+    for (const [counter, expected] of [
+      [threshold - 1, null],
+      [threshold, 'LighterV2Order_OrderIdExceedsLimit'],
+    ] as const) {
+      await setStorageAt(orderBook.address, orderIdCounterSlot, counter)
+      const limits = await readOrderBookLimits(orderBook)
+      expect(limits.orderIdCounter).to.equal(counter)
+
+      for (const orderType of orderTypes) {
+        for (const isAsk of [true, false]) {
+          const order = {amount0Base: 100, priceBase: 1000, isAsk, orderType, hintId: 0}
+          const prediction = validateOrder(limits, order)
+          expect(prediction).to.equal(expected, JSON.stringify(order))
+          // below the threshold, FoK orders still revert as the book is empty, which is not a validation error
+          const actual = await revertReason(sendStatic(acc1, order))
+          expect(actual == 'other' ? null : actual).to.equal(prediction, JSON.stringify(order))
+        }
+      }
+    }
+
+    const limits = await readOrderBookLimits(orderBook)
+    const order = {amount0Base: 100, priceBase: 1000, isAsk: true, orderType: OrderType.IoCOrder, hintId: 0}
+    expect(() => validateOrder(limits, {...order, priceBase: limits.maxPrice.add(1)})).to.throw()
+  })
+})
@@ -1,8 +1,8 @@
 import {
   expect,
   expectOrderBook,
-  ParseUSDC,
-  ParseWETH,
+  USDC,
+  WETH,
   CancelLimitOrder,
   CreateLimitOrder,
   CreatePerformanceLimitOrder,
@@ -14,8 +14,8 @@ import {reportGasCost} from 'reports'
 describe('smart wallet: performance orders', () => {
   async function expectInitialState(s: any) {
     await expectOrderBook(s.orderBook, [3, 6, 2, 0], [4, 7, 5, 0])
-    expect(await s.orderBook.claimableToken0Balance(s.acc1.address)).to.equal(ParseWETH(10))
-    expect(await s.orderBook.claimableToken1Balance(s.acc1.address)).to.equal(ParseUSDC(15000))
+    expect(await s.orderBook.claimableToken0Balance(s.acc1.address)).to.equal(WETH.parse(10))
+    expect(await s.orderBook.claimableToken1Balance(s.acc1.address)).to.equal(USDC.parse(15000))
   }
 
   it('loads fixtures', async () => {
@@ -26,8 +26,8 @@ describe('smart wallet: performance orders', () => {
   async function createPerformanceOrder(s: any, isAsk: boolean) {
     return await CreatePerformanceLimitOrder(s.acc1, s.orderBook, [
       {
-        amount0: ParseWETH('1.0'),
-        price: ParseUSDC(1425),
+        amount0: WETH.parse('1.0'),
+        price: USDC.parse(1425),
         isAsk: isAsk,
         hintId: 0,
       },
@@ -82,8 +82,8 @@ describe('smart wallet: performance orders', () => {
 
     const tx = CreatePerformanceLimitOrder(s.acc1, s.orderBook, [
       {
-        amount0: ParseWETH('10.1'),
-        price: ParseUSDC(1400),
+        amount0: WETH.parse('10.1'),
+        price: USDC.parse(1400),
         isAsk: true,
         hintId: 0,
       },
@@ -99,8 +99,8 @@ describe('smart wallet: performance orders', () => {
 
     const tx = await CreatePerformanceLimitOrder(s.acc1, s.orderBook, [
       {
-        amount0: ParseWETH('2'),
-        price: ParseUSDC(1400),
+        amount0: WETH.parse('2'),
+        price: USDC.parse(1400),
         isAsk: true,
         hintId: 0,
       },
@@ -112,10 +112,10 @@ describe('smart wallet: performance orders', () => {
     await expect(tx).to.emit(s.orderBook, 'Swap')
 
     // claimable decreases
-    expect(await s.orderBook.claimableToken0Balance(s.acc1.address)).to.equal(ParseWETH('8'))
+    expect(await s.orderBook.claimableToken0Balance(s.acc1.address)).to.equal(WETH.parse('8'))
 
     // maker WETH balance increases
-    expect(after.sub(before)).to.equal(ParseWETH(1.5))
+    expect(after.sub(before)).to.equal(WETH.parse(1.5))
   })
 
   it('can be matched against', async () => {
@@ -125,16 +125,16 @@ describe('smart wallet: performance orders', () => {
 
     await CreatePerformanceLimitOrder(s.acc1, s.orderBook, [
       {
-        amount0: ParseWETH('1'),
-        price: ParseUSDC(1425),
+        amount0: WETH.parse('1'),
+        price: USDC.parse(1425),
         isAsk: true,
         hintId: 0,
       },
     ])
     await CreateLimitOrder(s.acc1, s.orderBook, [
       {
-        amount0: ParseWETH('2'),
-        price: ParseUSDC(1425),
+        amount0: WETH.parse('2'),
+        price: USDC.parse(1425),
         isAsk: false,
         hintId: 0,
       },
@@ -143,6 +143,6 @@ describe('smart wallet: performance orders', () => {
     const after = await s.orderBook.claimableToken1Balance(s.acc1.address)
 
     // claimable tokens increase
-    expect(after.sub(before)).to.equal(ParseUSDC(1425))
+    expect(after.sub(before)).to.equal(USDC.parse(1425))
   })
 })
@@ -0,0 +1,111 @@
+import {
+  expect,
+  expectOrderBook,
+  OrderType,
+  USDC,
+  WETH,
+  CancelLimitOrder,
+  CreateIoCOrder,
+  CreateLimitOrder,
+  decodeExecutionReports,
+  decodeOrderBookEvents,
+} from 'test/shared'
+import {loadFixture} from '@nomicfoundation/hardhat-network-helpers'
+import {setupFixturesForSmartWallet} from './default-fixture'
+
+describe('receipt decoder', () => {
+  it('reports the makers filled by an IoC order & the refunded amount', async () => {
+    const {acc1, acc2, orderBook, weth} = await loadFixture(setupFixturesForSmartWallet)
+    const tx = await CreateIoCOrder(acc1, orderBook, {amount0: WETH.parse(4), price: USDC.parse(1480), isAsk: false})
+    await expect(tx).to.changeTokenBalance(weth, acc1.address, WETH.parse(2.75))
+
+    const [report, ...others] = await decodeExecutionReports(tx, orderBook)
+    expect(others).to.eql([])
+    expect(report).to.deep.include({
+      kind: 'order',
+      id: 9,
+      owner: acc1.address,
+      isAsk: false,
+      orderType: OrderType.IoCOrder,
+      price: USDC.parse(1480),
+      requestedAmount0: WETH.parse(4),
+      filledAmount0: WETH.parse(2.75),
+      filledAmount1: USDC.parse(1.5 * 1450 + 1.25 * 1475),
+      restedAmount0: WETH.parse(0),
+      refundedAmount0: WETH.parse(1.25),
+    })
+    expect(report.fills).to.eql([
+      {makerId: 3, owner: acc2.address, amount0: WETH.parse(1.5), amount1: USDC.parse(1.5 * 1450)},
+      {makerId: 6, owner: acc2.address, amount0: WETH.parse(1.25), amount1: USDC.parse(1.25 * 1475)},
+    ])
+    expect(report.fillsByOwner).to.eql({
+      [acc2.address]: {amount0: WETH.parse(2.75), amount1: USDC.parse(1.5 * 1450 + 1.25 * 1475)},
+    })
+    // 4018.75 USDC for 2.75 WETH, rounded down to the USDC unit
+    expect(report.averagePrice).to.equal(USDC.parse('1461.363636'))
+  })
+
+  it('reports the rested amount of every limit order of a transaction', async () => {
+    const {acc1, orderBook} = await loadFixture(setupFixturesForSmartWallet)
+    const tx = await CreateLimitOrder(acc1, orderBook, [
+      {amount0: WETH.parse(2), price: USDC.parse(1460), isAsk: false, hintId: 0},
+      {amount0: WETH.parse(1), price: USDC.parse(1600), isAsk: true, hintId: 0},
+    ])
+    await expectOrderBook(orderBook, [6, 2, 10, 0], [9, 4, 7, 5, 0])
+
+    const reports = await decodeExecutionReports(tx, orderBook)
+    expect(reports.map((report) => [report.id, report.isAsk, report.fills.map((fill) => fill.makerId)])).to.eql([
+      [9, false, [3]],
+      [10, true, []],
+    ])
+    expect(reports[0].restedAmount0).to.equal(WETH.parse(0.5))
+    expect(reports[0].averagePrice).to.equal(USDC.parse(1450))
+    expect(reports[1].restedAmount0).to.equal(WETH.parse(1))
+    expect(reports[1].averagePrice).to.equal(null)
+    expect(reports.map((report) => report.refundedAmount0)).to.eql([WETH.parse(0), WETH.parse(0)])
+  })
+
+  it('reports swaps', async () => {
+    const {acc1, acc2, orderBook} = await loadFixture(setupFixturesForSmartWallet)
+    const tx = await acc1.swapExactInput(0, true, WETH.parse(2), 0, acc2.address)
+
+    const [report] = await decodeExecutionReports(tx, orderBook)
+    expect(report).to.deep.include({
+      kind: 'swap',
+      id: 0,
+      owner: acc2.address,
+      sender: acc1.address,
+      isAsk: true,
+      orderType: null,
+      isExactInput: true,
+      price: null,
+      requestedAmount0: null,
+      filledAmount0: WETH.parse(2),
+      filledAmount1: USDC.parse(1.5 * 1400 + 0.5 * 1375),
+    })
+    expect(report.fills.map((fill) => fill.makerId)).to.eql([4, 7])
+  })
+
+  it('decodes the events which do not belong to a taker', async () => {
+    const {acc1, orderBook} = await loadFixture(setupFixturesForSmartWallet)
+    await CreateLimitOrder(acc1, orderBook, [{amount0: WETH.parse(1), price: USDC.parse(1600), isAsk: true, hintId: 0}])
+    const tx = await CancelLimitOrder(acc1, orderBook, [9])
+
+    const events = decodeOrderBookEvents(await tx.wait(), orderBook.address)
+    expect(events.map((event) => event.name)).to.eql(['CancelLimitOrder'])
+    expect(events[0]).to.deep.include({name: 'CancelLimitOrder', id: 9})
+    expect(await decodeExecutionReports(tx, orderBook)).to.eql([])
+
+    const deposit = decodeOrderBookEvents(
+      await (await acc1.depositToken1(0, USDC.parse(100))).wait(),
+      orderBook.address
+    )
+    expect(deposit).to.have.length(1)
+    expect(deposit[0]).to.deep.include({
+      name: 'ClaimableBalanceIncrease',
+      owner: acc1.address,
+      amountDelta: USDC.parse(100),
+      isToken0: false,
+    })
+  })
+})
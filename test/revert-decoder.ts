@@ -0,0 +1,69 @@
+import {loadFixture} from '@nomicfoundation/hardhat-network-helpers'
+import {ethers} from 'hardhat'
+import {utils} from 'ethers'
+import {Errors__factory, TestFlashLoanReentrantCallee} from 'typechain-types'
+import {
+  decodeRevert,
+  decodeRevertData,
+  expect,
+  isLighterError,
+  LIGHTER_ERRORS,
+  REENTRANT_CALL,
+  USDC,
+  WETH,
+} from './shared'
+import {setupFixturesForSmartWallet} from './default-fixture'
+
+describe('revert decoder', () => {
+  it('knows every error of Errors.sol', async () => {
+    const errors = Object.values(Errors__factory.createInterface().errors).map((error) => error.name)
+    expect([...LIGHTER_ERRORS].sort()).to.eql(errors.sort())
+  })
+
+  it('decodes errors of the order book from transactions & calls', async () => {
+    const {acc1, orderBook} = await loadFixture(setupFixturesForSmartWallet)
+
+    const swap = () => acc1.swapExactInput(0, true, WETH.parse(100), 0, acc1.address)
+    const txError = await swap().catch((e) => e)
+    expect(decodeRevert(txError)).to.eql({kind: 'lighter', name: 'LighterV2Swap_NotEnoughLiquidity'})
+    expect(isLighterError(txError, 'LighterV2Swap_NotEnoughLiquidity')).to.equal(true)
+    expect(isLighterError(txError, 'LighterV2Swap_NotEnoughOutput')).to.equal(false)
+
+    const callError = await acc1.callStatic.swapExactInput(0, true, WETH.parse(100), 0, acc1.address).catch((e) => e)
+    expect(decodeRevert(callError)).to.eql({kind: 'lighter', name: 'LighterV2Swap_NotEnoughLiquidity'})
+
+    // errors of LinkedListLib are not decoded by the OrderBook interface
+    const queryError = await orderBook.getPaginatedOrders(100, true, 1).catch((e) => e)
+    expect(decodeRevert(queryError)).to.eql({kind: 'lighter', name: 'LighterV2Order_CannotQueryFromInactiveOrder'})
+  })
+
+  it('decodes reason strings & panics', async () => {
+    const {acc1, orderBook, usdc} = await loadFixture(setupFixturesForSmartWallet)
+
+    const callee = (await (
+      await ethers.getContractFactory('TestFlashLoanReentrantCallee')
+    ).deploy()) as TestFlashLoanReentrantCallee
+    const reentrancyError = await callee.flash(orderBook.address, WETH.parse(1), USDC.parse(25)).catch((e) => e)
+    expect(decodeRevert(reentrancyError)).to.eql({kind: 'reentrancy', reason: REENTRANT_CALL})
+
+    const [, stranger] = await ethers.getSigners()
+    const transferError = await usdc
+      .connect(stranger)
+      .transfer(acc1.address, USDC.parse(1))
+      .catch((e) => e)
+    expect(decodeRevert(transferError)).to.eql({kind: 'erc20', reason: 'ERC20: transfer amount exceeds balance'})
+
+    const overflowError = await acc1.createLimitOrder(0, 1, [2n ** 33n], [2n ** 32n], [false], [0]).catch((e) => e)
+    expect(decodeRevert(overflowError)).to.eql({kind: 'panic', code: 0x11})
+  })
+
+  it('keeps unknown reverts & rethrows errors which are not reverts', async () => {
+    const data = utils.id('SomethingElse()').slice(0, 10)
+    expect(decodeRevertData(data)).to.eql({kind: 'unknown', data})
+    expect(decodeRevertData(utils.id('Error(string)').slice(0, 10) + '00')).to.eql({
+      kind: 'unknown',
+      data: utils.id('Error(string)').slice(0, 10) + '00',
+    })
+    expect(() => decodeRevert(new Error('network error'))).to.throw('network error')
+  })
+})
@@ -1,31 +1,153 @@
-import {BigNumber, BigNumberish, utils} from 'ethers'
+import {BigNumber, BigNumberish, providers, Signer, utils} from 'ethers'
+import {IERC20Metadata__factory, OrderBook} from 'typechain-types'
 
-export function ParseWETH(value: BigNumberish): BigNumber {
-  if (typeof value == 'string') {
-    return utils.parseUnits(value, 18)
+// how amounts which are not on the tick grid are converted to base amounts
+export enum Rounding {
+  Exact, // throws if the amount is not a multiple of the tick
+  Down,
+  Up,
+}
+
+// numbers are rounded to 15 significant digits first, so the float error of e.g. 0.1 + 0.2 does not end up in the amount
+// toString uses the exponent notation for small numbers, which parseUnits does not accept
+function decimalString(value: number): string {
+  const rounded = Number(value.toPrecision(15))
+  const text = rounded.toString()
+  return text.includes('e') ? rounded.toFixed(20).replace(/\.?0+$/, '') : text
+}
+
+// Token converts human readable amounts (e.g. '1.5') to token units and back
+export class Token {
+  decimals: number
+  one: BigNumber
+
+  constructor(decimals: number) {
+    this.decimals = decimals
+    this.one = BigNumber.from(10).pow(decimals)
   }
-  if (typeof value == 'number') {
-    return BigNumber.from(value * 1000000000).mul(BigNumber.from(10).pow(9))
+
+  static async fromAddress(address: string, signerOrProvider: Signer | providers.Provider): Promise<Token> {
+    return new Token(await IERC20Metadata__factory.connect(address, signerOrProvider).decimals())
+  }
+
+  // strings & numbers are whole tokens and throw if they have more decimals than the token; BigNumbers are whole tokens
+  parse(value: BigNumberish): BigNumber {
+    if (typeof value == 'string') {
+      return utils.parseUnits(value, this.decimals)
+    }
+    if (typeof value == 'number') {
+      return utils.parseUnits(decimalString(value), this.decimals)
+    }
+    return BigNumber.from(value).mul(this.one)
+  }
+
+  format(amount: BigNumberish): string {
+    return utils.formatUnits(amount, this.decimals)
   }
-  return BigNumber.from(value).mul(BigNumber.from(10).pow(18))
 }
 
-export function ParseWETHBase(value: BigNumberish): BigNumber {
-  if (typeof value == 'string') {
-    return utils.parseUnits(value, 13)
+export const WETH = new Token(18)
+export const USDC = new Token(6)
+
+function divide(value: BigNumber, tick: BigNumber, rounding: Rounding, name: string): BigNumber {
+  const quotient = value.div(tick)
+  if (value.mod(tick).eq(0)) {
+    return quotient
   }
-  if (typeof value == 'number') {
-    return BigNumber.from(Math.round(value * 1000000000)).mul(BigNumber.from(10).pow(4))
+  switch (rounding) {
+    case Rounding.Exact:
+      throw `${value} is not a multiple of the ${name} ${tick}`
+    case Rounding.Down:
+      return quotient
+    case Rounding.Up:
+      return quotient.add(1)
   }
-  return BigNumber.from(value).mul(BigNumber.from(10).pow(13))
 }
 
-export function ParseUSDC(value: BigNumberish): BigNumber {
-  if (typeof value == 'string') {
-    return utils.parseUnits(value, 6)
+export interface OrderBookTicks {
+  sizeTick: BigNumberish
+  priceTick: BigNumberish
+  // derived from the ticks & the decimals of token0 if not given, the same way the OrderBook does
+  priceMultiplier?: BigNumberish
+  priceDivider?: BigNumberish
+}
+
+// OrderBookAmounts converts the amounts & prices of an order book to the base amounts used by the OrderBook and back
+// amount0 is in token0 units; price is in token1 units per one whole token0, like getPaginatedOrders returns it
+// amount0 = amount0Base * sizeTick, price = priceBase * priceTick
+// amount1 = amount0Base * priceBase * priceMultiplier / priceDivider
+export class OrderBookAmounts {
+  token0: Token
+  token1: Token
+  sizeTick: BigNumber
+  priceTick: BigNumber
+  priceMultiplier: BigNumber
+  priceDivider: BigNumber
+
+  constructor(token0: Token, token1: Token, ticks: OrderBookTicks) {
+    this.token0 = token0
+    this.token1 = token1
+    this.sizeTick = BigNumber.from(ticks.sizeTick)
+    this.priceTick = BigNumber.from(ticks.priceTick)
+
+    const product = this.sizeTick.mul(this.priceTick)
+    const isLarge = product.gte(token0.one)
+    this.priceMultiplier = BigNumber.from(ticks.priceMultiplier ?? (isLarge ? product.div(token0.one) : 1))
+    this.priceDivider = BigNumber.from(ticks.priceDivider ?? (isLarge ? 1 : token0.one.div(product)))
+  }
+
+  static async fromOrderBook(orderBook: OrderBook): Promise<OrderBookAmounts> {
+    const token0 = await Token.fromAddress(await orderBook.token0(), orderBook.provider)
+    const token1 = await Token.fromAddress(await orderBook.token1(), orderBook.provider)
+    return new OrderBookAmounts(token0, token1, {
+      sizeTick: await orderBook.sizeTick(),
+      priceTick: await orderBook.priceTick(),
+      priceMultiplier: await orderBook.priceMultiplier(),
+      priceDivider: await orderBook.priceDivider(),
+    })
   }
-  if (typeof value == 'number') {
-    return BigNumber.from(value * 10000).mul(BigNumber.from(10).pow(2))
+
+  toAmount0Base(amount0: BigNumberish, rounding = Rounding.Exact): BigNumber {
+    return divide(BigNumber.from(amount0), this.sizeTick, rounding, 'size tick')
+  }
+
+  toPriceBase(price: BigNumberish, rounding = Rounding.Exact): BigNumber {
+    return divide(BigNumber.from(price), this.priceTick, rounding, 'price tick')
+  }
+
+  // amount0Base can be a fraction of a size tick (e.g. 187.9), as long as it's a whole number of token0 units
+  fromAmount0Base(amount0Base: BigNumberish): BigNumber {
+    if (typeof amount0Base == 'number' || typeof amount0Base == 'string') {
+      const scaled = this.token0.parse(amount0Base).mul(this.sizeTick)
+      return divide(scaled, this.token0.one, Rounding.Exact, 'token0 unit')
+    }
+    return BigNumber.from(amount0Base).mul(this.sizeTick)
+  }
+
+  fromPriceBase(priceBase: BigNumberish): BigNumber {
+    return BigNumber.from(priceBase).mul(this.priceTick)
+  }
+
+  // human readable amount0 & price (e.g. '1.5' WETH at '1450.25' USDC) to base amounts
+  parseAmount0(value: BigNumberish, rounding = Rounding.Exact): BigNumber {
+    return this.toAmount0Base(this.token0.parse(value), rounding)
+  }
+
+  parsePrice(value: BigNumberish, rounding = Rounding.Exact): BigNumber {
+    return this.toPriceBase(this.token1.parse(value), rounding)
+  }
+
+  formatAmount0(amount0Base: BigNumberish): string {
+    return this.token0.format(BigNumber.from(amount0Base).mul(this.sizeTick))
+  }
+
+  formatPrice(priceBase: BigNumberish): string {
+    return this.token1.format(this.fromPriceBase(priceBase))
+  }
+
+  // amount of token1 for amount0Base at priceBase; the OrderBook rounds down
+  amount1(amount0Base: BigNumberish, priceBase: BigNumberish, rounding = Rounding.Down): BigNumber {
+    const value = BigNumber.from(amount0Base).mul(priceBase).mul(this.priceMultiplier)
+    return divide(value, this.priceDivider, rounding, 'price divider')
   }
-  return BigNumber.from(value).mul(BigNumber.from(10).pow(6))
 }
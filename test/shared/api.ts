@@ -1,5 +1,6 @@
 import {BigNumber, BigNumberish} from 'ethers'
 import {OrderBook, SmartWallet} from 'typechain-types'
+import {OrderBookAmounts} from './amount'
 
 async function prepareOrders(
   orderBook: OrderBook,
@@ -10,15 +11,15 @@ async function prepareOrders(
     hintId: number
   }[]
 ) {
-  const sizeTick = await orderBook.sizeTick()
-  const priceTick = await orderBook.priceTick()
+  // orders which are not on the tick grid throw instead of being truncated
+  const amounts = await OrderBookAmounts.fromOrderBook(orderBook)
   let amount0Base = []
   let priceBase = []
   let isAsk = []
   let hintId = []
   for (const order of orders) {
-    amount0Base.push(order.amount0.div(sizeTick))
-    priceBase.push(order.price.div(priceTick))
+    amount0Base.push(amounts.toAmount0Base(order.amount0))
+    priceBase.push(amounts.toPriceBase(order.price))
     isAsk.push(order.isAsk)
     hintId.push(order.hintId)
   }
@@ -1,11 +1,86 @@
 import {expect, use} from 'chai'
 import {solidity} from 'ethereum-waffle'
 import {jestSnapshotPlugin} from 'mocha-chai-jest-snapshot'
+import {ContractTransaction} from 'ethers'
+import {estimateL1Gas, l1GasEstimator} from 'reports/L1GasEstimator'
+import {baselineGas} from 'reports/gas-budget'
+
+declare global {
+  export namespace Chai {
+    interface Assertion {
+      // the L2 gas of the transaction is at most `gas`
+      useGasAtMost(gas: number): AsyncAssertion
+      // the L2 gas of the transaction is at most `percentage` % over the gas of the scenario in reports/gas-baseline.json
+      useGasWithin(scenarioName: string, percentage: number): AsyncAssertion
+    }
+  }
+}
+
+interface MeasuredGas {
+  l2GasUsed: number
+  l1GasUsed: number
+}
+
+async function measureGas(tx: ContractTransaction | Promise<ContractTransaction>): Promise<MeasuredGas> {
+  const resolved = await tx
+  const l2GasUsed = (await resolved.wait()).gasUsed.toNumber()
+  const {l1GasUsed} = await estimateL1Gas(resolved)
+  return {l2GasUsed, l1GasUsed: l1GasUsed.toNumber()}
+}
+
+function formatChange(value: number, baseline: number): string {
+  const change = value - baseline
+  const percentage = baseline == 0 ? '' : `, ${change >= 0 ? '+' : ''}${((100 * change) / baseline).toFixed(2)}%`
+  return `${change >= 0 ? '+' : ''}${change}${percentage}`
+}
+
+// like the matchers of waffle, the assertion is awaited through then & catch of the assertion
+function gasBudget(chai: Chai.ChaiStatic) {
+  chai.Assertion.addMethod('useGasAtMost', function (this: any, gas: number) {
+    const derivedPromise = measureGas(this._obj).then(({l2GasUsed, l1GasUsed}) => {
+      const used = `it used ${l2GasUsed} L2 gas (estimated L1 gas ${l1GasUsed}, ${l1GasEstimator})`
+      this.assert(
+        l2GasUsed <= gas,
+        `expected transaction to use at most ${gas} L2 gas, but ${used}`,
+        `expected transaction to use more than ${gas} L2 gas, but ${used}`,
+        gas,
+        l2GasUsed
+      )
+    })
+    this.then = derivedPromise.then.bind(derivedPromise)
+    this.catch = derivedPromise.catch.bind(derivedPromise)
+    return this
+  })
+
+  chai.Assertion.addMethod('useGasWithin', function (this: any, scenarioName: string, percentage: number) {
+    const derivedPromise = measureGas(this._obj).then(({l2GasUsed, l1GasUsed}) => {
+      const baseline = baselineGas(scenarioName)
+      const budget = Math.floor((baseline.l2GasUsed * (100 + percentage)) / 100)
+      // l1 gas is only reported, it depends on the estimator & the signature of the transaction
+      const estimator =
+        baseline.l1Estimator == l1GasEstimator ? l1GasEstimator : `${l1GasEstimator}, baseline ${baseline.l1Estimator}`
+      const used =
+        `it used ${l2GasUsed} L2 gas (${formatChange(l2GasUsed, baseline.l2GasUsed)}) ` +
+        `and an estimated ${l1GasUsed} L1 gas (${formatChange(l1GasUsed, baseline.l1GasUsed)}, ${estimator})`
+      this.assert(
+        l2GasUsed <= budget,
+        `expected ${scenarioName} to use at most ${budget} L2 gas, ${percentage}% over its baseline of ${baseline.l2GasUsed}, but ${used}`,
+        `expected ${scenarioName} to use more than ${budget} L2 gas, ${percentage}% over its baseline of ${baseline.l2GasUsed}, but ${used}`,
+        budget,
+        l2GasUsed
+      )
+    })
+    this.then = derivedPromise.then.bind(derivedPromise)
+    this.catch = derivedPromise.catch.bind(derivedPromise)
+    return this
+  })
+}
 
 // this is a nasty workaround to stop typescript from throwing errors when the package is imported outside a test
 try {
   use(solidity)
   use(jestSnapshotPlugin())
+  use(gasBudget)
 } catch (e) {}
 
 export {expect}
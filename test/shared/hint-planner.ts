@@ -0,0 +1,72 @@
+import {OrderBook} from 'typechain-types'
+import {BigNumber} from 'ethers'
+import {getAllOrders, PaginatedOrder} from './paginated-orders'
+
+export type BookOrder = Pick<PaginatedOrder, 'id' | 'amount0' | 'price'>
+
+// sides of the book are sorted best price first, like getPaginatedOrders returns them
+export interface BookSnapshot {
+  asks: BookOrder[]
+  bids: BookOrder[]
+  nextOrderId: number // orderIdCounter, the id of the next created order
+}
+
+export interface NewOrder {
+  amount0: BigNumber
+  price: BigNumber
+  isAsk: boolean
+}
+
+export async function readBookSnapshot(orderBook: OrderBook): Promise<BookSnapshot> {
+  return {
+    asks: await getAllOrders(orderBook, true),
+    bids: await getAllOrders(orderBook, false),
+    nextOrderId: await orderBook.orderIdCounter(),
+  }
+}
+
+// planHintIds returns the hint id of every order of a createLimitOrder batch, so LinkedList.insert does not have to
+// walk the book: the hint is the order the new order is inserted after, which is the last order with the same or a
+// better price. Orders of the batch are matched & inserted one after the other with consecutive ids, so every order
+// is first matched against the book, as left by the previous orders, and can use the previous orders as hints.
+// Orders which are fully filled are not inserted, their hint is 0 (the head of the book), which is always valid.
+export function planHintIds(book: BookSnapshot, orders: NewOrder[]): number[] {
+  const asks = book.asks.map((order) => ({...order}))
+  const bids = book.bids.map((order) => ({...order}))
+
+  return orders.map((order, index) => {
+    const [side, opposite] = order.isAsk ? [asks, bids] : [bids, asks]
+    const isBetterOrEqual = (price: BigNumber) => (order.isAsk ? price.lte(order.price) : price.gte(order.price))
+    const canMatch = (price: BigNumber) => (order.isAsk ? price.gte(order.price) : price.lte(order.price))
+
+    let remaining = order.amount0
+    while (remaining.gt(0) && opposite.length > 0 && canMatch(opposite[0].price)) {
+      const maker = opposite[0]
+      const filled = remaining.lt(maker.amount0) ? remaining : maker.amount0
+      remaining = remaining.sub(filled)
+      maker.amount0 = maker.amount0.sub(filled)
+      if (maker.amount0.eq(0)) {
+        opposite.shift()
+      }
+    }
+    if (remaining.eq(0)) {
+      return 0
+    }
+
+    let position = 0
+    while (position < side.length && isBetterOrEqual(side[position].price)) {
+      position += 1
+    }
+    side.splice(position, 0, {id: book.nextOrderId + index, amount0: remaining, price: order.price})
+    return position == 0 ? 0 : side[position - 1].id
+  })
+}
+
+// returns the orders with the planned hint ids, ready to be passed to CreateLimitOrder or CreatePerformanceLimitOrder
+export async function withHintIds<T extends NewOrder>(
+  orderBook: OrderBook,
+  orders: T[]
+): Promise<(T & {hintId: number})[]> {
+  const hintIds = planHintIds(await readBookSnapshot(orderBook), orders)
+  return orders.map((order, index) => ({...order, hintId: hintIds[index]}))
+}
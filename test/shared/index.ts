@@ -2,3 +2,9 @@ export * from './amount'
 export * from './api'
 export * from './expect'
 export * from './order-book'
+export * from './order-type'
+export * from './paginated-orders'
+export * from './hint-planner'
+export * from './order-validation'
+export * from './revert-decoder'
+export * from './receipt-decoder'
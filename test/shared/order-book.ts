@@ -1,10 +1,12 @@
 import {OrderBook} from 'typechain-types'
 import {BigNumberish} from 'ethers'
 import {expect} from './expect'
+import {getAllOrders} from './paginated-orders'
 
+// the expected ids are terminated by 0, the same way getPaginatedOrders pads a page
 export async function expectOrderBook(orderBook: OrderBook, asks: BigNumberish[], bids: BigNumberish[]) {
-  const [, ids_ask] = await orderBook.getPaginatedOrders(0, true, asks.length)
-  expect(ids_ask).to.eql(asks)
-  const [, ids_bid] = await orderBook.getPaginatedOrders(0, false, bids.length)
-  expect(ids_bid).to.eql(bids)
+  const ids_ask = (await getAllOrders(orderBook, true)).map((order) => order.id)
+  expect([...ids_ask, 0]).to.eql(asks)
+  const ids_bid = (await getAllOrders(orderBook, false)).map((order) => order.id)
+  expect([...ids_bid, 0]).to.eql(bids)
 }
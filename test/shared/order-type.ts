@@ -0,0 +1,7 @@
+// mirrors IOrderBook.OrderType, typechain does not generate enums for the contract types
+export enum OrderType {
+  LimitOrder, // Limit order
+  PerformanceLimitOrder, // Limit order that uses claimable balances
+  FoKOrder, // Fill or Kill limit order
+  IoCOrder, // Immediate or Cancel limit order
+}
@@ -0,0 +1,106 @@
+import {BigNumber, BigNumberish} from 'ethers'
+import {OrderBook} from 'typechain-types'
+import {OrderType} from './order-type'
+
+// parameters of an order book which decide if createOrder accepts an order, before the order is matched
+export interface OrderBookLimits {
+  minToken0BaseAmount: BigNumber
+  minToken1BaseAmount: BigNumber
+  priceDivider: BigNumber
+  maxPrice: BigNumber
+  orderIdThreshold: number
+  orderIdCounter: number // the id of the next created order
+}
+
+export interface OrderToValidate {
+  amount0Base: BigNumberish
+  priceBase: BigNumberish
+  isAsk: boolean
+  orderType: OrderType
+  hintId: number
+}
+
+// errors of Errors.sol createOrder raises before matching; ArithmeticOverflow is the panic of `priceBase * amount0Base`
+// which is computed in uint64 for the minToken1BaseAmount check of limit orders
+export type OrderValidationError =
+  | 'LighterV2Order_AmountTooSmall'
+  | 'LighterV2Order_PriceTooSmall'
+  | 'LighterV2Order_PriceTooBig'
+  | 'LighterV2Order_InvalidHintId'
+  | 'LighterV2Order_OrderIdExceedsLimit'
+  | 'ArithmeticOverflow'
+
+const maxUint64 = BigNumber.from(2).pow(64).sub(1)
+const maxUint32 = 2 ** 32 - 1
+
+export async function readOrderBookLimits(orderBook: OrderBook): Promise<OrderBookLimits> {
+  return {
+    minToken0BaseAmount: await orderBook.minToken0BaseAmount(),
+    minToken1BaseAmount: await orderBook.minToken1BaseAmount(),
+    priceDivider: await orderBook.priceDivider(),
+    maxPrice: await orderBook.MAX_PRICE(),
+    orderIdThreshold: await orderBook.ORDER_ID_THRESHOLD(),
+    orderIdCounter: await orderBook.orderIdCounter(),
+  }
+}
+
+// validateOrder returns the error createOrder reverts with for the order, in the order the OrderBook checks them, or
+// null if the order passes the checks; errors which depend on the state of the book (the hint order not being active
+// in LinkedList.insert, FoK orders not being filled, balances & callbacks) are not predicted
+// values which can not be encoded as the uint64 & uint32 arguments throw, as the order can not be sent at all
+export function validateOrder(limits: OrderBookLimits, order: OrderToValidate): OrderValidationError | null {
+  const amount0Base = BigNumber.from(order.amount0Base)
+  const priceBase = BigNumber.from(order.priceBase)
+  if (amount0Base.lt(0) || amount0Base.gt(maxUint64) || priceBase.lt(0) || priceBase.gt(maxUint64)) {
+    throw `amount0Base ${amount0Base} & priceBase ${priceBase} have to fit in uint64`
+  }
+  if (order.hintId < 0 || order.hintId > maxUint32) {
+    throw `hintId ${order.hintId} has to fit in uint32`
+  }
+
+  if (amount0Base.eq(0)) {
+    return 'LighterV2Order_AmountTooSmall'
+  }
+  if (priceBase.lt(limits.priceDivider)) {
+    return 'LighterV2Order_PriceTooSmall'
+  }
+  if (priceBase.eq(limits.maxPrice)) {
+    return 'LighterV2Order_PriceTooBig'
+  }
+
+  if (order.orderType == OrderType.LimitOrder || order.orderType == OrderType.PerformanceLimitOrder) {
+    if (order.hintId >= limits.orderIdCounter) {
+      return 'LighterV2Order_InvalidHintId'
+    }
+    if (amount0Base.lt(limits.minToken0BaseAmount)) {
+      return 'LighterV2Order_AmountTooSmall'
+    }
+    const amount1Base = priceBase.mul(amount0Base)
+    if (amount1Base.gt(maxUint64)) {
+      return 'ArithmeticOverflow'
+    }
+    if (amount1Base.lt(limits.minToken1BaseAmount)) {
+      return 'LighterV2Order_AmountTooSmall'
+    }
+  }
+
+  if (limits.orderIdCounter >= limits.orderIdThreshold) {
+    return 'LighterV2Order_OrderIdExceedsLimit'
+  }
+  return null
+}
+
+// validates the orders of a createLimitOrder or createPerformanceLimitOrder batch, which get consecutive ids
+// returns the index & the error of the first order which reverts, as it reverts the whole batch
+export function validateOrders(
+  limits: OrderBookLimits,
+  orders: OrderToValidate[]
+): {index: number; error: OrderValidationError} | null {
+  for (let index = 0; index < orders.length; index += 1) {
+    const error = validateOrder({...limits, orderIdCounter: limits.orderIdCounter + index}, orders[index])
+    if (error != null) {
+      return {index, error}
+    }
+  }
+  return null
+}
@@ -0,0 +1,60 @@
+import {OrderBook} from 'typechain-types'
+import {BigNumber} from 'ethers'
+import {isLighterError} from './revert-decoder'
+
+export interface PaginatedOrder {
+  id: number
+  owner: string
+  amount0: BigNumber
+  price: BigNumber
+}
+
+// iterates over a whole side of the book, best price first, reading pageSize orders with every getPaginatedOrders call
+// every page starts after the last order of the previous one; if that order got canceled in the meantime the query
+// reverts with LighterV2Order_CannotQueryFromInactiveOrder, so the walk goes back to an earlier order of the walk
+// (the head of the book in the worst case) and skips the orders it already returned
+export async function* paginatedOrders(
+  orderBook: OrderBook,
+  isAsk: boolean,
+  pageSize = 25
+): AsyncGenerator<PaginatedOrder> {
+  const returned = new Set<number>()
+  // orders the walk can continue from, the last one is tried first; 0 is the head of the book and is always active
+  const cursors = [0]
+
+  while (true) {
+    let page
+    try {
+      page = await orderBook.getPaginatedOrders(cursors[cursors.length - 1], isAsk, pageSize)
+    } catch (e) {
+      if (cursors.length == 1 || !isLighterError(e, 'LighterV2Order_CannotQueryFromInactiveOrder')) {
+        throw e
+      }
+      cursors.pop()
+      continue
+    }
+
+    let count = 0
+    for (; count < page.ids.length && page.ids[count] != 0; count += 1) {
+      const id = page.ids[count]
+      if (!returned.has(id)) {
+        returned.add(id)
+        yield {id, owner: page.owners[count], amount0: page.amount0s[count], price: page.prices[count]}
+      }
+    }
+
+    if (count < pageSize) {
+      return
+    }
+    cursors.push(page.ids[count - 1])
+  }
+}
+
+// reads a whole side of the book, best price first
+export async function getAllOrders(orderBook: OrderBook, isAsk: boolean, pageSize = 25): Promise<PaginatedOrder[]> {
+  const orders: PaginatedOrder[] = []
+  for await (const order of paginatedOrders(orderBook, isAsk, pageSize)) {
+    orders.push(order)
+  }
+  return orders
+}
@@ -0,0 +1,285 @@
+import {BigNumber, ContractTransaction} from 'ethers'
+import {TransactionReceipt} from '@ethersproject/abstract-provider'
+import {IOrderBook__factory, OrderBook} from 'typechain-types'
+import {OrderBookAmounts} from './amount'
+import {OrderType} from './order-type'
+
+// events of an OrderBook, as emitted; amount0Base & priceBase are base amounts, every other amount is in token units
+export type OrderBookEvent = {logIndex: number} & (
+  | {
+      name: 'CreateOrder'
+      owner: string
+      id: number
+      amount0Base: BigNumber
+      priceBase: BigNumber
+      isAsk: boolean
+      orderType: OrderType
+    }
+  | {
+      // the id of the taker is 0 for swaps
+      name: 'Swap'
+      askId: number
+      bidId: number
+      askOwner: string
+      bidOwner: string
+      amount0: BigNumber
+      amount1: BigNumber
+    }
+  | {
+      name: 'SwapExactAmount'
+      sender: string
+      recipient: string
+      isExactInput: boolean
+      isAsk: boolean
+      swapAmount0: BigNumber
+      swapAmount1: BigNumber
+    }
+  | {name: 'CancelLimitOrder'; id: number}
+  | {name: 'FlashLoan'; sender: string; recipient: string; amount0: BigNumber; amount1: BigNumber}
+  | {
+      name: 'ClaimableBalanceIncrease' | 'ClaimableBalanceDecrease'
+      owner: string
+      amountDelta: BigNumber
+      isToken0: boolean
+    }
+)
+
+const orderBookInterface = IOrderBook__factory.createInterface()
+
+// decodeOrderBookEvents decodes the events the order book emitted in the transaction, in the order of the logs
+// logs of other contracts, e.g. the transfers of the tokens, are skipped
+export function decodeOrderBookEvents(receipt: TransactionReceipt, orderBookAddress: string): OrderBookEvent[] {
+  const events: OrderBookEvent[] = []
+  const logs = receipt.logs.filter((log) => log.address.toLowerCase() == orderBookAddress.toLowerCase())
+  for (const log of [...logs].sort((a, b) => a.logIndex - b.logIndex)) {
+    const {name, args} = orderBookInterface.parseLog(log)
+    const logIndex = log.logIndex
+    switch (name) {
+      case 'CreateOrder':
+        events.push({
+          name,
+          logIndex,
+          owner: args.owner,
+          id: args.id,
+          amount0Base: args.amount0Base,
+          priceBase: args.priceBase,
+          isAsk: args.isAsk,
+          orderType: args.orderType,
+        })
+        break
+      case 'Swap':
+        events.push({
+          name,
+          logIndex,
+          askId: args.askId,
+          bidId: args.bidId,
+          askOwner: args.askOwner,
+          bidOwner: args.bidOwner,
+          amount0: args.amount0,
+          amount1: args.amount1,
+        })
+        break
+      case 'SwapExactAmount':
+        events.push({
+          name,
+          logIndex,
+          sender: args.sender,
+          recipient: args.recipient,
+          isExactInput: args.isExactInput,
+          isAsk: args.isAsk,
+          swapAmount0: args.swapAmount0,
+          swapAmount1: args.swapAmount1,
+        })
+        break
+      case 'CancelLimitOrder':
+        events.push({name, logIndex, id: args.id})
+        break
+      case 'FlashLoan':
+        events.push({
+          name,
+          logIndex,
+          sender: args.sender,
+          recipient: args.recipient,
+          amount0: args.amount0,
+          amount1: args.amount1,
+        })
+        break
+      case 'ClaimableBalanceIncrease':
+      case 'ClaimableBalanceDecrease':
+        events.push({name, logIndex, owner: args.owner, amountDelta: args.amountDelta, isToken0: args.isToken0})
+        break
+      default:
+        throw `unknown event ${name} of order book ${orderBookAddress}`
+    }
+  }
+  return events
+}
+
+// a maker order consumed by the taker, in the order of matching
+export interface MakerFill {
+  makerId: number
+  owner: string
+  amount0: BigNumber
+  amount1: BigNumber
+}
+
+// ExecutionReport is the outcome of an order created with createOrder or a swap of swapExactSingle
+// amounts & prices are in token units, prices are token1 units per whole token0 like getPaginatedOrders returns them
+export interface ExecutionReport {
+  kind: 'order' | 'swap'
+  id: number // 0 for swaps, like the Swap events
+  owner: string // owner of the order, recipient of the swap
+  sender: string | null // caller of swapExactSingle, null for orders
+  isAsk: boolean
+  orderType: OrderType | null // null for swaps
+  isExactInput: boolean | null // null for orders
+  price: BigNumber | null // limit price of orders
+  requestedAmount0: BigNumber | null // null for swaps, their exact amount is not emitted
+  fills: MakerFill[]
+  fillsByOwner: {[owner: string]: {amount0: BigNumber; amount1: BigNumber}}
+  filledAmount0: BigNumber
+  filledAmount1: BigNumber
+  averagePrice: BigNumber | null // rounded down, null without fills
+  restedAmount0: BigNumber // what is left of a limit order, inserted in the book with the id of the order
+  refundedAmount0: BigNumber // what is left of an IoC order, the taker never pays it
+}
+
+function emptyReport(
+  fields: Pick<ExecutionReport, 'kind' | 'id' | 'owner' | 'sender' | 'isAsk' | 'orderType' | 'isExactInput'>
+): ExecutionReport {
+  return {
+    ...fields,
+    price: null,
+    requestedAmount0: null,
+    fills: [],
+    fillsByOwner: {},
+    filledAmount0: BigNumber.from(0),
+    filledAmount1: BigNumber.from(0),
+    averagePrice: null,
+    restedAmount0: BigNumber.from(0),
+    refundedAmount0: BigNumber.from(0),
+  }
+}
+
+function addFill(report: ExecutionReport, fill: MakerFill) {
+  report.fills.push(fill)
+  const byOwner = report.fillsByOwner[fill.owner] ?? {amount0: BigNumber.from(0), amount1: BigNumber.from(0)}
+  report.fillsByOwner[fill.owner] = {
+    amount0: byOwner.amount0.add(fill.amount0),
+    amount1: byOwner.amount1.add(fill.amount1),
+  }
+  report.filledAmount0 = report.filledAmount0.add(fill.amount0)
+  report.filledAmount1 = report.filledAmount1.add(fill.amount1)
+}
+
+// executionReports aggregates the events of a transaction into a report per taker order & swap, in execution order
+// cancellations, flash loans & claimable balance changes do not belong to a taker and are only in the events
+export function executionReports(events: OrderBookEvent[], amounts: OrderBookAmounts): ExecutionReport[] {
+  const reports: ExecutionReport[] = []
+  // the taker the next Swap events belong to; swaps are only known to be swaps once SwapExactAmount is emitted
+  let taker: ExecutionReport | null = null
+
+  const settle = () => {
+    if (taker == null) {
+      return
+    }
+    if (!taker.filledAmount0.eq(0)) {
+      taker.averagePrice = taker.filledAmount1.mul(amounts.token0.one).div(taker.filledAmount0)
+    }
+    if (taker.kind == 'order') {
+      const remaining = taker.requestedAmount0!.sub(taker.filledAmount0)
+      if (taker.orderType == OrderType.LimitOrder || taker.orderType == OrderType.PerformanceLimitOrder) {
+        taker.restedAmount0 = remaining
+      } else {
+        taker.refundedAmount0 = remaining
+      }
+    }
+    reports.push(taker)
+    taker = null
+  }
+
+  for (const event of events) {
+    switch (event.name) {
+      case 'CreateOrder': {
+        settle()
+        const {id, owner, isAsk, orderType} = event
+        taker = emptyReport({kind: 'order', id, owner, sender: null, isAsk, orderType, isExactInput: null})
+        taker.price = amounts.fromPriceBase(event.priceBase)
+        taker.requestedAmount0 = amounts.fromAmount0Base(event.amount0Base)
+        break
+      }
+      case 'Swap': {
+        const {askId, bidId, askOwner, bidOwner, amount0, amount1} = event
+        // e.g. a contract swapping after creating an order in the same transaction
+        if (taker != null && taker.id != (taker.isAsk ? askId : bidId)) {
+          settle()
+        }
+        if (taker == null) {
+          if (askId != 0 && bidId != 0) {
+            throw `swap of ask ${askId} & bid ${bidId} without taker`
+          }
+          const isAsk = askId == 0
+          taker = emptyReport({
+            kind: 'swap',
+            id: 0,
+            owner: isAsk ? askOwner : bidOwner,
+            sender: null,
+            isAsk,
+            orderType: null,
+            isExactInput: null,
+          })
+        }
+        addFill(taker, {
+          makerId: taker.isAsk ? bidId : askId,
+          owner: taker.isAsk ? bidOwner : askOwner,
+          amount0,
+          amount1,
+        })
+        break
+      }
+      case 'SwapExactAmount': {
+        // a swap which consumed no maker only emits SwapExactAmount
+        if (taker != null && taker.kind != 'swap') {
+          settle()
+        }
+        if (taker == null) {
+          taker = emptyReport({
+            kind: 'swap',
+            id: 0,
+            owner: event.recipient,
+            sender: null,
+            isAsk: event.isAsk,
+            orderType: null,
+            isExactInput: null,
+          })
+        }
+        if (!taker.filledAmount0.eq(event.swapAmount0) || !taker.filledAmount1.eq(event.swapAmount1)) {
+          throw `swap of ${event.swapAmount0} token0 & ${event.swapAmount1} token1 does not match its fills`
+        }
+        taker.sender = event.sender
+        taker.isExactInput = event.isExactInput
+        settle()
+        break
+      }
+      default:
+        break
+    }
+  }
+
+  if (taker != null && (taker as ExecutionReport).kind == 'swap') {
+    throw 'swap without SwapExactAmount event'
+  }
+  settle()
+  return reports
+}
+
+// decodeExecutionReports decodes the execution reports of a transaction of the order book
+export async function decodeExecutionReports(
+  tx: ContractTransaction | TransactionReceipt,
+  orderBook: OrderBook,
+  amounts?: OrderBookAmounts
+): Promise<ExecutionReport[]> {
+  const receipt = 'wait' in tx ? await tx.wait() : tx
+  const events = decodeOrderBookEvents(receipt, orderBook.address)
+  return executionReports(events, amounts ?? (await OrderBookAmounts.fromOrderBook(orderBook)))
+}
@@ -0,0 +1,116 @@
+import {utils} from 'ethers'
+
+// every error of contracts/libraries/Errors.sol, none of them has arguments
+export const LIGHTER_ERRORS = [
+  'LighterV2Factory_CallerNotOwner',
+  'LighterV2Factory_OwnerCannotBeZero',
+  'LighterV2CreateOrderBook_InvalidTokenPair',
+  'LighterV2CreateOrderBook_OrderBookAlreadyExists',
+  'LighterV2CreateOrderBook_OrderBookIdExceedsLimit',
+  'LighterV2CreateOrderBook_InvalidTickCombination',
+  'LighterV2CreateOrderBook_InvalidMinAmount',
+  'LighterV2Order_InvalidHintId',
+  'LighterV2Order_PriceTooSmall',
+  'LighterV2Order_PriceTooBig',
+  'LighterV2Order_AmountTooSmall',
+  'LighterV2Order_OrderIdExceedsLimit',
+  'LighterV2Order_CreatorIdExceedsLimit',
+  'LighterV2Order_InsufficentCallbackTransfer',
+  'LighterV2Order_InsufficientClaimableBalance',
+  'LighterV2Order_FoKNotFilled',
+  'LighterV2Base_ContractBalanceDoesNotMatchSentAmount',
+  'LighterV2Owner_CallerCannotCancel',
+  'LighterV2Order_CannotEraseHeadOrTailOrders',
+  'LighterV2Order_CannotCancelInactiveOrders',
+  'LighterV2Order_OrderDoesNotExist',
+  'LighterV2Order_CannotQueryFromInactiveOrder',
+  'LighterV2Swap_NotEnoughLiquidity',
+  'LighterV2Swap_NotEnoughOutput',
+  'LighterV2Swap_TooMuchRequested',
+  'LighterV2Vault_InvalidClaimAmount',
+  'LighterV2Vault_InsufficentCallbackTransfer',
+  'LighterV2FlashLoan_InsufficentCallbackTransfer',
+  'LighterV2TokenTransfer_Failed',
+] as const
+
+export type LighterError = (typeof LIGHTER_ERRORS)[number]
+
+// the only reason string of the OrderBook, from OpenZeppelin's ReentrancyGuard
+export const REENTRANT_CALL = 'ReentrancyGuard: reentrant call'
+
+// reverts of the OrderBook, the Factory & the tokens they call, by where the error comes from
+// ERC20 reasons are the `ERC20: ...` require messages of OpenZeppelin's ERC20, e.g. 'ERC20: insufficient allowance'
+export type DecodedRevert =
+  | {kind: 'lighter'; name: LighterError}
+  | {kind: 'reentrancy'; reason: typeof REENTRANT_CALL}
+  | {kind: 'erc20'; reason: string}
+  | {kind: 'reason'; reason: string} // any other Error(string)
+  | {kind: 'panic'; code: number}
+  | {kind: 'unknown'; data: string}
+
+// revert data of the error, e.g. for off-chain implementations of contract calls which are handled like reverted calls
+export function lighterErrorData(name: LighterError): string {
+  return utils.id(`${name}()`).slice(0, 10)
+}
+
+const lighterErrorBySelector = new Map<string, LighterError>(
+  LIGHTER_ERRORS.map((name) => [lighterErrorData(name), name])
+)
+const errorSelector = utils.id('Error(string)').slice(0, 10)
+const panicSelector = utils.id('Panic(uint256)').slice(0, 10)
+
+export function decodeRevertData(data: string): DecodedRevert {
+  const selector = data.slice(0, 10).toLowerCase()
+  const lighterError = lighterErrorBySelector.get(selector)
+  if (lighterError != undefined) {
+    return {kind: 'lighter', name: lighterError}
+  }
+
+  try {
+    if (selector == errorSelector) {
+      const [reason] = utils.defaultAbiCoder.decode(['string'], utils.hexDataSlice(data, 4))
+      if (reason == REENTRANT_CALL) {
+        return {kind: 'reentrancy', reason}
+      }
+      return reason.startsWith('ERC20: ') ? {kind: 'erc20', reason} : {kind: 'reason', reason}
+    }
+    if (selector == panicSelector) {
+      const [code] = utils.defaultAbiCoder.decode(['uint256'], utils.hexDataSlice(data, 4))
+      return {kind: 'panic', code: code.toNumber()}
+    }
+  } catch (e) {
+    // malformed data, e.g. a custom error of another contract with the same selector
+  }
+  return {kind: 'unknown', data}
+}
+
+// finds the revert data of an error thrown by ethers or hardhat, which nest it differently for calls & transactions
+// returns null if the error is not a revert, e.g. a network error or an error thrown by the client
+export function revertData(error: unknown): string | null {
+  for (let current = error as any; current != undefined && typeof current == 'object'; current = current.error) {
+    const data = typeof current.data == 'string' ? current.data : current.data?.data
+    if (typeof data == 'string' && utils.isHexString(data) && data.length >= 10) {
+      return data
+    }
+  }
+  return null
+}
+
+// decodes the revert of a failed call or transaction; errors which are not reverts are rethrown
+export function decodeRevert(error: unknown): DecodedRevert {
+  const data = revertData(error)
+  if (data == null) {
+    throw error
+  }
+  return decodeRevertData(data)
+}
+
+// true if the call or transaction reverted with the given error of Errors.sol
+export function isLighterError(error: unknown, name: LighterError): boolean {
+  const data = revertData(error)
+  if (data == null) {
+    return false
+  }
+  const decoded = decodeRevertData(data)
+  return decoded.kind == 'lighter' && decoded.name == name
+}
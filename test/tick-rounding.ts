@@ -1,5 +1,5 @@
 import {loadFixture} from '@nomicfoundation/hardhat-network-helpers'
-import {expect, ParseWETHBase} from './shared'
+import {expect, OrderBookAmounts} from './shared'
 import {setupEmptyBookFixturesForSmartWallet} from './default-fixture'
 import {SmartWallet} from 'typechain-types'
 
@@ -26,6 +26,7 @@ describe('OrderBook contract, tick size', function () {
       token_usdc: token1,
       orderBook,
     } = await loadFixture(setupEmptyBookFixturesForSmartWallet)
+    const amounts = await OrderBookAmounts.fromOrderBook(orderBook)
 
     let tx
 
@@ -68,8 +69,8 @@ describe('OrderBook contract, tick size', function () {
     // taker receives 4139 token1 in total
 
     await expect(tx)
-      .to.changeTokenBalance(token0, acc1.address, ParseWETHBase(105 + 116))
-      .to.changeTokenBalance(token0, acc2.address, -ParseWETHBase(105 + 116))
+      .to.changeTokenBalance(token0, acc1.address, amounts.fromAmount0Base(105 + 116))
+      .to.changeTokenBalance(token0, acc2.address, amounts.fromAmount0Base(-(105 + 116)))
       .to.changeTokenBalance(token1, acc1.address, 0)
       .to.changeTokenBalance(token1, acc2.address, 4139)
 
@@ -88,6 +89,7 @@ describe('OrderBook contract, tick size', function () {
       token_usdc: token1,
       orderBook,
     } = await loadFixture(setupEmptyBookFixturesForSmartWallet)
+    const amounts = await OrderBookAmounts.fromOrderBook(orderBook)
 
     let tx
 
@@ -99,25 +101,25 @@ describe('OrderBook contract, tick size', function () {
     tx = acc2.createImmediateOrCancelOrder(0, 139, 10, true) // buys 1264.9 token1
     await expect(tx) //
       .to.changeTokenBalance(token1, acc2.address, +1264)
-      .to.changeTokenBalance(token0, acc2.address, ParseWETHBase(-139))
+      .to.changeTokenBalance(token0, acc2.address, amounts.fromAmount0Base(-139))
 
     // partial fill 2
     tx = acc2.createImmediateOrCancelOrder(0, 129, 10, true) // buys 1173.9 token1
     await expect(tx) //
       .to.changeTokenBalance(token1, acc2.address, +1173)
-      .to.changeTokenBalance(token0, acc2.address, ParseWETHBase(-129))
+      .to.changeTokenBalance(token0, acc2.address, amounts.fromAmount0Base(-129))
 
     // partial fill 3
     tx = acc2.createImmediateOrCancelOrder(0, 119, 10, true) // buys 1082.9 token1
     await expect(tx) //
       .to.changeTokenBalance(token1, acc2.address, +1082)
-      .to.changeTokenBalance(token0, acc2.address, ParseWETHBase(-119))
+      .to.changeTokenBalance(token0, acc2.address, amounts.fromAmount0Base(-119))
 
     // match against the whole order
     tx = acc2.createImmediateOrCancelOrder(0, 1000, 10, true) // buys 3603.6 token1
     await expect(tx) //
       .to.changeTokenBalance(token1, acc2.address, +3603)
-      .to.changeTokenBalance(token0, acc2.address, ParseWETHBase(-396))
+      .to.changeTokenBalance(token0, acc2.address, amounts.fromAmount0Base(-396))
   })
 
   async function createOrders(account: SmartWallet, isAsk: boolean) {
@@ -130,96 +132,92 @@ describe('OrderBook contract, tick size', function () {
 
   it('swap exact input token0', async function () {
     const {acc1, acc2, orderBook} = await loadFixture(setupEmptyBookFixturesForSmartWallet)
+    const amounts = await OrderBookAmounts.fromOrderBook(orderBook)
 
     await createOrders(acc1, false)
 
-    await expect(acc2.swapExactInput(0, true, ParseWETHBase(187.9), 3733, acc2.address)).to.be.revertedWithCustomError(
-      orderBook,
-      'LighterV2Swap_NotEnoughOutput'
-    )
+    await expect(
+      acc2.swapExactInput(0, true, amounts.fromAmount0Base(187.9), 3733, acc2.address)
+    ).to.be.revertedWithCustomError(orderBook, 'LighterV2Swap_NotEnoughOutput')
 
     // 2472 + 1260
-    await acc2.swapExactInput(0, true, ParseWETHBase(187.9), 3732, acc2.address)
+    await acc2.swapExactInput(0, true, amounts.fromAmount0Base(187.9), 3732, acc2.address)
 
-    await expect(acc2.swapExactInput(0, true, ParseWETHBase(215.31), 4044, acc2.address)).to.be.revertedWithCustomError(
-      orderBook,
-      'LighterV2Swap_NotEnoughOutput'
-    )
+    await expect(
+      acc2.swapExactInput(0, true, amounts.fromAmount0Base(215.31), 4044, acc2.address)
+    ).to.be.revertedWithCustomError(orderBook, 'LighterV2Swap_NotEnoughOutput')
 
     // 1339 + 2704
-    await acc2.swapExactInput(0, true, ParseWETHBase(215.31), 4043, acc2.address)
+    await acc2.swapExactInput(0, true, amounts.fromAmount0Base(215.31), 4043, acc2.address)
   })
 
   it('swap exact output token0', async function () {
     const {acc1, acc2, orderBook} = await loadFixture(setupEmptyBookFixturesForSmartWallet)
+    const amounts = await OrderBookAmounts.fromOrderBook(orderBook)
 
     await createOrders(acc1, true)
 
     // should receive 187 base token0
     // pays 919 + 1582
     await expect(
-      acc2.swapExactOutput(0, false, ParseWETHBase(186.9), 2500, acc2.address)
+      acc2.swapExactOutput(0, false, amounts.fromAmount0Base(186.9), 2500, acc2.address)
     ).to.be.revertedWithCustomError(orderBook, 'LighterV2Swap_TooMuchRequested')
 
-    await acc2.swapExactOutput(0, false, ParseWETHBase(186.9), 2501, acc2.address)
+    await acc2.swapExactOutput(0, false, amounts.fromAmount0Base(186.9), 2501, acc2.address)
 
-    await expect(acc2.swapExactOutput(0, false, ParseWETHBase(30.99), 569, acc2.address)).to.be.revertedWithCustomError(
-      orderBook,
-      'LighterV2Swap_TooMuchRequested'
-    )
+    await expect(
+      acc2.swapExactOutput(0, false, amounts.fromAmount0Base(30.99), 569, acc2.address)
+    ).to.be.revertedWithCustomError(orderBook, 'LighterV2Swap_TooMuchRequested')
 
     // 570
-    await acc2.swapExactOutput(0, false, ParseWETHBase(30.99), 570, acc2.address)
+    await acc2.swapExactOutput(0, false, amounts.fromAmount0Base(30.99), 570, acc2.address)
   })
 
   it('swap exact input token1', async function () {
     const {acc1, acc2, orderBook} = await loadFixture(setupEmptyBookFixturesForSmartWallet)
+    const amounts = await OrderBookAmounts.fromOrderBook(orderBook)
 
     await createOrders(acc1, true)
 
-    await expect(acc2.swapExactInput(0, false, 1183, ParseWETHBase(115.1), acc2.address)).to.be.revertedWithCustomError(
-      orderBook,
-      'LighterV2Swap_NotEnoughOutput'
-    )
+    await expect(
+      acc2.swapExactInput(0, false, 1183, amounts.fromAmount0Base(115.1), acc2.address)
+    ).to.be.revertedWithCustomError(orderBook, 'LighterV2Swap_NotEnoughOutput')
     // get 101 + 14
     // pay 920 + 258
-    await acc2.swapExactInput(0, false, 1183, ParseWETHBase(115), acc2.address)
+    await acc2.swapExactInput(0, false, 1183, amounts.fromAmount0Base(115), acc2.address)
 
     // 1895.2 to fill the second order
     // 1913.6 for the next tick of the third order
-    await expect(acc2.swapExactInput(0, false, 1913, ParseWETHBase(103.1), acc2.address)).to.be.revertedWithCustomError(
-      orderBook,
-      'LighterV2Swap_NotEnoughOutput'
-    )
+    await expect(
+      acc2.swapExactInput(0, false, 1913, amounts.fromAmount0Base(103.1), acc2.address)
+    ).to.be.revertedWithCustomError(orderBook, 'LighterV2Swap_NotEnoughOutput')
 
-    await acc2.swapExactInput(0, false, 1913, ParseWETHBase(103), acc2.address)
+    await acc2.swapExactInput(0, false, 1913, amounts.fromAmount0Base(103), acc2.address)
   })
 
   it('swap exact output token1', async function () {
     const {acc1, acc2, orderBook} = await loadFixture(setupEmptyBookFixturesForSmartWallet)
+    const amounts = await OrderBookAmounts.fromOrderBook(orderBook)
 
     await createOrders(acc1, false)
 
-    await expect(acc2.swapExactOutput(0, true, 3112, ParseWETHBase(155.9), acc2.address)).to.be.revertedWithCustomError(
-      orderBook,
-      'LighterV2Swap_TooMuchRequested'
-    )
+    await expect(
+      acc2.swapExactOutput(0, true, 3112, amounts.fromAmount0Base(155.9), acc2.address)
+    ).to.be.revertedWithCustomError(orderBook, 'LighterV2Swap_TooMuchRequested')
     // pay 33 + 123
     // get 650 + 2472
-    await acc2.swapExactOutput(0, true, 3112, ParseWETHBase(156), acc2.address)
+    await acc2.swapExactOutput(0, true, 3112, amounts.fromAmount0Base(156), acc2.address)
 
-    await expect(acc2.swapExactOutput(0, true, 4654, ParseWETHBase(245.9), acc2.address)).to.be.revertedWithCustomError(
-      orderBook,
-      'LighterV2Swap_TooMuchRequested'
-    )
+    await expect(
+      acc2.swapExactOutput(0, true, 4654, amounts.fromAmount0Base(245.9), acc2.address)
+    ).to.be.revertedWithCustomError(orderBook, 'LighterV2Swap_TooMuchRequested')
 
-    await expect(acc2.swapExactOutput(0, true, 4655, ParseWETHBase(246), acc2.address)).to.be.revertedWithCustomError(
-      orderBook,
-      'LighterV2Swap_TooMuchRequested'
-    )
+    await expect(
+      acc2.swapExactOutput(0, true, 4655, amounts.fromAmount0Base(246), acc2.address)
+    ).to.be.revertedWithCustomError(orderBook, 'LighterV2Swap_TooMuchRequested')
 
     // pay 99 + 147
     // get 1950 + 2704
-    await acc2.swapExactOutput(0, true, 4654, ParseWETHBase(246), acc2.address)
+    await acc2.swapExactOutput(0, true, 4654, amounts.fromAmount0Base(246), acc2.address)
   })
 })